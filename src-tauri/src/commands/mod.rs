@@ -2,3 +2,4 @@ pub mod files;
 pub mod finder;
 pub mod search;
 pub mod web;
+pub mod vault_server;
@@ -0,0 +1,227 @@
+use serde::Serialize;
+use std::collections::HashMap;
+use std::io::Read;
+use std::sync::atomic::{AtomicU64, Ordering};
+use std::sync::mpsc;
+use std::sync::{Arc, Mutex};
+use std::thread;
+use std::time::Duration;
+use tauri::{AppHandle, Emitter, State};
+use tiny_http::{Header, Method, Request, Response, Server};
+
+// Tool calls may take a while (search over the whole vault)
+const REQUEST_TIMEOUT: Duration = Duration::from_secs(120);
+
+type PendingMap = Arc<Mutex<HashMap<u64, mpsc::Sender<String>>>>;
+
+/// Local HTTP endpoint that exposes the open vault as an MCP server.
+/// Requests are forwarded to the frontend, which runs the vault tools
+/// and answers through `respond_vault_request`.
+#[derive(Default)]
+pub struct VaultServerState {
+    server: Mutex<Option<RunningServer>>,
+    pending: PendingMap,
+    next_id: Arc<AtomicU64>,
+}
+
+struct RunningServer {
+    server: Arc<Server>,
+    accept_thread: thread::JoinHandle<()>,
+}
+
+impl RunningServer {
+    /// Stop accepting and wait for the accept loop, so the port is free
+    /// again once this returns.
+    fn shutdown(self) {
+        self.server.unblock();
+        let _ = self.accept_thread.join();
+    }
+}
+
+#[derive(Clone, Serialize)]
+struct VaultRequestEvent {
+    id: u64,
+    body: String,
+}
+
+#[tauri::command]
+pub fn start_vault_server(
+    app: AppHandle,
+    state: State<'_, VaultServerState>,
+    port: u16,
+    token: Option<String>,
+) -> Result<u16, String> {
+    let mut guard = state.server.lock().map_err(|e| e.to_string())?;
+
+    // Restart if already running (e.g. port or project changed)
+    if let Some(running) = guard.take() {
+        running.shutdown();
+    }
+
+    let server = Server::http(("127.0.0.1", port))
+        .map_err(|e| format!("Port {} konnte nicht geöffnet werden: {}", port, e))?;
+    let server = Arc::new(server);
+    let bound_port = server
+        .server_addr()
+        .to_ip()
+        .map(|addr| addr.port())
+        .unwrap_or(port);
+
+    let pending = state.pending.clone();
+    let next_id = state.next_id.clone();
+    let token = token.filter(|t| !t.is_empty());
+
+    let accept_server = server.clone();
+    let accept_thread = thread::spawn(move || {
+        for request in accept_server.incoming_requests() {
+            let app = app.clone();
+            let pending = pending.clone();
+            let next_id = next_id.clone();
+            let token = token.clone();
+            thread::spawn(move || {
+                handle_request(request, &app, &pending, &next_id, token.as_deref());
+            });
+        }
+    });
+
+    *guard = Some(RunningServer {
+        server,
+        accept_thread,
+    });
+
+    Ok(bound_port)
+}
+
+#[tauri::command]
+pub fn stop_vault_server(state: State<'_, VaultServerState>) -> Result<(), String> {
+    let mut guard = state.server.lock().map_err(|e| e.to_string())?;
+    if let Some(running) = guard.take() {
+        running.shutdown();
+    }
+    Ok(())
+}
+
+#[tauri::command]
+pub fn respond_vault_request(
+    state: State<'_, VaultServerState>,
+    id: u64,
+    response: String,
+) -> Result<(), String> {
+    let sender = state
+        .pending
+        .lock()
+        .map_err(|e| e.to_string())?
+        .remove(&id);
+
+    match sender {
+        Some(sender) => sender
+            .send(response)
+            .map_err(|_| "Anfrage ist bereits abgelaufen".to_string()),
+        None => Err(format!("Unbekannte Anfrage {}", id)),
+    }
+}
+
+fn handle_request(
+    mut request: Request,
+    app: &AppHandle,
+    pending: &PendingMap,
+    next_id: &AtomicU64,
+    token: Option<&str>,
+) {
+    // Browsers send an Origin header - only accept local pages (DNS rebinding protection)
+    if let Some(origin) = header_value(&request, "Origin") {
+        if !is_local_origin(&origin) {
+            respond(request, 403, "Forbidden origin");
+            return;
+        }
+    }
+
+    if let Some(token) = token {
+        let expected = format!("Bearer {}", token);
+        if header_value(&request, "Authorization").as_deref() != Some(expected.as_str()) {
+            respond(request, 401, "Unauthorized");
+            return;
+        }
+    }
+
+    let path = request.url().split('?').next().unwrap_or("").to_string();
+    if path != "/mcp" {
+        respond(request, 404, "Not found");
+        return;
+    }
+
+    // No server-initiated stream and no sessions - only POST is supported
+    if request.method() != &Method::Post {
+        respond(request, 405, "Method not allowed");
+        return;
+    }
+
+    let mut body = String::new();
+    if request.as_reader().read_to_string(&mut body).is_err() {
+        respond(request, 400, "Invalid body");
+        return;
+    }
+
+    let id = next_id.fetch_add(1, Ordering::SeqCst);
+    let (sender, receiver) = mpsc::channel();
+    if let Ok(mut map) = pending.lock() {
+        map.insert(id, sender);
+    }
+
+    if app
+        .emit("vault-mcp-request", VaultRequestEvent { id, body })
+        .is_err()
+    {
+        remove_pending(pending, id);
+        respond(request, 500, "App not reachable");
+        return;
+    }
+
+    let result = receiver.recv_timeout(REQUEST_TIMEOUT);
+    remove_pending(pending, id);
+
+    match result {
+        // Notifications and responses get no JSON-RPC answer
+        Ok(response) if response.is_empty() => respond(request, 202, ""),
+        Ok(response) => {
+            let content_type =
+                Header::from_bytes(&b"Content-Type"[..], &b"application/json"[..]).unwrap();
+            let _ = request.respond(Response::from_string(response).with_header(content_type));
+        }
+        Err(_) => respond(request, 504, "Timeout"),
+    }
+}
+
+fn remove_pending(pending: &PendingMap, id: u64) {
+    if let Ok(mut map) = pending.lock() {
+        map.remove(&id);
+    }
+}
+
+fn respond(request: Request, status: u16, message: &str) {
+    let _ = request.respond(Response::from_string(message).with_status_code(status));
+}
+
+fn header_value(request: &Request, name: &str) -> Option<String> {
+    request
+        .headers()
+        .iter()
+        .find(|header| header.field.equiv(name))
+        .map(|header| header.value.as_str().to_string())
+}
+
+fn is_local_origin(origin: &str) -> bool {
+    let local_prefixes = [
+        "http://localhost",
+        "http://127.0.0.1",
+        "https://localhost",
+        "https://127.0.0.1",
+        "tauri://localhost",
+        "http://tauri.localhost",
+    ];
+    local_prefixes.iter().any(|prefix| {
+        origin == *prefix
+            || origin.starts_with(&format!("{}:", prefix))
+            || origin.starts_with(&format!("{}/", prefix))
+    })
+}
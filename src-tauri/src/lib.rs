@@ -1,6 +1,6 @@
 mod commands;
 
-use commands::{files, finder, search, web};
+use commands::{files, finder, search, vault_server, web};
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
@@ -11,6 +11,7 @@ pub fn run() {
         .plugin(tauri_plugin_store::Builder::new().build())
         .plugin(tauri_plugin_shell::init())
         .plugin(tauri_plugin_http::init())
+        .manage(vault_server::VaultServerState::default())
         .invoke_handler(tauri::generate_handler![
             files::read_directory,
             files::read_file,
@@ -22,6 +23,9 @@ pub fn run() {
             search::search_content,
             web::web_search,
             finder::reveal_in_finder,
+            vault_server::start_vault_server,
+            vault_server::stop_vault_server,
+            vault_server::respond_vault_request,
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
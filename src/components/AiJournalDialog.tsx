@@ -0,0 +1,145 @@
+import { useMemo, useState } from "react";
+import { X, ScrollText, Undo2, FilePlus, FilePen, FolderPlus, ArrowRight, Trash2 } from "lucide-react";
+import { useAppStore } from "../stores/appStore";
+import type { JournalEntry } from "../services/aiJournal";
+
+interface AiJournalDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function getOperationIcon(entry: JournalEntry) {
+  switch (entry.kind) {
+    case "create":
+      return <FilePlus className="w-4 h-4 text-green-400 flex-shrink-0" />;
+    case "create_folder":
+      return <FolderPlus className="w-4 h-4 text-green-400 flex-shrink-0" />;
+    case "rename":
+    case "move":
+      return <ArrowRight className="w-4 h-4 text-blue-400 flex-shrink-0" />;
+    case "delete":
+      return <Trash2 className="w-4 h-4 text-red-400 flex-shrink-0" />;
+    default:
+      return <FilePen className="w-4 h-4 text-yellow-400 flex-shrink-0" />;
+  }
+}
+
+export default function AiJournalDialog({ isOpen, onClose }: AiJournalDialogProps) {
+  const { aiJournal, undoAiTurn, currentProject } = useAppStore();
+  const [error, setError] = useState<string | null>(null);
+
+  // One group per chat turn, newest first
+  const turns = useMemo(() => {
+    const groups = new Map<string, JournalEntry[]>();
+    for (const entry of aiJournal) {
+      groups.set(entry.turnId, [...(groups.get(entry.turnId) || []), entry]);
+    }
+    return [...groups.entries()].reverse();
+  }, [aiJournal]);
+
+  const relative = (path: string) =>
+    currentProject && path.startsWith(`${currentProject.path}/`)
+      ? path.slice(currentProject.path.length + 1)
+      : path;
+
+  const handleUndo = async (turnId: string) => {
+    setError(null);
+    try {
+      await undoAiTurn(turnId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-dark-panel border border-dark-border rounded-lg shadow-xl w-[560px] max-w-[90vw] max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-dark-border">
+          <div className="flex items-center gap-3">
+            <ScrollText className="w-5 h-5 text-dark-text-muted" />
+            <h2 className="text-lg font-semibold text-dark-text">KI-Dateioperationen</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-4 p-2 rounded bg-red-500/10 border border-red-500/30 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4">
+          {turns.length === 0 ? (
+            <div className="text-center py-8">
+              <ScrollText className="w-12 h-12 text-dark-text-muted mx-auto mb-4 opacity-30" />
+              <p className="text-dark-text-muted">Die KI hat noch keine Dateien direkt geändert</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {turns.map(([turnId, entries]) => {
+                const isUndone = entries.every(e => e.undone);
+                return (
+                  <div key={turnId} className="p-3 bg-dark-sidebar rounded-lg">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-xs text-dark-text-muted">
+                        {new Date(entries[0].timestamp).toLocaleString("de-DE", {
+                          day: "2-digit",
+                          month: "2-digit",
+                          year: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </span>
+                      {isUndone ? (
+                        <span className="text-xs text-dark-text-muted">Rückgängig gemacht</span>
+                      ) : (
+                        <button
+                          onClick={() => handleUndo(turnId)}
+                          className="flex items-center gap-1 px-2 py-1 rounded text-xs text-dark-text-muted hover:bg-dark-hover hover:text-dark-text transition-colors"
+                          title="Alle Operationen dieses Schritts rückgängig machen"
+                        >
+                          <Undo2 className="w-3.5 h-3.5" />
+                          Rückgängig
+                        </button>
+                      )}
+                    </div>
+                    <div className="space-y-1">
+                      {entries.map((entry) => (
+                        <div
+                          key={entry.id}
+                          className={`flex items-center gap-2 text-sm ${entry.undone ? "opacity-50 line-through" : ""}`}
+                        >
+                          {getOperationIcon(entry)}
+                          <span className="text-dark-text truncate" title={entry.path}>
+                            {relative(entry.path)}
+                          </span>
+                          {entry.newPath && (
+                            <span className="text-dark-text-muted truncate" title={entry.newPath}>
+                              → {relative(entry.newPath)}
+                            </span>
+                          )}
+                          <span className="ml-auto text-xs font-mono text-dark-text-muted flex-shrink-0">
+                            {entry.tool}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, Link2, FileText } from "lucide-react";
+import { useAppStore } from "../../stores/appStore";
+import {
+  buildLinkIndex,
+  getBacklinks,
+  getNoteTitle,
+  getUnlinkedMentions,
+  subscribeToLinkIndex,
+  type NoteReference,
+} from "../../services/linkIndex";
+
+// References grouped by the note they appear in
+function groupBySource(references: NoteReference[]): [string, NoteReference[]][] {
+  const groups = new Map<string, NoteReference[]>();
+  for (const reference of references) {
+    groups.set(reference.sourcePath, [...(groups.get(reference.sourcePath) || []), reference]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => getNoteTitle(a).localeCompare(getNoteTitle(b), "de"));
+}
+
+interface ReferenceListProps {
+  references: NoteReference[];
+  emptyText: string;
+  onOpen: (reference: NoteReference) => void;
+  onLink?: (reference: NoteReference) => void;
+}
+
+function ReferenceList({ references, emptyText, onOpen, onLink }: ReferenceListProps) {
+  if (references.length === 0) {
+    return <div className="px-3 py-1.5 text-xs text-dark-text-muted">{emptyText}</div>;
+  }
+
+  return (
+    <div>
+      {groupBySource(references).map(([sourcePath, items]) => (
+        <div key={sourcePath} className="px-2 pb-1">
+          <div className="flex items-center gap-1.5 px-1 py-1 text-xs text-dark-text">
+            <FileText className="w-3.5 h-3.5 text-blue-400 flex-shrink-0" />
+            <span className="truncate">{getNoteTitle(sourcePath)}</span>
+          </div>
+          {items.map((reference) => (
+            <div
+              key={`${reference.from}-${reference.to}`}
+              className="group flex items-start gap-1 ml-5 mb-1 rounded hover:bg-dark-hover"
+            >
+              <button
+                type="button"
+                onClick={() => onOpen(reference)}
+                className="flex-1 min-w-0 text-left px-1.5 py-1 text-xs text-dark-text-muted line-clamp-2"
+                title={`Zeile ${reference.line} öffnen`}
+              >
+                {reference.context}
+              </button>
+              {onLink && (
+                <button
+                  type="button"
+                  onClick={() => onLink(reference)}
+                  className="flex-shrink-0 px-1.5 py-1 text-xs rounded text-dark-accent hover:text-dark-text opacity-0 group-hover:opacity-100"
+                  title="Als Wikilink verknüpfen"
+                >
+                  Verknüpfen
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Sidebar panel with the backlinks and unlinked mentions of the active note
+export default function BacklinksPanel() {
+  const { currentProject, activeFile, fileTree, openFileAt, linkUnlinkedMention } = useAppStore();
+  const [collapsed, setCollapsed] = useState(() => localStorage.getItem("backlinks-collapsed") === "true");
+  const [indexVersion, setIndexVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    localStorage.setItem("backlinks-collapsed", String(collapsed));
+  }, [collapsed]);
+
+  useEffect(() => subscribeToLinkIndex(() => setIndexVersion(v => v + 1)), []);
+
+  // The build is incremental, so it's cheap to run on every tree refresh
+  useEffect(() => {
+    if (!currentProject || collapsed) return;
+    buildLinkIndex(currentProject.path).catch((err) => console.error("Failed to build link index:", err));
+  }, [currentProject, fileTree, collapsed]);
+
+  useEffect(() => {
+    setError(null);
+  }, [activeFile]);
+
+  const notePath = activeFile?.toLowerCase().endsWith(".md") ? activeFile : null;
+  const backlinks = useMemo(() => (notePath ? getBacklinks(notePath) : []), [notePath, indexVersion]);
+  const mentions = useMemo(() => (notePath ? getUnlinkedMentions(notePath) : []), [notePath, indexVersion]);
+
+  const handleLink = async (mention: NoteReference) => {
+    if (!notePath) return;
+    setError(null);
+    try {
+      await linkUnlinkedMention(mention, notePath);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const openReference = (reference: NoteReference) => openFileAt(reference.sourcePath, reference.line);
+
+  return (
+    <div className={`border-t border-dark-border flex flex-col ${collapsed ? "" : "max-h-[45%] min-h-[120px]"}`}>
+      <button
+        type="button"
+        onClick={() => setCollapsed(!collapsed)}
+        className="flex items-center gap-1.5 px-3 py-2 text-xs font-medium text-dark-text-muted uppercase tracking-wider hover:text-dark-text"
+      >
+        {collapsed ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+        <Link2 className="w-3.5 h-3.5" />
+        Verknüpfungen
+        {notePath && !collapsed && (
+          <span className="ml-auto normal-case tracking-normal">{backlinks.length}</span>
+        )}
+      </button>
+
+      {!collapsed && (
+        <div className="flex-1 overflow-y-auto pb-2">
+          {!notePath ? (
+            <div className="px-3 py-1.5 text-xs text-dark-text-muted">Keine Notiz geöffnet</div>
+          ) : (
+            <>
+              <div className="px-3 pt-1 pb-1 text-[11px] text-dark-text-muted">
+                Rückverweise ({backlinks.length})
+              </div>
+              <ReferenceList
+                references={backlinks}
+                emptyText="Keine Notiz verlinkt hierher"
+                onOpen={openReference}
+              />
+
+              <div className="px-3 pt-2 pb-1 text-[11px] text-dark-text-muted">
+                Unverlinkte Erwähnungen ({mentions.length})
+              </div>
+              {error && <div className="px-3 py-1 text-xs text-red-400">{error}</div>}
+              <ReferenceList
+                references={mentions}
+                emptyText={`„${getNoteTitle(notePath)}“ wird nirgends ohne Link erwähnt`}
+                onOpen={openReference}
+                onLink={handleLink}
+              />
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
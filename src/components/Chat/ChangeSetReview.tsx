@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, FileDiff, Check, X } from "lucide-react";
+import { useAppStore, isContentChange, type ChangeSetFile, type ChangeSetFileStatus } from "../../stores/appStore";
+
+interface ChangeSetReviewProps {
+  changeSetId: string;
+}
+
+const STATUS_LABELS: Record<ChangeSetFileStatus, string> = {
+  pending: "offen",
+  accepted: "angenommen",
+  rejected: "abgelehnt",
+};
+
+// What a structural operation will do, content edits need no label
+function describeOperation(file: ChangeSetFile): string | null {
+  switch (file.kind) {
+    case "create":
+      return "neu";
+    case "create_folder":
+      return "neuer Ordner";
+    case "rename":
+      return `→ ${file.newPath?.split("/").pop()}`;
+    case "move":
+      return `→ ${file.newPath?.split("/").slice(-2, -1)[0]}/`;
+    case "delete":
+      return "löschen";
+    default:
+      return null;
+  }
+}
+
+export default function ChangeSetReview({ changeSetId }: ChangeSetReviewProps) {
+  const {
+    changeSets,
+    pendingChanges,
+    openFile,
+    acceptPendingChange,
+    rejectPendingChange,
+    acceptChangeSet,
+    rejectChangeSet,
+  } = useAppStore();
+  const [isExpanded, setIsExpanded] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const changeSet = changeSets.find(cs => cs.id === changeSetId);
+  if (!changeSet || changeSet.files.length === 0) return null;
+
+  const pendingCount = changeSet.files.filter(f => f.status === "pending").length;
+  // A failed change stays pending, the error is shown below the list
+  const accept = async (run: () => Promise<void>) => {
+    setError(null);
+    try {
+      await run();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const findChange = (file: ChangeSetFile) =>
+    pendingChanges.find(c => c.changeSetId === changeSetId && c.filePath === file.filePath && c.kind === file.kind);
+
+  return (
+    <div className="mb-2 border border-dark-border rounded">
+      <div className="flex items-center gap-1.5 px-2 py-1">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex-1 flex items-center gap-1.5 text-xs text-dark-text-muted hover:text-dark-text transition-colors"
+        >
+          {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          <FileDiff className="w-3 h-3" />
+          {changeSet.files.length} {changeSet.files.length === 1 ? "Datei geändert" : "Dateien geändert"}
+          {pendingCount > 0 && <span className="text-yellow-400">({pendingCount} offen)</span>}
+        </button>
+        {pendingCount > 0 && (
+          <>
+            <button
+              type="button"
+              onClick={() => accept(() => acceptChangeSet(changeSetId))}
+              className="px-1.5 py-0.5 rounded text-xs text-green-400 hover:bg-dark-hover transition-colors"
+              title="Alle Änderungen annehmen"
+            >
+              Alle annehmen
+            </button>
+            <button
+              type="button"
+              onClick={() => rejectChangeSet(changeSetId)}
+              className="px-1.5 py-0.5 rounded text-xs text-red-400 hover:bg-dark-hover transition-colors"
+              title="Alle Änderungen ablehnen"
+            >
+              Alle ablehnen
+            </button>
+          </>
+        )}
+      </div>
+      {isExpanded && (
+        <div className="px-1 pb-1">
+          {changeSet.files.map((file) => {
+            const change = file.status === "pending" ? findChange(file) : undefined;
+            const operation = describeOperation(file);
+            return (
+              <div
+                key={`${file.kind ?? "update"}:${file.filePath}`}
+                className="group flex items-center gap-1.5 px-1.5 py-1 rounded hover:bg-dark-hover transition-colors"
+              >
+                <button
+                  type="button"
+                  onClick={() => isContentChange(file) && openFile(file.filePath)}
+                  className="flex-1 min-w-0 text-left text-xs text-dark-text truncate"
+                  title={file.newPath ? `${file.filePath} → ${file.newPath}` : file.filePath}
+                >
+                  {file.fileName}
+                  {operation && (
+                    <span className={`ml-1.5 ${file.kind === "delete" ? "text-red-400" : "text-dark-text-muted"}`}>
+                      {operation}
+                    </span>
+                  )}
+                </button>
+                {change ? (
+                  <div className="flex items-center gap-0.5">
+                    <button
+                      type="button"
+                      onClick={() => accept(() => acceptPendingChange(change.id))}
+                      className="p-0.5 rounded text-dark-text-muted hover:text-green-400"
+                      title="Annehmen"
+                    >
+                      <Check className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => rejectPendingChange(change.id)}
+                      className="p-0.5 rounded text-dark-text-muted hover:text-red-400"
+                      title="Ablehnen"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ) : (
+                  <span className={`text-xs ${
+                    file.status === "accepted" ? "text-green-400" : file.status === "rejected" ? "text-red-400" : "text-dark-text-muted"
+                  }`}>
+                    {STATUS_LABELS[file.status]}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {error && <div className="px-2 pb-1 text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
@@ -1,35 +1,111 @@
 import { useState, useRef, useEffect, useMemo, useCallback } from "react";
-import { Send, Trash2, Bot, Loader2, File, Folder, ChevronDown, GitCompare, Zap, Square } from "lucide-react";
-import { useAppStore, FileNode } from "../../stores/appStore";
-import { sendChatMessage } from "../../services/openai";
-import ReactMarkdown, { Components } from "react-markdown";
-
-// Available GPT models
-const AVAILABLE_MODELS = [
-  // GPT-5 Modelle (Neu)
-  { id: "gpt-5.2", name: "GPT-5.2", description: "Neuestes Modell" },
-  { id: "gpt-5.1", name: "GPT-5.1", description: "Sehr leistungsstark" },
-  { id: "gpt-5", name: "GPT-5", description: "GPT-5 Basis" },
-  // GPT-4o Modelle
-  { id: "gpt-4o", name: "GPT-4o", description: "Bewährt & stabil" },
-  { id: "gpt-4o-mini", name: "GPT-4o Mini", description: "Schnell & günstig" },
-];
+import { Send, Bot, Loader2, File, Folder, ChevronDown, GitCompare, Zap, Square, Database, X, TerminalSquare, History, SquarePen, GitBranch, Undo2, ScrollText, BookOpen, FileText, Settings2 } from "lucide-react";
+import { useAppStore, isContentChange, FileNode, ChatMessage, ChatAttachment, ChatSource } from "../../stores/appStore";
+import { sendChatMessageStreaming, type ToolStep } from "../../services/openai";
+import { isProviderReady, resolveEmbeddingSelection } from "../../services/llm";
+import { retrieveSources } from "../../services/retrieval";
+import type { IndexProgress } from "../../services/vectorIndex";
+import { readTextFile } from "../../services/fileSystem";
+import { loadPromptTemplates, expandPromptTemplate, type PromptTemplate } from "../../services/promptTemplates";
+import { getAllResources, getAllPrompts, getPrompt, readResource, type McpPrompt } from "../../services/mcp";
+import { Components } from "react-markdown";
+import ToolTimeline from "./ToolTimeline";
+import ChangeSetReview from "./ChangeSetReview";
+import CitedMarkdown from "./CitedMarkdown";
+import PromptTemplateManager from "./PromptTemplateManager";
+import AiJournalDialog from "../AiJournalDialog";
+import ChatThreadList from "./ChatThreadList";
 
 interface MentionSuggestion {
   name: string;
   path: string;
   relativePath: string;
   isDirectory: boolean;
+  resource?: { serverId: string; uri: string };  // Set for MCP resources
+}
+
+// /-commands come from prompt templates and from MCP prompts
+type CommandSuggestion =
+  | { kind: "template"; template: PromptTemplate }
+  | { kind: "mcp"; serverId: string; serverName: string; prompt: McpPrompt };
+
+function getCommandName(suggestion: CommandSuggestion): string {
+  return suggestion.kind === "template" ? suggestion.template.name : suggestion.prompt.name;
+}
+
+// Parse "key=value" pairs (values may be quoted) after a slash command.
+// A prompt with a single argument takes the whole text as its value.
+function parsePromptArguments(prompt: McpPrompt, text: string): Record<string, string> {
+  const args: Record<string, string> = {};
+  const promptArgs = prompt.arguments || [];
+
+  if (promptArgs.length === 1 && !/^\w+=/.test(text)) {
+    if (text) args[promptArgs[0].name] = text;
+    return args;
+  }
+
+  const pattern = /(\w+)=(?:"([^"]*)"|(\S+))/g;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    args[match[1]] = match[2] ?? match[3];
+  }
+  return args;
+}
+
+// Message content as the model sees it, including attached resources
+// and retrieved note excerpts
+function toModelContent(message: Omit<ChatMessage, "id" | "timestamp">): string {
+  const parts = [message.content];
+
+  for (const a of message.attachments || []) {
+    parts.push(`---\nMCP-Ressource "${a.name}" (${a.uri}):\n\n${a.content}`);
+  }
+
+  if (message.sources && message.sources.length > 0) {
+    const excerpts = message.sources.map((s, i) =>
+      `[${i + 1}] ${s.name}${s.heading ? ` › ${s.heading}` : ""} (Zeile ${s.line}):\n${s.content}`
+    );
+    parts.push(
+      "---\nAuszüge aus den Notizen des Projekts. Stütze die Antwort darauf und belege " +
+      "Aussagen daraus mit der Nummer des Auszugs in eckigen Klammern, z. B. [1].\n\n" +
+      excerpts.join("\n\n")
+    );
+  }
+
+  return parts.join("\n\n");
+}
+
+// Sources of the question an answer belongs to
+function getQuestionSources(messages: ChatMessage[], index: number): ChatSource[] | undefined {
+  for (let i = index - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messages[i].sources;
+  }
+  return undefined;
 }
 
 export default function Chat() {
   const {
     chatMessages,
     addChatMessage,
-    clearChat,
-    apiKey,
+    updateChatMessage,
+    startNewThread,
+    chatThreads,
+    activeThreadId,
+    forkChatThread,
+    aiJournal,
+    recordFileOperation,
+    undoAiTurn,
+    getToolPermission,
+    requestToolConfirmation,
+    resolveToolConfirmation,
+    providers,
+    providerApiKeys,
+    selectedProviderId,
     selectedModel,
     setSelectedModel,
+    getModelSelection,
+    agentMaxSteps,
+    agentTokenBudget,
     currentProject,
     openFile,
     refreshFileTree,
@@ -38,15 +114,28 @@ export default function Chat() {
     addPendingChange,
     diffModeEnabled,
     setDiffModeEnabled,
+    useVaultKnowledge,
+    setUseVaultKnowledge,
+    customPrompt,
     openFiles,
     mcpServers,
   } = useAppStore();
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [streamingContent, setStreamingContent] = useState("");
+  const [streamingSteps, setStreamingSteps] = useState<ToolStep[]>([]);
+  // Set while the embedding index is built for a vault knowledge question
+  const [indexProgress, setIndexProgress] = useState<IndexProgress | null>(null);
+  const [showThreads, setShowThreads] = useState(false);
+  const [showJournal, setShowJournal] = useState(false);
+  const [undoError, setUndoError] = useState<{ turnId: string; message: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Latest streamed text, kept outside of state so a stop can save it
+  const streamedTextRef = useRef("");
+  const streamedStepsRef = useRef<ToolStep[]>([]);
+  const changeSetIdRef = useRef<string | null>(null);
   
   // Custom link handler for markdown
   const handleInternalLink = useCallback((href: string) => {
@@ -106,6 +195,17 @@ export default function Chat() {
   const [selectedMentionIndex, setSelectedMentionIndex] = useState(0);
   const mentionListRef = useRef<HTMLDivElement>(null);
   
+  // Attached MCP resources for the next message
+  const [attachedResources, setAttachedResources] = useState<Omit<ChatAttachment, "content">[]>([]);
+  
+  // /-command state (prompt templates and MCP prompts)
+  const [showCommands, setShowCommands] = useState(false);
+  const [commandQuery, setCommandQuery] = useState("");
+  const [selectedCommandIndex, setSelectedCommandIndex] = useState(0);
+  const commandListRef = useRef<HTMLDivElement>(null);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
+  
   // Model selector dropdown state
   const [showModelDropdown, setShowModelDropdown] = useState(false);
   const modelDropdownRef = useRef<HTMLDivElement>(null);
@@ -160,18 +260,66 @@ export default function Chat() {
 
   const allFiles = useMemo(() => getAllFiles(fileTree), [fileTree]);
 
+  // MCP resources can be mentioned like files; re-read when the popup opens
+  const allResources = useMemo((): MentionSuggestion[] => {
+    if (!showMentions) return [];
+    return getAllResources().map(({ serverId, serverName, resource }) => ({
+      name: resource.name,
+      path: `${serverId}:${resource.uri}`,
+      relativePath: `${serverName} · ${resource.uri}`,
+      isDirectory: false,
+      resource: { serverId, uri: resource.uri },
+    }));
+  }, [showMentions]);
+
   // Filter suggestions based on query
   const mentionSuggestions = useMemo(() => {
-    if (!mentionQuery) return allFiles.slice(0, 10);
+    const candidates = [...allFiles, ...allResources];
+    if (!mentionQuery) return candidates.slice(0, 10);
     
     const query = mentionQuery.toLowerCase();
-    return allFiles
+    return candidates
       .filter(file => 
         file.name.toLowerCase().includes(query) ||
         file.relativePath.toLowerCase().includes(query)
       )
       .slice(0, 10);
-  }, [allFiles, mentionQuery]);
+  }, [allFiles, allResources, mentionQuery]);
+
+  // Templates are files, re-read them whenever the popup opens
+  const reloadPromptTemplates = useCallback(() => {
+    loadPromptTemplates(currentProject?.path)
+      .then(setPromptTemplates)
+      .catch((error) => console.error("Failed to load prompt templates:", error));
+  }, [currentProject]);
+
+  useEffect(() => {
+    if (showCommands || showTemplateManager) reloadPromptTemplates();
+  }, [showCommands, showTemplateManager, reloadPromptTemplates]);
+
+  // Prompt templates and MCP prompts offered as /-commands
+  const commandSuggestions = useMemo((): CommandSuggestion[] => {
+    if (!showCommands) return [];
+    const query = commandQuery.toLowerCase();
+    const candidates: CommandSuggestion[] = [
+      ...promptTemplates.map(template => ({ kind: "template" as const, template })),
+      ...getAllPrompts().map(p => ({ kind: "mcp" as const, ...p })),
+    ];
+    return candidates
+      .filter(suggestion => getCommandName(suggestion).toLowerCase().includes(query))
+      .slice(0, 10);
+  }, [showCommands, commandQuery, promptTemplates]);
+
+  useEffect(() => {
+    setSelectedCommandIndex(0);
+  }, [commandSuggestions]);
+
+  useEffect(() => {
+    if (showCommands && commandListRef.current) {
+      const selectedItem = commandListRef.current.children[selectedCommandIndex + 1] as HTMLElement;
+      selectedItem?.scrollIntoView({ block: "nearest" });
+    }
+  }, [selectedCommandIndex, showCommands]);
 
   // Reset selected index when suggestions change
   useEffect(() => {
@@ -190,58 +338,172 @@ export default function Chat() {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
+      // A tool waiting for confirmation would block the stop
+      resolveToolConfirmation(false);
     }
   };
 
-  // Simulate streaming display for a text
-  const displayWithStreaming = async (text: string) => {
-    const words = text.split(/(\s+)/);
-    let displayed = "";
-    
-    for (const word of words) {
-      if (abortControllerRef.current?.signal.aborted) {
-        return displayed;
+  // Fill a template with the active file, the editor selection and the
+  // files mentioned with @ in the text after the command
+  const expandTemplateCommand = async (template: PromptTemplate, commandInput: string): Promise<string> => {
+    const { openFiles: currentFiles, activeFile, editorSelection } = useAppStore.getState();
+    const projectPath = currentProject?.path;
+    const relative = (path: string) =>
+      projectPath && path.startsWith(`${projectPath}/`) ? path.slice(projectPath.length + 1) : path;
+
+    const mentions: { relativePath: string; content: string }[] = [];
+    const pattern = /(?:^|\s)@(\S+)/g;
+    let match;
+    while ((match = pattern.exec(commandInput)) !== null) {
+      const relativePath = match[1];
+      const file = allFiles.find(f => f.relativePath === relativePath);
+      if (file?.isDirectory || (!file && !projectPath)) continue;
+      try {
+        const content = await readTextFile(file ? file.path : `${projectPath}/${relativePath}`);
+        mentions.push({ relativePath, content });
+      } catch {
+        // Not a readable file, the mention stays plain text
       }
-      displayed += word;
-      setStreamingContent(displayed);
-      await new Promise(resolve => setTimeout(resolve, 15));
     }
-    return displayed;
+
+    const active = currentFiles.find(f => f.path === activeFile);
+    return expandPromptTemplate(template, {
+      input: commandInput,
+      activeFile: active ? { relativePath: relative(active.path), content: active.content } : undefined,
+      selection: editorSelection?.text,
+      mentions,
+    });
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
 
-    if (!apiKey) {
+    const selection = getModelSelection();
+    if (!selection) {
       addChatMessage({
         role: "assistant",
         content:
-          "Bitte füge deinen OpenAI API-Key in den Einstellungen hinzu, um den Chat zu nutzen.",
+          "Bitte füge den API-Key für den gewählten Anbieter in den Einstellungen hinzu, um den Chat zu nutzen.",
       });
       return;
     }
 
     const userMessage = input.trim();
+    const resourcesToAttach = attachedResources;
     setInput("");
-    addChatMessage({ role: "user", content: userMessage });
+    setAttachedResources([]);
     setIsLoading(true);
-    setStreamingContent("Denkt nach...");
+    setStreamingContent("");
+    setStreamingSteps([]);
+    streamedTextRef.current = "";
+    streamedStepsRef.current = [];
+    // Proposed edits of this reply are grouped into one change set, direct
+    // operations are journaled under the same id for the per-turn undo
+    const changeSetId = crypto.randomUUID();
+    changeSetIdRef.current = changeSetId;
+    const getChangeSetId = () => {
+      const { changeSets, aiJournal } = useAppStore.getState();
+      const hasChanges = changeSets.some(cs => cs.id === changeSetId) || aiJournal.some(e => e.turnId === changeSetId);
+      return hasChanges ? changeSetId : undefined;
+    };
     
     // Create abort controller for this request
-    abortControllerRef.current = new AbortController();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    // Until the message is in the chat, a failure gives the input back
+    let isMessageAdded = false;
+    const restoreInput = () => {
+      if (isMessageAdded) return;
+      setInput(userMessage);
+      setAttachedResources(resourcesToAttach);
+    };
 
     try {
-      // Use the original sendChatMessage which handles tools properly
-      const response = await sendChatMessage({
-        messages: [
-          ...chatMessages.map((m) => ({ role: m.role, content: m.content })),
-          { role: "user" as const, content: userMessage },
-        ],
-        apiKey,
-        model: selectedModel,
+      // A /-command expands to a prompt template or to the messages of the
+      // MCP prompt; templates win on equal names
+      let newMessages: Omit<ChatMessage, "id" | "timestamp">[];
+      const commandMatch = userMessage.match(/^\/(\S+)\s*([\s\S]*)$/);
+      const template = commandMatch
+        ? (await loadPromptTemplates(currentProject?.path)).find(t => t.name === commandMatch[1])
+        : undefined;
+      const command = commandMatch && !template
+        ? getAllPrompts().find(({ prompt }) => prompt.name === commandMatch[1])
+        : undefined;
+      
+      if (command && commandMatch) {
+        const args = parsePromptArguments(command.prompt, commandMatch[2].trim());
+        const missing = (command.prompt.arguments || [])
+          .filter(a => a.required && !args[a.name])
+          .map(a => a.name);
+        if (missing.length > 0) {
+          throw new Error(`Fehlende Argumente für /${command.prompt.name}: ${missing.join(", ")}`);
+        }
+        
+        const promptMessages = await getPrompt(command.serverId, command.prompt.name, args);
+        newMessages = promptMessages.map(m => ({ role: m.role, content: m.content }));
+        newMessages.forEach(addChatMessage);
+        isMessageAdded = true;
+      } else {
+        const content = template && commandMatch
+          ? await expandTemplateCommand(template, commandMatch[2].trim())
+          : userMessage;
+        const attachments: ChatAttachment[] = await Promise.all(
+          resourcesToAttach.map(async (r) => ({
+            ...r,
+            content: await readResource(r.serverId, r.uri),
+          }))
+        );
+        const message: Omit<ChatMessage, "id" | "timestamp"> = {
+          role: "user",
+          content,
+          attachments: attachments.length > 0 ? attachments : undefined,
+        };
+        // The question is shown right away, building the index may take a while
+        const messageId = addChatMessage(message);
+        isMessageAdded = true;
+
+        // Vault knowledge mode: relevant note excerpts go along with the question
+        if (useVaultKnowledge && currentProject) {
+          const sources = await retrieveSources(
+            currentProject.path,
+            content,
+            resolveEmbeddingSelection(providers, providerApiKeys, selectedProviderId),
+            { signal: abortController.signal, onProgress: setIndexProgress }
+          );
+          setIndexProgress(null);
+          if (sources.length > 0) {
+            message.sources = sources;
+            updateChatMessage(messageId, { sources });
+          }
+        }
+        newMessages = [message];
+      }
+      
+      const response = await sendChatMessageStreaming({
+        messages: [...chatMessages, ...newMessages].map((m) => ({
+          role: m.role,
+          content: toModelContent(m),
+        })),
+        selection,
+        abortSignal: abortController.signal,
+        maxSteps: agentMaxSteps,
+        tokenBudget: agentTokenBudget,
+        onToken: (_token, fullText) => {
+          streamedTextRef.current = fullText;
+          setStreamingContent(fullText);
+        },
+        onToolStep: (step) => {
+          const steps = streamedStepsRef.current;
+          const index = steps.findIndex(s => s.id === step.id);
+          streamedStepsRef.current = index >= 0
+            ? steps.map((s, i) => i === index ? step : s)
+            : [...steps, step];
+          setStreamingSteps(streamedStepsRef.current);
+        },
         projectPath: currentProject?.path,
         mcpServers: mcpServers.filter(s => s.enabled),
+        customPrompt,
         onFileCreated: async (filePath) => {
           console.log("File created:", filePath);
           await refreshFileTree();
@@ -258,26 +520,42 @@ export default function Chat() {
         },
         onProposedChange: diffModeEnabled ? async (change) => {
           console.log("Proposed change:", change);
-          addPendingChange(change);
-          await openFile(change.filePath);
+          addPendingChange({ ...change, changeSetId });
+          if (isContentChange(change)) {
+            await openFile(change.filePath);
+          }
         } : undefined,
+        getPendingChange: diffModeEnabled
+          ? (filePath) => useAppStore.getState().getPendingChangeForFile(filePath)
+          : undefined,
+        onFileOperation: (operation) => recordFileOperation(changeSetId, operation),
+        getToolPermission,
+        confirmToolCall: requestToolConfirmation,
       });
 
-      // Display response with streaming effect
-      await displayWithStreaming(response);
-      
       // Add final message
       setStreamingContent("");
-      addChatMessage({ role: "assistant", content: response });
+      addChatMessage({
+        role: "assistant",
+        content: response,
+        toolSteps: streamedStepsRef.current.length > 0 ? streamedStepsRef.current : undefined,
+        changeSetId: getChangeSetId(),
+      });
       
       // Refresh file tree and reload open files
       await refreshFileTree();
       await reloadOpenFiles();
     } catch (error) {
+      restoreInput();
       // If aborted, save partial response if any
-      if (abortControllerRef.current?.signal.aborted) {
-        if (streamingContent && streamingContent !== "Denkt nach...") {
-          addChatMessage({ role: "assistant", content: streamingContent + "\n\n*[Gestoppt]*" });
+      if (abortController.signal.aborted) {
+        if (streamedTextRef.current || streamedStepsRef.current.length > 0) {
+          addChatMessage({
+            role: "assistant",
+            content: streamedTextRef.current + "\n\n*[Gestoppt]*",
+            toolSteps: streamedStepsRef.current.length > 0 ? streamedStepsRef.current : undefined,
+            changeSetId: getChangeSetId(),
+          });
         }
         setStreamingContent("");
         setIsLoading(false);
@@ -289,20 +567,46 @@ export default function Chat() {
       addChatMessage({
         role: "assistant",
         content: `Fehler: ${error instanceof Error ? error.message : "Unbekannter Fehler"}`,
+        changeSetId: getChangeSetId(),
       });
     } finally {
       setIsLoading(false);
       setStreamingContent("");
+      setStreamingSteps([]);
+      setIndexProgress(null);
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
   // Handle input changes and detect @-mentions
+  const handleUndoTurn = async (turnId: string) => {
+    if (!confirm("Alle Dateioperationen dieser Antwort rückgängig machen?")) return;
+    setUndoError(null);
+    try {
+      await undoAiTurn(turnId);
+    } catch (error) {
+      setUndoError({ turnId, message: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newValue = e.target.value;
     const cursorPos = e.target.selectionStart || 0;
     
     setInput(newValue);
     
+    // Check for /-command at the start of the input
+    const commandMatch = newValue.slice(0, cursorPos).match(/^\/(\S*)$/);
+    if (commandMatch) {
+      setShowCommands(true);
+      setCommandQuery(commandMatch[1]);
+      setShowMentions(false);
+      return;
+    }
+    setShowCommands(false);
+    
     // Check for @ mention
     const textBeforeCursor = newValue.slice(0, cursorPos);
     const lastAtIndex = textBeforeCursor.lastIndexOf("@");
@@ -329,6 +633,25 @@ export default function Chat() {
   const insertMention = (suggestion: MentionSuggestion) => {
     const beforeMention = input.slice(0, mentionStartPos);
     const afterMention = input.slice(mentionStartPos + mentionQuery.length + 1);
+    
+    // Resources are attached to the message instead of being written into it
+    if (suggestion.resource) {
+      const { serverId, uri } = suggestion.resource;
+      if (!attachedResources.some(r => r.serverId === serverId && r.uri === uri)) {
+        setAttachedResources([...attachedResources, { serverId, uri, name: suggestion.name }]);
+      }
+      setInput(beforeMention + afterMention);
+      setShowMentions(false);
+      setMentionQuery("");
+      setTimeout(() => {
+        if (inputRef.current) {
+          inputRef.current.focus();
+          inputRef.current.setSelectionRange(beforeMention.length, beforeMention.length);
+        }
+      }, 0);
+      return;
+    }
+    
     const mentionText = `@${suggestion.relativePath}`;
     
     setInput(beforeMention + mentionText + " " + afterMention);
@@ -345,7 +668,54 @@ export default function Chat() {
     }, 0);
   };
 
+  // Insert selected /-command into input
+  const insertCommand = (suggestion: CommandSuggestion) => {
+    const hasArgs = suggestion.kind === "template"
+      ? /\{\{\s*(input|mentions)\s*\}\}/.test(suggestion.template.body)
+      : (suggestion.prompt.arguments || []).length > 0;
+    const commandText = `/${getCommandName(suggestion)}${hasArgs ? " " : ""}`;
+    
+    setInput(commandText);
+    setShowCommands(false);
+    setCommandQuery("");
+    
+    setTimeout(() => {
+      if (inputRef.current) {
+        inputRef.current.focus();
+        inputRef.current.setSelectionRange(commandText.length, commandText.length);
+      }
+    }, 0);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Handle /-command navigation
+    if (showCommands && commandSuggestions.length > 0) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        setSelectedCommandIndex(prev => 
+          prev < commandSuggestions.length - 1 ? prev + 1 : 0
+        );
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        setSelectedCommandIndex(prev => 
+          prev > 0 ? prev - 1 : commandSuggestions.length - 1
+        );
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertCommand(commandSuggestions[selectedCommandIndex]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setShowCommands(false);
+        return;
+      }
+    }
+    
     // Handle mention navigation
     if (showMentions && mentionSuggestions.length > 0) {
       if (e.key === "ArrowDown") {
@@ -381,27 +751,67 @@ export default function Chat() {
     }
   };
 
+  const activeThread = chatThreads.find(t => t.id === activeThreadId);
+  const activeProvider = providers.find(p => p.id === selectedProviderId);
+  const activeModelName = activeProvider?.models.find(m => m.id === selectedModel)?.name || selectedModel;
+  const isModelReady = activeProvider ? isProviderReady(activeProvider, providerApiKeys[activeProvider.id]) : false;
+  const selectableProviders = providers.filter(p =>
+    p.models.length > 0 && isProviderReady(p, providerApiKeys[p.id])
+  );
+
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
       <div className="p-3 border-b border-dark-border flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <Bot className="w-4 h-4 text-dark-accent" />
-          <span className="text-sm font-medium text-dark-text">KI-Assistent</span>
+        <div className="flex items-center gap-2 min-w-0">
+          <Bot className="w-4 h-4 text-dark-accent flex-shrink-0" />
+          <span className="text-sm font-medium text-dark-text truncate">
+            {showThreads ? "Chat-Verlauf" : activeThread?.title || "KI-Assistent"}
+          </span>
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {currentProject && (
+            <button
+              onClick={() => setShowJournal(true)}
+              className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+              title="KI-Dateioperationen"
+            >
+              <ScrollText className="w-4 h-4" />
+            </button>
+          )}
+          {currentProject && (
+            <button
+              onClick={() => setShowThreads(!showThreads)}
+              disabled={isLoading}
+              className={`p-1 rounded hover:bg-dark-hover transition-colors disabled:opacity-50 ${
+                showThreads ? "text-dark-accent" : "text-dark-text-muted hover:text-dark-text"
+              }`}
+              title="Chat-Verlauf"
+            >
+              <History className="w-4 h-4" />
+            </button>
+          )}
+          {(chatMessages.length > 0 || showThreads) && (
+            <button
+              onClick={() => {
+                startNewThread();
+                setShowThreads(false);
+              }}
+              disabled={isLoading}
+              className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors disabled:opacity-50"
+              title="Neuer Chat"
+            >
+              <SquarePen className="w-4 h-4" />
+            </button>
+          )}
         </div>
-        {chatMessages.length > 0 && (
-          <button
-            onClick={clearChat}
-            className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
-            title="Chat löschen"
-          >
-            <Trash2 className="w-4 h-4" />
-          </button>
-        )}
       </div>
 
+      {showThreads && <ChatThreadList onClose={() => setShowThreads(false)} />}
+      <AiJournalDialog isOpen={showJournal} onClose={() => setShowJournal(false)} />
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div className={`flex-1 overflow-y-auto p-4 space-y-4 ${showThreads ? "hidden" : ""}`}>
         {chatMessages.length === 0 ? (
           <div className="text-center py-8">
             <Bot className="w-12 h-12 text-dark-text-muted mx-auto mb-4 opacity-50" />
@@ -415,12 +825,13 @@ export default function Chat() {
             </div>
             <div className="mt-4 pt-4 border-t border-dark-border">
               <p className="text-xs text-dark-text-muted">
-                Tippe <kbd className="px-1.5 py-0.5 bg-dark-panel rounded">@</kbd> um Dateien zu erwähnen
+                Tippe <kbd className="px-1.5 py-0.5 bg-dark-panel rounded">@</kbd> um Dateien zu erwähnen,{" "}
+                <kbd className="px-1.5 py-0.5 bg-dark-panel rounded">/</kbd> für Befehle
               </p>
             </div>
           </div>
         ) : (
-          chatMessages.map((message) => (
+          chatMessages.map((message, index) => (
             <div
               key={message.id}
               className={`${message.role === "user" ? "text-right" : ""}`}
@@ -432,35 +843,110 @@ export default function Chat() {
                     : "bg-dark-panel text-dark-text"
                 }`}
               >
+                {message.toolSteps && message.toolSteps.length > 0 && (
+                  <ToolTimeline steps={message.toolSteps} />
+                )}
+                {message.changeSetId && (
+                  <ChangeSetReview changeSetId={message.changeSetId} />
+                )}
                 {message.role === "assistant" ? (
                   <div className="chat-markdown">
-                    <ReactMarkdown components={markdownComponents}>{message.content}</ReactMarkdown>
+                    <CitedMarkdown
+                      content={message.content}
+                      sources={getQuestionSources(chatMessages, index)}
+                      components={markdownComponents}
+                    />
                   </div>
                 ) : (
                   <p className="text-sm whitespace-pre-wrap">{message.content}</p>
                 )}
+                {message.attachments && message.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1.5">
+                    {message.attachments.map((attachment) => (
+                      <span
+                        key={`${attachment.serverId}:${attachment.uri}`}
+                        className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded bg-black/20"
+                        title={attachment.uri}
+                      >
+                        <Database className="w-3 h-3" />
+                        {attachment.name}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {message.sources && message.sources.length > 0 && (
+                  <div className="flex justify-end mt-1.5">
+                    <span
+                      className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs rounded bg-black/20"
+                      title={message.sources.map(s => s.name).join("\n")}
+                    >
+                      <BookOpen className="w-3 h-3" />
+                      {message.sources.length} Notizauszüge
+                    </span>
+                  </div>
+                )}
               </div>
-              <div className={`text-xs text-dark-text-muted mt-1 ${message.role === "user" ? "text-right" : ""}`}>
+              <div className={`group flex items-center gap-1.5 text-xs text-dark-text-muted mt-1 ${message.role === "user" ? "justify-end" : ""}`}>
                 {new Date(message.timestamp).toLocaleTimeString("de-DE", {
                   hour: "2-digit",
                   minute: "2-digit",
                 })}
+                {activeThreadId && !isLoading && (
+                  <button
+                    onClick={() => forkChatThread(activeThreadId, message.id)}
+                    className="opacity-0 group-hover:opacity-100 p-0.5 rounded hover:bg-dark-hover hover:text-dark-text transition-opacity"
+                    title="Ab hier abzweigen"
+                  >
+                    <GitBranch className="w-3 h-3" />
+                  </button>
+                )}
+                {message.changeSetId && !isLoading && aiJournal.some(e => e.turnId === message.changeSetId) && (
+                  aiJournal.some(e => e.turnId === message.changeSetId && !e.undone) ? (
+                    <button
+                      onClick={() => handleUndoTurn(message.changeSetId!)}
+                      className="flex items-center gap-0.5 p-0.5 rounded hover:bg-dark-hover hover:text-dark-text"
+                      title="Dateioperationen dieser Antwort rückgängig machen"
+                    >
+                      <Undo2 className="w-3 h-3" />
+                      Rückgängig
+                    </button>
+                  ) : (
+                    <span>· rückgängig gemacht</span>
+                  )
+                )}
               </div>
+              {undoError && undoError.turnId === message.changeSetId && (
+                <div className="text-xs text-red-400 mt-1">{undoError.message}</div>
+              )}
             </div>
           ))
         )}
         {isLoading && (
           <div>
             <div className="inline-block max-w-[85%] text-left px-4 py-2 rounded-lg bg-dark-panel text-dark-text">
+              {streamingSteps.length > 0 && (
+                <ToolTimeline steps={streamingSteps} defaultExpanded />
+              )}
+              {changeSetIdRef.current && (
+                <ChangeSetReview changeSetId={changeSetIdRef.current} />
+              )}
               {streamingContent ? (
                 <div className="chat-markdown">
-                  <ReactMarkdown components={markdownComponents}>{streamingContent}</ReactMarkdown>
+                  <CitedMarkdown
+                    content={streamingContent}
+                    sources={getQuestionSources(chatMessages, chatMessages.length)}
+                    components={markdownComponents}
+                  />
                   <span className="inline-block w-2 h-4 bg-dark-accent animate-pulse ml-0.5" />
                 </div>
               ) : (
                 <div className="flex items-center gap-2">
                   <Loader2 className="w-4 h-4 animate-spin text-dark-accent" />
-                  <span className="text-sm text-dark-text-muted">Denkt nach...</span>
+                  <span className="text-sm text-dark-text-muted">
+                    {indexProgress
+                      ? `Notizen werden indiziert (${indexProgress.done}/${indexProgress.total})...`
+                      : "Denkt nach..."}
+                  </span>
                 </div>
               )}
             </div>
@@ -478,7 +964,7 @@ export default function Chat() {
             className="mb-2 bg-dark-sidebar border border-dark-border rounded-lg shadow-xl max-h-[200px] overflow-y-auto"
           >
             <div className="px-3 py-1.5 text-xs text-dark-text-muted border-b border-dark-border">
-              Dateien erwähnen
+              Dateien & Ressourcen erwähnen
             </div>
             {mentionSuggestions.map((suggestion, index) => (
               <button
@@ -491,7 +977,9 @@ export default function Chat() {
                     : "text-dark-text hover:bg-dark-hover"
                 }`}
               >
-                {suggestion.isDirectory ? (
+                {suggestion.resource ? (
+                  <Database className="w-4 h-4 text-purple-400 flex-shrink-0" />
+                ) : suggestion.isDirectory ? (
                   <Folder className="w-4 h-4 text-blue-400 flex-shrink-0" />
                 ) : (
                   <File className="w-4 h-4 text-dark-text-muted flex-shrink-0" />
@@ -509,13 +997,113 @@ export default function Chat() {
           </div>
         )}
         
+        {/* /-Command Dropdown */}
+        {showCommands && (
+          <div 
+            ref={commandListRef}
+            className="mb-2 bg-dark-sidebar border border-dark-border rounded-lg shadow-xl max-h-[200px] overflow-y-auto"
+          >
+            <div className="px-3 py-1.5 text-xs text-dark-text-muted border-b border-dark-border">
+              Befehle
+            </div>
+            {commandSuggestions.map((suggestion, index) => (
+              <button
+                key={suggestion.kind === "template" ? suggestion.template.name : `${suggestion.serverId}:${suggestion.prompt.name}`}
+                type="button"
+                onClick={() => insertCommand(suggestion)}
+                className={`w-full flex items-center gap-2 px-3 py-2 text-left transition-colors ${
+                  index === selectedCommandIndex
+                    ? "bg-dark-active text-white"
+                    : "text-dark-text hover:bg-dark-hover"
+                }`}
+              >
+                {suggestion.kind === "template" ? (
+                  <>
+                    <FileText className="w-4 h-4 text-green-400 flex-shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm truncate">/{suggestion.template.name}</div>
+                      <div className="text-xs text-dark-text-muted truncate">
+                        {suggestion.template.description || "Prompt-Vorlage"}
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <TerminalSquare className="w-4 h-4 text-purple-400 flex-shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm truncate">
+                        /{suggestion.prompt.name}
+                        {suggestion.prompt.arguments?.map(a => (
+                          <span key={a.name} className="text-xs text-dark-text-muted ml-1">
+                            {a.name}{a.required ? "" : "?"}=…
+                          </span>
+                        ))}
+                      </div>
+                      <div className="text-xs text-dark-text-muted truncate">
+                        {suggestion.prompt.description || suggestion.serverName}
+                      </div>
+                    </div>
+                  </>
+                )}
+              </button>
+            ))}
+            {commandSuggestions.length === 0 && (
+              <div className="px-3 py-2 text-xs text-dark-text-muted">Keine passenden Befehle</div>
+            )}
+            <button
+              type="button"
+              onClick={() => {
+                setShowCommands(false);
+                setShowTemplateManager(true);
+              }}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs text-dark-text-muted hover:bg-dark-hover hover:text-dark-text border-t border-dark-border"
+            >
+              <Settings2 className="w-3.5 h-3.5" />
+              Vorlagen verwalten…
+            </button>
+          </div>
+        )}
+
+        {/* Prompt template management */}
+        {showTemplateManager && (
+          <PromptTemplateManager
+            templates={promptTemplates}
+            onChanged={reloadPromptTemplates}
+            onClose={() => setShowTemplateManager(false)}
+          />
+        )}
+        
+        {/* Attached MCP resources */}
+        {attachedResources.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {attachedResources.map((resource) => (
+              <span
+                key={`${resource.serverId}:${resource.uri}`}
+                className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded bg-dark-panel border border-dark-border text-dark-text"
+                title={resource.uri}
+              >
+                <Database className="w-3 h-3 text-purple-400" />
+                {resource.name}
+                <button
+                  type="button"
+                  onClick={() => setAttachedResources(attachedResources.filter(r => r !== resource))}
+                  className="text-dark-text-muted hover:text-dark-text"
+                  title="Entfernen"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        
         <form onSubmit={handleSubmit} className="flex gap-2">
           <textarea
             ref={inputRef}
             value={input}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
-            placeholder="Nachricht eingeben... (@-Datei erwähnen)"
+            placeholder="Nachricht eingeben... (@-Datei erwähnen, /-Befehl)"
             rows={1}
             className="flex-1 bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted resize-none focus:outline-none focus:border-dark-accent transition-colors"
             style={{ minHeight: "40px", maxHeight: "120px" }}
@@ -539,9 +1127,9 @@ export default function Chat() {
             </button>
           )}
         </form>
-        {!apiKey && (
+        {!isModelReady && (
           <p className="text-xs text-yellow-500 mt-2">
-            API-Key fehlt. Bitte in den Einstellungen hinzufügen.
+            API-Key für {activeProvider?.name || "den Anbieter"} fehlt. Bitte in den Einstellungen hinzufügen.
           </p>
         )}
         
@@ -555,63 +1143,103 @@ export default function Chat() {
               className="flex items-center gap-1.5 px-2 py-1 text-xs text-dark-text-muted hover:text-dark-text hover:bg-dark-hover rounded transition-colors"
             >
               <span className="font-medium">
-                {AVAILABLE_MODELS.find(m => m.id === selectedModel)?.name || selectedModel}
+                {activeModelName}
               </span>
               <ChevronDown className={`w-3 h-3 transition-transform ${showModelDropdown ? "rotate-180" : ""}`} />
             </button>
             
             {showModelDropdown && (
-              <div className="absolute bottom-full left-0 mb-1 w-48 bg-dark-sidebar border border-dark-border rounded-lg shadow-xl overflow-hidden z-50">
+              <div className="absolute bottom-full left-0 mb-1 w-56 bg-dark-sidebar border border-dark-border rounded-lg shadow-xl overflow-hidden z-50">
                 <div className="px-3 py-1.5 text-xs text-dark-text-muted border-b border-dark-border bg-dark-panel/50">
                   Modell wählen
                 </div>
-                {AVAILABLE_MODELS.map((model) => (
-                  <button
-                    key={model.id}
-                    type="button"
-                    onClick={() => {
-                      setSelectedModel(model.id);
-                      setShowModelDropdown(false);
-                    }}
-                    className={`w-full flex flex-col px-3 py-2 text-left transition-colors ${
-                      selectedModel === model.id
-                        ? "bg-dark-active text-white"
-                        : "text-dark-text hover:bg-dark-hover"
-                    }`}
-                  >
-                    <span className="text-sm font-medium">{model.name}</span>
-                    <span className={`text-xs ${selectedModel === model.id ? "text-white/70" : "text-dark-text-muted"}`}>
-                      {model.description}
-                    </span>
-                  </button>
-                ))}
+                <div className="max-h-[320px] overflow-y-auto">
+                  {selectableProviders.length === 0 && (
+                    <div className="px-3 py-2 text-xs text-dark-text-muted">
+                      Kein Anbieter mit API-Key eingerichtet
+                    </div>
+                  )}
+                  {selectableProviders.map((provider) => (
+                    <div key={provider.id}>
+                      {selectableProviders.length > 1 && (
+                        <div className="px-3 pt-2 pb-1 text-[10px] uppercase tracking-wide text-dark-text-muted">
+                          {provider.name}
+                        </div>
+                      )}
+                      {provider.models.map((model) => {
+                        const isSelected = selectedProviderId === provider.id && selectedModel === model.id;
+                        return (
+                          <button
+                            key={model.id}
+                            type="button"
+                            onClick={() => {
+                              setSelectedModel(provider.id, model.id);
+                              setShowModelDropdown(false);
+                            }}
+                            className={`w-full flex flex-col px-3 py-2 text-left transition-colors ${
+                              isSelected
+                                ? "bg-dark-active text-white"
+                                : "text-dark-text hover:bg-dark-hover"
+                            }`}
+                          >
+                            <span className="text-sm font-medium">{model.name}</span>
+                            <span className={`text-xs ${isSelected ? "text-white/70" : "text-dark-text-muted"}`}>
+                              {model.description || model.id}
+                              {!model.supportsTools && " · ohne Tools"}
+                            </span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
           </div>
           
-          {/* Diff Mode Toggle */}
-          <button
-            type="button"
-            onClick={() => setDiffModeEnabled(!diffModeEnabled)}
-            className={`flex items-center gap-1.5 px-2 py-1 text-xs rounded transition-colors ${
-              diffModeEnabled
-                ? "text-dark-accent bg-dark-accent/10 hover:bg-dark-accent/20"
-                : "text-dark-text-muted hover:text-dark-text hover:bg-dark-hover"
-            }`}
-            title={diffModeEnabled ? "Diff-Ansicht aktiv: Änderungen müssen bestätigt werden" : "Direkt-Modus: Änderungen werden sofort angewendet"}
-          >
-            {diffModeEnabled ? (
-              <>
-                <GitCompare className="w-3.5 h-3.5" />
-                <span>Diff</span>
-              </>
-            ) : (
-              <>
-                <Zap className="w-3.5 h-3.5" />
-                <span>Direkt</span>
-              </>
-            )}
-          </button>
+          <div className="flex items-center gap-1">
+            {/* Vault Knowledge Toggle */}
+            <button
+              type="button"
+              onClick={() => setUseVaultKnowledge(!useVaultKnowledge)}
+              disabled={!currentProject}
+              className={`flex items-center gap-1.5 px-2 py-1 text-xs rounded transition-colors disabled:opacity-50 ${
+                useVaultKnowledge
+                  ? "text-dark-accent bg-dark-accent/10 hover:bg-dark-accent/20"
+                  : "text-dark-text-muted hover:text-dark-text hover:bg-dark-hover"
+              }`}
+              title={useVaultKnowledge
+                ? "Notizwissen aktiv: passende Auszüge aus dem Projekt werden mitgeschickt und zitiert"
+                : "Notizwissen aus: nur @-Erwähnungen und Tools liefern Notizinhalte"}
+            >
+              <BookOpen className="w-3.5 h-3.5" />
+              <span>Wissen</span>
+            </button>
+
+            {/* Diff Mode Toggle */}
+            <button
+              type="button"
+              onClick={() => setDiffModeEnabled(!diffModeEnabled)}
+              className={`flex items-center gap-1.5 px-2 py-1 text-xs rounded transition-colors ${
+                diffModeEnabled
+                  ? "text-dark-accent bg-dark-accent/10 hover:bg-dark-accent/20"
+                  : "text-dark-text-muted hover:text-dark-text hover:bg-dark-hover"
+              }`}
+              title={diffModeEnabled ? "Diff-Ansicht aktiv: Änderungen müssen bestätigt werden" : "Direkt-Modus: Änderungen werden sofort angewendet"}
+            >
+              {diffModeEnabled ? (
+                <>
+                  <GitCompare className="w-3.5 h-3.5" />
+                  <span>Diff</span>
+                </>
+              ) : (
+                <>
+                  <Zap className="w-3.5 h-3.5" />
+                  <span>Direkt</span>
+                </>
+              )}
+            </button>
+          </div>
         </div>
       </div>
     </div>
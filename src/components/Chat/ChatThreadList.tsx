@@ -0,0 +1,163 @@
+import { useMemo, useState } from "react";
+import { Search, MessageSquare, Pencil, Trash2, GitBranch, Check, X } from "lucide-react";
+import { useAppStore } from "../../stores/appStore";
+import { searchThreads } from "../../services/chatHistory";
+
+interface ChatThreadListProps {
+  onClose: () => void;
+}
+
+export default function ChatThreadList({ onClose }: ChatThreadListProps) {
+  const {
+    chatThreads,
+    activeThreadId,
+    openChatThread,
+    renameChatThread,
+    deleteChatThread,
+    forkChatThread,
+  } = useAppStore();
+
+  const [query, setQuery] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+
+  const results = useMemo(() => searchThreads(chatThreads, query), [chatThreads, query]);
+
+  const handleOpen = (id: string) => {
+    openChatThread(id);
+    onClose();
+  };
+
+  const handleFork = async (id: string) => {
+    await forkChatThread(id);
+    onClose();
+  };
+
+  const startRename = (id: string, title: string) => {
+    setEditingId(id);
+    setEditTitle(title);
+  };
+
+  const commitRename = async () => {
+    if (editingId) {
+      await renameChatThread(editingId, editTitle);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (id: string, title: string) => {
+    if (!confirm(`Chat "${title}" wirklich löschen?`)) return;
+    await deleteChatThread(id);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="p-3 border-b border-dark-border">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-dark-text-muted" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Chats durchsuchen..."
+            autoFocus
+            className="w-full bg-dark-panel border border-dark-border rounded-lg pl-8 pr-3 py-1.5 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {results.length === 0 ? (
+          <div className="text-center py-8">
+            <MessageSquare className="w-10 h-10 text-dark-text-muted mx-auto mb-2 opacity-50" />
+            <p className="text-sm text-dark-text-muted">
+              {chatThreads.length === 0 ? "Noch keine Chats in diesem Projekt" : "Keine Treffer"}
+            </p>
+          </div>
+        ) : (
+          results.map(({ thread, snippet }) => (
+            <div
+              key={thread.id}
+              className={`group rounded-lg px-3 py-2 transition-colors ${
+                thread.id === activeThreadId ? "bg-dark-active" : "hover:bg-dark-hover"
+              }`}
+            >
+              {editingId === thread.id ? (
+                <div className="flex items-center gap-1">
+                  <input
+                    type="text"
+                    value={editTitle}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename();
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    autoFocus
+                    className="flex-1 min-w-0 bg-dark-bg border border-dark-border rounded px-2 py-1 text-sm text-dark-text focus:outline-none focus:border-dark-accent"
+                  />
+                  <button
+                    onClick={commitRename}
+                    className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text"
+                    title="Speichern"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text"
+                    title="Abbrechen"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-start gap-2">
+                  <button onClick={() => handleOpen(thread.id)} className="flex-1 min-w-0 text-left">
+                    <div className="text-sm text-dark-text truncate">{thread.title}</div>
+                    <div className="text-xs text-dark-text-muted">
+                      {new Date(thread.updatedAt).toLocaleString("de-DE", {
+                        day: "2-digit",
+                        month: "2-digit",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                      {" · "}
+                      {thread.messages.length} Nachrichten
+                      {thread.forkedFrom && " · Abzweigung"}
+                    </div>
+                    {snippet && (
+                      <div className="text-xs text-dark-text-muted mt-0.5 line-clamp-2">{snippet}</div>
+                    )}
+                  </button>
+                  <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => handleFork(thread.id)}
+                      className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text"
+                      title="Abzweigen (Kopie fortsetzen)"
+                    >
+                      <GitBranch className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => startRename(thread.id, thread.title)}
+                      className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text"
+                      title="Umbenennen"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(thread.id, thread.title)}
+                      className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-red-400"
+                      title="Löschen"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useMemo } from "react";
+import ReactMarkdown, { Components } from "react-markdown";
+import { BookOpen } from "lucide-react";
+import { useAppStore, ChatSource } from "../../stores/appStore";
+
+interface CitedMarkdownProps {
+  content: string;
+  sources?: ChatSource[];
+  components: Components;
+}
+
+// Turn citations like [2] or [1, 3] into links to the numbered sources;
+// code blocks and real links stay untouched
+function linkCitations(content: string, sourceCount: number): string {
+  return content
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((part, i) => i % 2 === 1 ? part : part.replace(
+      /\[(\d+(?:\s*,\s*\d+)*)\](?![(:[])/g,
+      (match, numbers: string) => {
+        const indices = numbers.split(",").map(n => Number(n.trim()));
+        if (indices.some(n => n < 1 || n > sourceCount)) return match;
+        return indices.map(n => `[\\[${n}\\]](#quelle-${n})`).join("");
+      }
+    ))
+    .join("");
+}
+
+function describeSource(source: ChatSource): string {
+  return source.heading ? `${source.name} › ${source.heading}` : source.name;
+}
+
+// Assistant answer with clickable citations of the retrieved note excerpts
+export default function CitedMarkdown({ content, sources, components }: CitedMarkdownProps) {
+  const { openFileAt } = useAppStore();
+
+  const linkedContent = useMemo(
+    () => sources && sources.length > 0 ? linkCitations(content, sources.length) : content,
+    [content, sources]
+  );
+
+  const citedComponents: Components = useMemo(() => ({
+    ...components,
+    a: ({ node: _node, ...props }) => {
+      const match = props.href?.match(/^#quelle-(\d+)$/);
+      const source = match && sources?.[Number(match[1]) - 1];
+      if (!source) {
+        const Link = components.a || "a";
+        return <Link {...props} />;
+      }
+
+      return (
+        <a
+          href={props.href}
+          onClick={(e) => {
+            e.preventDefault();
+            openFileAt(source.path, source.line, source.heading || undefined);
+          }}
+          className="text-dark-accent hover:underline cursor-pointer text-xs align-super"
+          title={`${describeSource(source)} (Zeile ${source.line})`}
+        >
+          {props.children}
+        </a>
+      );
+    },
+  }), [components, sources, openFileAt]);
+
+  return (
+    <>
+      <ReactMarkdown components={citedComponents}>{linkedContent}</ReactMarkdown>
+      {sources && sources.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-dark-border space-y-0.5">
+          {sources.map((source, index) => (
+            <button
+              key={index}
+              type="button"
+              onClick={() => openFileAt(source.path, source.line, source.heading || undefined)}
+              className="w-full flex items-center gap-1.5 text-left text-xs text-dark-text-muted hover:text-dark-text"
+              title={`${source.path} (Zeile ${source.line})`}
+            >
+              <span className="text-dark-accent flex-shrink-0">[{index + 1}]</span>
+              <BookOpen className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{describeSource(source)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
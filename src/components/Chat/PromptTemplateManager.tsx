@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { FileText, Pencil, Trash2, Plus, X } from "lucide-react";
+import { useAppStore } from "../../stores/appStore";
+import {
+  createPromptTemplate,
+  deletePromptTemplate,
+  PROMPT_PLACEHOLDERS,
+  type PromptTemplate,
+} from "../../services/promptTemplates";
+
+interface PromptTemplateManagerProps {
+  templates: PromptTemplate[];
+  onChanged: () => void;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<PromptTemplate["scope"], string> = {
+  project: "Projekt",
+  user: "Benutzer",
+  builtin: "Beispiel",
+};
+
+// Popup above the chat input to add, edit and remove /-command templates
+export default function PromptTemplateManager({ templates, onChanged, onClose }: PromptTemplateManagerProps) {
+  const { currentProject, openFile } = useAppStore();
+  const [newName, setNewName] = useState("");
+  const [newScope, setNewScope] = useState<"project" | "user">(currentProject ? "project" : "user");
+  const [error, setError] = useState<string | null>(null);
+
+  const create = async (name: string, base?: PromptTemplate) => {
+    setError(null);
+    try {
+      const path = await createPromptTemplate(name, newScope, currentProject?.path, base);
+      setNewName("");
+      onChanged();
+      await openFile(path);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Built-in templates are copied before they can be edited
+  const handleEdit = async (template: PromptTemplate) => {
+    if (template.path) {
+      await openFile(template.path);
+    } else {
+      await create(template.name, template);
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!confirm(`Vorlage "/${template.name}" löschen?`)) return;
+    setError(null);
+    try {
+      await deletePromptTemplate(template);
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="mb-2 bg-dark-sidebar border border-dark-border rounded-lg shadow-xl max-h-[300px] overflow-y-auto">
+      <div className="flex items-center justify-between px-3 py-1.5 text-xs text-dark-text-muted border-b border-dark-border">
+        <span>Prompt-Vorlagen verwalten</span>
+        <button type="button" onClick={onClose} className="hover:text-dark-text" title="Schließen">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {templates.map((template) => (
+        <div key={template.name} className="group flex items-center gap-2 px-3 py-2 text-dark-text hover:bg-dark-hover">
+          <FileText className="w-4 h-4 text-green-400 flex-shrink-0" />
+          <div className="min-w-0 flex-1">
+            <div className="text-sm truncate">
+              /{template.name}
+              <span className="text-xs text-dark-text-muted ml-1.5">{SCOPE_LABELS[template.scope]}</span>
+            </div>
+            {template.description && (
+              <div className="text-xs text-dark-text-muted truncate">{template.description}</div>
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => handleEdit(template)}
+            className="p-1 rounded text-dark-text-muted hover:text-dark-text opacity-0 group-hover:opacity-100"
+            title={template.path ? "Im Editor bearbeiten" : "Als eigene Vorlage kopieren und bearbeiten"}
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          {template.path && (
+            <button
+              type="button"
+              onClick={() => handleDelete(template)}
+              className="p-1 rounded text-dark-text-muted hover:text-red-400 opacity-0 group-hover:opacity-100"
+              title="Löschen"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      <div className="px-3 py-2 border-t border-dark-border space-y-1.5">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && newName.trim()) {
+                e.preventDefault();
+                create(newName);
+              }
+            }}
+            placeholder="name-der-vorlage"
+            className="flex-1 min-w-0 bg-dark-panel border border-dark-border rounded px-2 py-1 text-xs text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
+          />
+          <select
+            value={newScope}
+            onChange={(e) => setNewScope(e.target.value as "project" | "user")}
+            className="bg-dark-panel border border-dark-border rounded px-1.5 py-1 text-xs text-dark-text focus:outline-none focus:border-dark-accent"
+          >
+            {currentProject && <option value="project">Projekt</option>}
+            <option value="user">Benutzer</option>
+          </select>
+          <button
+            type="button"
+            onClick={() => create(newName)}
+            disabled={!newName.trim()}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-dark-accent text-white hover:bg-dark-accent-hover disabled:opacity-50"
+          >
+            <Plus className="w-3 h-3" />
+            Neu
+          </button>
+        </div>
+        {error && <div className="text-xs text-red-400">{error}</div>}
+        <div className="text-[10px] text-dark-text-muted">
+          Platzhalter: {PROMPT_PLACEHOLDERS.map(p => (
+            <span key={p.name} className="font-mono mr-1.5" title={p.description}>{`{{${p.name}}}`}</span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Loader2, Check, AlertCircle, Wrench } from "lucide-react";
+import type { ToolStep } from "../../services/openai";
+
+interface ToolTimelineProps {
+  steps: ToolStep[];
+  // While streaming the timeline is open so running steps are visible
+  defaultExpanded?: boolean;
+}
+
+// Results can be whole files, only the beginning is shown
+const MAX_RESULT_LENGTH = 2000;
+
+// Short label from the most telling argument, e.g. the file path
+function summarizeArguments(argumentsJson: string): string {
+  try {
+    const args = JSON.parse(argumentsJson || "{}");
+    const value = args.file_path || args.old_path || args.source_path || args.folder_path || args.query || args.directory;
+    return typeof value === "string" ? value : "";
+  } catch {
+    return "";
+  }
+}
+
+function formatArguments(argumentsJson: string): string {
+  try {
+    return JSON.stringify(JSON.parse(argumentsJson || "{}"), null, 2);
+  } catch {
+    return argumentsJson;
+  }
+}
+
+function ToolStepItem({ step }: { step: ToolStep }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const summary = summarizeArguments(step.arguments);
+  const result = step.result && step.result.length > MAX_RESULT_LENGTH
+    ? `${step.result.slice(0, MAX_RESULT_LENGTH)}\n…`
+    : step.result;
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-1.5 px-1.5 py-1 rounded text-left hover:bg-dark-hover transition-colors"
+      >
+        {step.status === "running" ? (
+          <Loader2 className="w-3 h-3 flex-shrink-0 animate-spin text-dark-accent" />
+        ) : step.status === "error" ? (
+          <AlertCircle className="w-3 h-3 flex-shrink-0 text-red-400" />
+        ) : (
+          <Check className="w-3 h-3 flex-shrink-0 text-green-400" />
+        )}
+        <span className="text-xs font-mono text-dark-text">{step.name}</span>
+        {summary && (
+          <span className="text-xs text-dark-text-muted truncate">{summary}</span>
+        )}
+      </button>
+      {isExpanded && (
+        <div className="ml-5 mb-1 space-y-1">
+          <pre className="p-1.5 bg-dark-bg rounded text-xs text-dark-text-muted font-mono overflow-x-auto whitespace-pre-wrap break-all">
+            {formatArguments(step.arguments)}
+          </pre>
+          {result !== undefined && (
+            <pre className={`p-1.5 bg-dark-bg rounded text-xs font-mono max-h-[200px] overflow-auto whitespace-pre-wrap break-all ${
+              step.status === "error" ? "text-red-400" : "text-dark-text-muted"
+            }`}>
+              {result}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function ToolTimeline({ steps, defaultExpanded = false }: ToolTimelineProps) {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+  const errorCount = steps.filter(s => s.status === "error").length;
+
+  return (
+    <div className="mb-2 border border-dark-border rounded">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center gap-1.5 px-2 py-1 text-xs text-dark-text-muted hover:text-dark-text transition-colors"
+      >
+        {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Wrench className="w-3 h-3" />
+        {steps.length} {steps.length === 1 ? "Tool-Aufruf" : "Tool-Aufrufe"}
+        {errorCount > 0 && <span className="text-red-400">({errorCount} fehlgeschlagen)</span>}
+      </button>
+      {isExpanded && (
+        <div className="px-1 pb-1">
+          {steps.map((step) => (
+            <ToolStepItem key={step.id} step={step} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
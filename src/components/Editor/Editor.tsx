@@ -7,6 +7,7 @@ import ImageViewer from "./ImageViewer";
 import PDFViewer from "./PDFViewer";
 import OfficeViewer from "./OfficeViewer";
 import InlineDiffEditor from "./InlineDiffEditor";
+import PropertiesPanel from "./PropertiesPanel";
 import type { FileType } from "../../stores/appStore";
 
 type ViewMode = "wysiwyg" | "source";
@@ -174,7 +175,7 @@ export default function Editor() {
                 const { updateFileContent } = useAppStore.getState();
                 updateFileContent(activeFileData.path, content);
               }}
-              onAcceptChange={() => acceptPendingChange(pendingChange.id)}
+              onAcceptChange={() => acceptPendingChange(pendingChange.id).catch(() => {})}
               onRejectChange={() => rejectPendingChange(pendingChange.id)}
               onAcceptWithContent={(content) => acceptPendingChangeWithContent(pendingChange.id, content)}
             />
@@ -204,18 +205,26 @@ export default function Editor() {
               )}
               
               {activeFileData.fileType === "markdown" && (
-                viewMode === "wysiwyg" ? (
-                  <WysiwygEditor
-                    key={activeFileData.path}
+                <div className="h-full flex flex-col">
+                  <PropertiesPanel
                     content={activeFileData.content}
                     filePath={activeFileData.path}
                   />
-                ) : (
-                  <MarkdownEditor
-                    content={activeFileData.content}
-                    filePath={activeFileData.path}
-                  />
-                )
+                  <div className="flex-1 min-h-0">
+                    {viewMode === "wysiwyg" ? (
+                      <WysiwygEditor
+                        key={activeFileData.path}
+                        content={activeFileData.content}
+                        filePath={activeFileData.path}
+                      />
+                    ) : (
+                      <MarkdownEditor
+                        content={activeFileData.content}
+                        filePath={activeFileData.path}
+                      />
+                    )}
+                  </div>
+                </div>
               )}
               
               {(activeFileData.fileType === "text" || activeFileData.fileType === "unknown") && (
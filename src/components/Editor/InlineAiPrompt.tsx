@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from "react";
+import { Sparkles, Loader2, X } from "lucide-react";
+
+interface InlineAiPromptProps {
+  // Position relative to the editor wrapper
+  top: number;
+  left: number;
+  // Shown instead of the input, e.g. when the selection can't be mapped
+  error?: string;
+  hasSelection: boolean;
+  onSubmit: (instruction: string, signal: AbortSignal) => Promise<void>;
+  onClose: () => void;
+}
+
+// Floating instruction field for an AI edit of the selection (Mod-K)
+export default function InlineAiPrompt({ top, left, error, hasSelection, onSubmit, onClose }: InlineAiPromptProps) {
+  const [instruction, setInstruction] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const handleSubmit = async () => {
+    if (!instruction.trim() || isLoading) return;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsLoading(true);
+    setSubmitError(null);
+    try {
+      await onSubmit(instruction.trim(), abortController.signal);
+      onClose();
+    } catch (err) {
+      if (!abortController.signal.aborted) {
+        setSubmitError(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    abortControllerRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <div
+      className="absolute z-40 w-[420px] max-w-[90%] bg-dark-sidebar border border-dark-border rounded-lg shadow-2xl p-2"
+      style={{ top, left }}
+    >
+      <div className="flex items-center gap-2">
+        <Sparkles className="w-4 h-4 text-dark-accent flex-shrink-0" />
+        {error ? (
+          <span className="flex-1 text-xs text-red-400">{error}</span>
+        ) : (
+          <input
+            ref={inputRef}
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleSubmit();
+              } else if (e.key === "Escape") {
+                e.preventDefault();
+                handleClose();
+              }
+            }}
+            disabled={isLoading}
+            placeholder={hasSelection ? "Auswahl bearbeiten, z. B. „kürzer formulieren“" : "Text an dieser Stelle einfügen..."}
+            className="flex-1 bg-transparent text-sm text-dark-text placeholder-dark-text-muted focus:outline-none"
+          />
+        )}
+        {isLoading && <Loader2 className="w-4 h-4 text-dark-accent animate-spin flex-shrink-0" />}
+        <button
+          type="button"
+          onClick={handleClose}
+          className="p-0.5 rounded text-dark-text-muted hover:text-dark-text flex-shrink-0"
+          title="Abbrechen (Esc)"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {submitError && <div className="text-xs text-red-400 mt-1 px-6">{submitError}</div>}
+    </div>
+  );
+}
@@ -1,23 +1,39 @@
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useRef, useCallback, useState } from "react";
 import { EditorView, keymap, lineNumbers, highlightActiveLine } from "@codemirror/view";
 import { EditorState } from "@codemirror/state";
 import { markdown } from "@codemirror/lang-markdown";
 import { oneDark } from "@codemirror/theme-one-dark";
 import { defaultKeymap, history, historyKeymap } from "@codemirror/commands";
 import { useAppStore } from "../../stores/appStore";
+import InlineAiPrompt from "./InlineAiPrompt";
 
 interface MarkdownEditorProps {
   content: string;
   filePath: string;
 }
 
+interface InlinePromptState {
+  from: number;
+  to: number;
+  top: number;
+  left: number;
+}
+
 export default function MarkdownEditor({
   content,
   filePath,
 }: MarkdownEditorProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const editorRef = useRef<EditorView | null>(null);
-  const { updateFileContent, saveFile } = useAppStore();
+  const {
+    updateFileContent,
+    saveFile,
+    editorLocation,
+    clearEditorLocation,
+    setEditorSelection,
+    proposeInlineEdit,
+  } = useAppStore();
+  const [inlinePrompt, setInlinePrompt] = useState<InlinePromptState | null>(null);
 
   const handleChange = useCallback(
     (newContent: string) => {
@@ -38,7 +54,7 @@ export default function MarkdownEditor({
       editorRef.current.destroy();
     }
 
-    // Create custom keymap for save
+    // Create custom keymap for save and the inline AI edit
     const saveKeymap = keymap.of([
       {
         key: "Mod-s",
@@ -47,6 +63,21 @@ export default function MarkdownEditor({
           return true;
         },
       },
+      {
+        key: "Mod-k",
+        run: (view) => {
+          const { from, to } = view.state.selection.main;
+          const coords = view.coordsAtPos(to);
+          const rect = view.dom.getBoundingClientRect();
+          setInlinePrompt({
+            from,
+            to,
+            top: (coords ? coords.bottom - rect.top : 0) + 4,
+            left: Math.max(8, Math.min((coords ? coords.left - rect.left : 0), rect.width - 428)),
+          });
+          return true;
+        },
+      },
     ]);
 
     // Create editor state
@@ -64,6 +95,10 @@ export default function MarkdownEditor({
           if (update.docChanged) {
             handleChange(update.state.doc.toString());
           }
+          if (update.selectionSet) {
+            const { from, to } = update.state.selection.main;
+            setEditorSelection(from === to ? null : { path: filePath, text: update.state.sliceDoc(from, to) });
+          }
         }),
         EditorView.theme({
           "&": {
@@ -117,5 +152,49 @@ export default function MarkdownEditor({
     }
   }, [content]);
 
-  return <div ref={containerRef} className="h-full w-full" />;
+  // Jump to a requested line, a heading wins if it still exists
+  useEffect(() => {
+    const view = editorRef.current;
+    if (!view || !editorLocation || editorLocation.path !== filePath) return;
+
+    const doc = view.state.doc;
+    let lineNumber = Math.min(Math.max(editorLocation.line, 1), doc.lines);
+    if (editorLocation.heading) {
+      for (let i = 1; i <= doc.lines; i++) {
+        const match = doc.line(i).text.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+        if (match && match[1] === editorLocation.heading) {
+          lineNumber = i;
+          break;
+        }
+      }
+    }
+
+    const line = doc.line(lineNumber);
+    view.dispatch({
+      selection: { anchor: line.from },
+      effects: EditorView.scrollIntoView(line.from, { y: "start" }),
+    });
+    view.focus();
+    clearEditorLocation();
+  }, [editorLocation, filePath, clearEditorLocation]);
+
+  return (
+    <div className="relative h-full w-full">
+      <div ref={containerRef} className="h-full w-full" />
+      {inlinePrompt && (
+        <InlineAiPrompt
+          top={inlinePrompt.top}
+          left={inlinePrompt.left}
+          hasSelection={inlinePrompt.from !== inlinePrompt.to}
+          onSubmit={(instruction, signal) =>
+            proposeInlineEdit(filePath, inlinePrompt.from, inlinePrompt.to, instruction, signal)
+          }
+          onClose={() => {
+            setInlinePrompt(null);
+            editorRef.current?.focus();
+          }}
+        />
+      )}
+    </div>
+  );
 }
@@ -1,15 +1,21 @@
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { useAppStore } from "../../stores/appStore";
+import { remarkWikilinks } from "../../services/wikilinks";
 
 interface MarkdownPreviewProps {
   content: string;
+  // Note the content belongs to, wikilinks to headings resolve against it
+  filePath?: string;
 }
 
-export default function MarkdownPreview({ content }: MarkdownPreviewProps) {
+export default function MarkdownPreview({ content, filePath }: MarkdownPreviewProps) {
+  const { openWikilink } = useAppStore();
+
   return (
     <div className="markdown-content max-w-none">
       <ReactMarkdown
-        remarkPlugins={[remarkGfm]}
+        remarkPlugins={[remarkGfm, remarkWikilinks]}
         components={{
           // Custom components for better rendering
           h1: ({ children }) => (
@@ -33,16 +39,39 @@ export default function MarkdownPreview({ content }: MarkdownPreviewProps) {
             <ol className="mb-4 pl-6 list-decimal">{children}</ol>
           ),
           li: ({ children }) => <li className="mb-1">{children}</li>,
-          a: ({ href, children }) => (
-            <a
-              href={href}
-              className="text-blue-400 hover:text-blue-300 underline"
-              target={href?.startsWith("http") ? "_blank" : undefined}
-              rel={href?.startsWith("http") ? "noopener noreferrer" : undefined}
-            >
-              {children}
-            </a>
-          ),
+          a: ({ node, href, children }) => {
+            const wikilinkTarget = node?.properties?.dataWikilink;
+            if (wikilinkTarget !== undefined) {
+              return (
+                <a
+                  href="#"
+                  className="wikilink text-blue-400 hover:text-blue-300 underline"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    openWikilink(
+                      {
+                        target: String(wikilinkTarget),
+                        heading: node?.properties?.dataHeading ? String(node.properties.dataHeading) : undefined,
+                      },
+                      filePath
+                    );
+                  }}
+                >
+                  {children}
+                </a>
+              );
+            }
+            return (
+              <a
+                href={href}
+                className="text-blue-400 hover:text-blue-300 underline"
+                target={href?.startsWith("http") ? "_blank" : undefined}
+                rel={href?.startsWith("http") ? "noopener noreferrer" : undefined}
+              >
+                {children}
+              </a>
+            );
+          },
           code: ({ className, children, ...props }) => {
             const isInline = !className;
             if (isInline) {
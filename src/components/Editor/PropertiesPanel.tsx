@@ -0,0 +1,382 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  Tags,
+  Plus,
+  X,
+  Type,
+  List,
+  Calendar,
+  Hash,
+  Link2,
+  ArrowUpRight,
+} from "lucide-react";
+import { useAppStore } from "../../stores/appStore";
+import {
+  PROPERTY_TYPE_LABELS,
+  convertPropertyValue,
+  parseProperties,
+  renameProperty,
+  setProperty,
+  type NoteProperty,
+  type PropertyType,
+  type PropertyValue,
+} from "../../services/frontmatter";
+import { createWikilinkRegex, parseWikilink } from "../../services/wikilinks";
+
+interface PropertiesPanelProps {
+  content: string;
+  filePath: string;
+}
+
+const TYPE_ICONS: Record<PropertyType, typeof Type> = {
+  text: Type,
+  list: List,
+  date: Calendar,
+  number: Hash,
+  link: Link2,
+};
+
+const inputClass =
+  "w-full bg-transparent px-1.5 py-0.5 text-sm text-dark-text rounded border border-transparent hover:border-dark-border focus:border-dark-accent focus:outline-none";
+
+function defaultValue(type: PropertyType): PropertyValue {
+  return convertPropertyValue("", type);
+}
+
+interface ValueEditorProps {
+  property: NoteProperty;
+  filePath: string;
+  onChange: (value: PropertyValue) => void;
+}
+
+// Text-like values are committed on blur or Enter, not on every key
+function ValueEditor({ property, filePath, onChange }: ValueEditorProps) {
+  const { openWikilink } = useAppStore();
+  const [draft, setDraft] = useState("");
+  const [newItem, setNewItem] = useState("");
+
+  useEffect(() => {
+    setDraft(Array.isArray(property.value) ? "" : String(property.value));
+  }, [property.value]);
+
+  const commit = () => {
+    if (draft === String(property.value)) return;
+    onChange(property.type === "number" ? Number(draft) || 0 : draft);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") e.currentTarget.blur();
+    if (e.key === "Escape") {
+      setDraft(String(property.value));
+      e.currentTarget.blur();
+    }
+  };
+
+  if (property.type === "list") {
+    const items = Array.isArray(property.value) ? property.value : [];
+    const addItem = () => {
+      const item = newItem.trim();
+      setNewItem("");
+      if (item) onChange([...items, item]);
+    };
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        {items.map((item, index) => (
+          <span
+            key={`${item}-${index}`}
+            className="flex items-center gap-1 pl-2 pr-1 py-0.5 text-xs rounded bg-dark-panel text-dark-text"
+          >
+            {item}
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+              className="text-dark-text-muted hover:text-dark-text"
+              title="Entfernen"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              addItem();
+            }
+          }}
+          onBlur={addItem}
+          placeholder="Hinzufügen…"
+          className="flex-1 min-w-[80px] bg-transparent px-1 py-0.5 text-xs text-dark-text placeholder:text-dark-text-muted focus:outline-none"
+        />
+      </div>
+    );
+  }
+
+  if (property.type === "link") {
+    const match = createWikilinkRegex().exec(draft);
+    const wikilink = match ? parseWikilink(match) : null;
+    const isUrl = /^https?:\/\//.test(draft);
+    const openLink = async () => {
+      if (wikilink) {
+        openWikilink(wikilink, filePath);
+      } else if (isUrl) {
+        const { open } = await import("@tauri-apps/plugin-shell");
+        await open(draft);
+      }
+    };
+    return (
+      <div className="flex items-center gap-1">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={handleKeyDown}
+          placeholder="[[Notiz]] oder https://…"
+          className={`${inputClass} text-blue-400`}
+        />
+        {(wikilink || isUrl) && (
+          <button
+            type="button"
+            onClick={() => openLink().catch((error) => console.error("Failed to open link:", error))}
+            className="p-1 rounded text-dark-text-muted hover:text-dark-text hover:bg-dark-hover"
+            title="Link öffnen"
+          >
+            <ArrowUpRight className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (property.type === "date") {
+    // Dates with a time are edited as text, the date picker would drop it
+    const dateOnly = draft.length <= 10;
+    return (
+      <input
+        type={dateOnly ? "date" : "text"}
+        value={draft}
+        onChange={(e) => (dateOnly ? onChange(e.target.value) : setDraft(e.target.value))}
+        onBlur={dateOnly ? undefined : commit}
+        onKeyDown={handleKeyDown}
+        className={`${inputClass} [color-scheme:dark]`}
+      />
+    );
+  }
+
+  return (
+    <input
+      type={property.type === "number" ? "number" : "text"}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      placeholder="Leer"
+      className={`${inputClass} placeholder:text-dark-text-muted`}
+    />
+  );
+}
+
+interface KeyEditorProps {
+  name: string;
+  onRename: (name: string) => void;
+}
+
+function KeyEditor({ name, onRename }: KeyEditorProps) {
+  const [draft, setDraft] = useState(name);
+  useEffect(() => setDraft(name), [name]);
+
+  return (
+    <input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft.trim() && draft.trim() !== name) onRename(draft);
+        else setDraft(name);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      className={`${inputClass} text-dark-text-muted`}
+    />
+  );
+}
+
+// Editable view of the frontmatter above the editor. Every change is
+// written into the note content, so both editor modes stay in sync.
+export default function PropertiesPanel({ content, filePath }: PropertiesPanelProps) {
+  const { updateFileContent } = useAppStore();
+  const [collapsed, setCollapsed] = useState(() => localStorage.getItem("properties-collapsed") === "true");
+  const [isAdding, setIsAdding] = useState(false);
+  const [newKey, setNewKey] = useState("");
+  const [newType, setNewType] = useState<PropertyType>("text");
+  const [error, setError] = useState<string | null>(null);
+
+  const properties = useMemo(() => parseProperties(content), [content]);
+
+  useEffect(() => {
+    localStorage.setItem("properties-collapsed", String(collapsed));
+  }, [collapsed]);
+
+  useEffect(() => {
+    setError(null);
+    setIsAdding(false);
+  }, [filePath]);
+
+  // Apply an edit to the current content, errors are shown in the panel
+  const apply = (edit: (content: string) => string) => {
+    setError(null);
+    try {
+      const current = useAppStore.getState().openFiles.find(f => f.path === filePath)?.content ?? content;
+      const updated = edit(current);
+      if (updated !== current) updateFileContent(filePath, updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const addProperty = () => {
+    if (!newKey.trim()) {
+      setIsAdding(false);
+      return;
+    }
+    if (properties.some(p => p.key === newKey.trim())) {
+      setError(`Die Eigenschaft "${newKey.trim()}" gibt es schon.`);
+      return;
+    }
+    apply(c => setProperty(c, newKey, { type: newType, value: defaultValue(newType) }));
+    setNewKey("");
+    setIsAdding(false);
+  };
+
+  if (properties.length === 0 && !isAdding) {
+    return (
+      <div className="flex justify-end px-4 py-1 border-b border-dark-border">
+        <button
+          type="button"
+          onClick={() => {
+            setCollapsed(false);
+            setIsAdding(true);
+          }}
+          className="flex items-center gap-1 text-xs text-dark-text-muted hover:text-dark-text"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Eigenschaft hinzufügen
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-b border-dark-border bg-dark-sidebar/40 px-4 py-1.5">
+      <button
+        type="button"
+        onClick={() => setCollapsed(!collapsed)}
+        className="flex items-center gap-1.5 py-1 text-xs font-medium text-dark-text-muted uppercase tracking-wider hover:text-dark-text"
+      >
+        {collapsed ? <ChevronRight className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+        <Tags className="w-3.5 h-3.5" />
+        Eigenschaften
+        <span className="normal-case tracking-normal">({properties.length})</span>
+      </button>
+
+      {!collapsed && (
+        <div className="pb-1">
+          {properties.map((property) => {
+            const Icon = TYPE_ICONS[property.type];
+            return (
+              <div key={property.key} className="group grid grid-cols-[minmax(120px,180px)_1fr_auto] items-center gap-2">
+                <div className="flex items-center gap-1 min-w-0">
+                  <div className="relative flex-shrink-0" title={`Typ: ${PROPERTY_TYPE_LABELS[property.type]}`}>
+                    <Icon className="w-3.5 h-3.5 text-dark-text-muted" />
+                    <select
+                      value={property.type}
+                      onChange={(e) => {
+                        const type = e.target.value as PropertyType;
+                        apply(c => setProperty(c, property.key, { type, value: convertPropertyValue(property.value, type) }));
+                      }}
+                      className="absolute inset-0 opacity-0 cursor-pointer"
+                    >
+                      {Object.entries(PROPERTY_TYPE_LABELS).map(([type, label]) => (
+                        <option key={type} value={type}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <KeyEditor
+                    name={property.key}
+                    onRename={(name) => apply(c => renameProperty(c, property.key, name))}
+                  />
+                </div>
+                <ValueEditor
+                  property={property}
+                  filePath={filePath}
+                  onChange={(value) => apply(c => setProperty(c, property.key, { type: property.type, value }))}
+                />
+                <button
+                  type="button"
+                  onClick={() => apply(c => setProperty(c, property.key, null))}
+                  className="p-1 rounded text-dark-text-muted hover:text-red-400 opacity-0 group-hover:opacity-100"
+                  title="Eigenschaft entfernen"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+
+          {isAdding ? (
+            <div className="flex items-center gap-2 mt-1">
+              <input
+                autoFocus
+                value={newKey}
+                onChange={(e) => setNewKey(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") addProperty();
+                  if (e.key === "Escape") setIsAdding(false);
+                }}
+                placeholder="Name"
+                className="w-[180px] bg-dark-panel px-2 py-1 text-sm text-dark-text rounded border border-dark-border focus:border-dark-accent focus:outline-none"
+              />
+              <select
+                value={newType}
+                onChange={(e) => setNewType(e.target.value as PropertyType)}
+                className="bg-dark-panel px-2 py-1 text-sm text-dark-text rounded border border-dark-border focus:outline-none"
+              >
+                {Object.entries(PROPERTY_TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={addProperty}
+                className="px-2 py-1 text-xs rounded bg-dark-accent hover:bg-dark-accent-hover text-white"
+              >
+                Hinzufügen
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsAdding(false)}
+                className="px-2 py-1 text-xs text-dark-text-muted hover:text-dark-text"
+              >
+                Abbrechen
+              </button>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setIsAdding(true)}
+              className="flex items-center gap-1 mt-1 px-1.5 py-0.5 text-xs text-dark-text-muted hover:text-dark-text"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Eigenschaft hinzufügen
+            </button>
+          )}
+          {error && <div className="mt-1 text-xs text-red-400">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
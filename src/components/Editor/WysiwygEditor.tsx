@@ -1,19 +1,50 @@
-import { useEffect, useRef, useCallback } from "react";
-import { Editor, rootCtx, defaultValueCtx } from "@milkdown/core";
+import { useEffect, useRef, useCallback, useState } from "react";
+import { Editor, rootCtx, defaultValueCtx, editorViewCtx } from "@milkdown/core";
 import { commonmark } from "@milkdown/preset-commonmark";
 import { gfm } from "@milkdown/preset-gfm";
 import { history } from "@milkdown/plugin-history";
 import { listener, listenerCtx } from "@milkdown/plugin-listener";
 import { useAppStore } from "../../stores/appStore";
+import { findCursorOffset, findTextRange } from "../../services/inlineEdit";
+import { splitFrontmatter } from "../../services/frontmatter";
+import InlineAiPrompt from "./InlineAiPrompt";
+import { wikilink } from "./wikilinkPlugin";
 
 interface WysiwygEditorProps {
   content: string;
   filePath: string;
 }
 
+// Frontmatter and the blank lines after it, kept as written because
+// Milkdown only edits the body
+function getFrontmatterPrefix(content: string): string {
+  const { block, body } = splitFrontmatter(content);
+  return block ? block + (body.match(/^(?:[ \t]*\r?\n)*/)?.[0] ?? "") : "";
+}
+
+interface InlinePromptState {
+  from: number;
+  to: number;
+  top: number;
+  left: number;
+  error?: string;
+}
+
 export default function WysiwygEditor({ content, filePath }: WysiwygEditorProps) {
-  const { updateFileContent, saveFile, openFile, currentProject } = useAppStore();
+  const {
+    updateFileContent,
+    saveFile,
+    openFile,
+    openWikilink,
+    currentProject,
+    editorLocation,
+    clearEditorLocation,
+    setEditorSelection,
+    proposeInlineEdit,
+  } = useAppStore();
+  const wrapperRef = useRef<HTMLDivElement>(null);
   const editorRef = useRef<HTMLDivElement>(null);
+  const [inlinePrompt, setInlinePrompt] = useState<InlinePromptState | null>(null);
   const editorInstanceRef = useRef<Editor | null>(null);
   const initializedForPathRef = useRef<string | null>(null);
   const contentRef = useRef(content);
@@ -22,6 +53,21 @@ export default function WysiwygEditor({ content, filePath }: WysiwygEditorProps)
   // Handle internal link clicks
   const handleLinkClick = useCallback((e: MouseEvent) => {
     const target = e.target as HTMLElement;
+
+    const wikilinkElement = target.closest<HTMLElement>("[data-wikilink]");
+    if (wikilinkElement) {
+      e.preventDefault();
+      e.stopPropagation();
+      openWikilink(
+        {
+          target: wikilinkElement.dataset.wikilink || "",
+          heading: wikilinkElement.dataset.heading,
+        },
+        filePath
+      );
+      return;
+    }
+
     const link = target.closest("a");
     
     if (!link) return;
@@ -64,12 +110,28 @@ export default function WysiwygEditor({ content, filePath }: WysiwygEditorProps)
     
     console.log("Opening internal link:", targetPath);
     openFile(targetPath);
-  }, [filePath, currentProject, openFile]);
+  }, [filePath, currentProject, openFile, openWikilink]);
 
   // Keep refs updated
   contentRef.current = content;
   filePathRef.current = filePath;
 
+  // Scroll to a requested heading once the editor has rendered. The
+  // rendered document has no source lines, so a plain line is ignored here.
+  const revealLocation = useCallback(() => {
+    const location = useAppStore.getState().editorLocation;
+    const container = editorRef.current;
+    if (!location || location.path !== filePathRef.current || !container || !editorInstanceRef.current) return;
+
+    if (location.heading) {
+      const normalize = (text: string) => text.replace(/[*_`]/g, "").trim();
+      const target = Array.from(container.querySelectorAll("h1, h2, h3, h4, h5, h6"))
+        .find(h => normalize(h.textContent || "") === normalize(location.heading!));
+      target?.scrollIntoView({ block: "start" });
+    }
+    clearEditorLocation();
+  }, [clearEditorLocation]);
+
   useEffect(() => {
     const container = editorRef.current;
     if (!container) return;
@@ -93,19 +155,20 @@ export default function WysiwygEditor({ content, filePath }: WysiwygEditorProps)
     // Mark as initializing for this path
     initializedForPathRef.current = filePath;
 
-    // Create new editor
+    // Create new editor, the frontmatter is edited in the properties panel
     Editor.make()
       .config((ctx) => {
         ctx.set(rootCtx, container);
-        ctx.set(defaultValueCtx, contentRef.current);
+        ctx.set(defaultValueCtx, contentRef.current.slice(getFrontmatterPrefix(contentRef.current).length));
         
         // Listen for changes
         ctx.get(listenerCtx).markdownUpdated((_ctx, markdown) => {
-          updateFileContent(filePathRef.current, markdown);
+          updateFileContent(filePathRef.current, getFrontmatterPrefix(contentRef.current) + markdown);
         });
       })
       .use(commonmark)
       .use(gfm)
+      .use(wikilink)
       .use(history)
       .use(listener)
       .create()
@@ -113,6 +176,7 @@ export default function WysiwygEditor({ content, filePath }: WysiwygEditorProps)
         // Only assign if still for the same file
         if (initializedForPathRef.current === filePath) {
           editorInstanceRef.current = editor;
+          revealLocation();
         } else {
           // File changed while creating, destroy
           editor.destroy();
@@ -139,7 +203,68 @@ export default function WysiwygEditor({ content, filePath }: WysiwygEditorProps)
         }
       }
     };
-  }, [filePath, updateFileContent, handleLinkClick]);
+  }, [filePath, updateFileContent, handleLinkClick, revealLocation]);
+
+  useEffect(() => {
+    revealLocation();
+  }, [editorLocation, revealLocation]);
+
+  // Track the selection only while it is inside this editor, so clicking
+  // into the chat keeps the last one
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const selection = window.getSelection();
+      const container = editorRef.current;
+      if (!selection || !container || !container.contains(selection.anchorNode)) return;
+      const text = selection.toString();
+      setEditorSelection(text ? { path: filePathRef.current, text } : null);
+    };
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => document.removeEventListener("selectionchange", handleSelectionChange);
+  }, [setEditorSelection]);
+
+  // The rendered selection is mapped back to the Markdown source, the
+  // text in front of it picks the right one of repeated occurrences.
+  // Without a selection the text is inserted at the cursor.
+  const openInlinePrompt = () => {
+    const selection = window.getSelection();
+    const wrapper = wrapperRef.current;
+    const editor = editorInstanceRef.current;
+    if (!selection || selection.rangeCount === 0 || !wrapper || !editor || !editorRef.current?.contains(selection.anchorNode)) {
+      return;
+    }
+
+    const { doc, selection: docSelection } = editor.action((ctx) => ctx.get(editorViewCtx)).state;
+    const { from, to, empty, $from } = docSelection;
+    const prefix = getFrontmatterPrefix(contentRef.current);
+    const body = contentRef.current.slice(prefix.length);
+
+    let region: { from: number; to: number } | null;
+    if (empty) {
+      const block = $from.parent;
+      const offset = findCursorOffset(
+        body,
+        block.textBetween(0, block.content.size, "\n"),
+        block.textBetween(0, $from.parentOffset, "\n").length,
+        doc.textBetween(0, $from.start(), "\n\n")
+      );
+      region = offset === null ? null : { from: offset, to: offset };
+    } else {
+      region = findTextRange(body, doc.textBetween(from, to, "\n\n"), doc.textBetween(0, from, "\n\n"));
+    }
+
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    const wrapperRect = wrapper.getBoundingClientRect();
+    setInlinePrompt({
+      from: region ? prefix.length + region.from : 0,
+      to: region ? prefix.length + region.to : 0,
+      top: rect.bottom - wrapperRect.top + wrapper.scrollTop + 4,
+      left: Math.max(8, Math.min(rect.left - wrapperRect.left, wrapperRect.width - 428)),
+      error: region
+        ? undefined
+        : "Die Stelle wurde im Markdown nicht gefunden. Markiere Text oder nutze den Quellcode-Modus.",
+    });
+  };
 
   // Handle keyboard shortcuts
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -147,17 +272,34 @@ export default function WysiwygEditor({ content, filePath }: WysiwygEditorProps)
       e.preventDefault();
       saveFile(filePath);
     }
+    if ((e.metaKey || e.ctrlKey) && e.key === "k") {
+      e.preventDefault();
+      openInlinePrompt();
+    }
   };
 
   return (
     <div 
-      className="wysiwyg-editor h-full overflow-auto"
+      ref={wrapperRef}
+      className="wysiwyg-editor relative h-full overflow-auto"
       onKeyDown={handleKeyDown}
     >
       <div 
         ref={editorRef} 
         className="milkdown-editor"
       />
+      {inlinePrompt && (
+        <InlineAiPrompt
+          top={inlinePrompt.top}
+          left={inlinePrompt.left}
+          error={inlinePrompt.error}
+          hasSelection={inlinePrompt.from !== inlinePrompt.to}
+          onSubmit={(instruction, signal) =>
+            proposeInlineEdit(filePath, inlinePrompt.from, inlinePrompt.to, instruction, signal)
+          }
+          onClose={() => setInlinePrompt(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,93 @@
+import type { MilkdownPlugin } from "@milkdown/ctx";
+import { InputRule } from "@milkdown/prose/inputrules";
+import { $inputRule, $node, $remark } from "@milkdown/utils";
+import {
+  WIKILINK_PATTERN,
+  getWikilinkLabel,
+  parseWikilink,
+  remarkWikilinks,
+  type Wikilink,
+} from "../../services/wikilinks";
+
+const wikilinkRemark = $remark("remarkWikilinks", () => remarkWikilinks as never);
+
+// Empty attributes are stored as "" because ProseMirror attrs can't be undefined
+function toWikilink(attrs: Record<string, string>): Wikilink {
+  return {
+    target: attrs.target,
+    heading: attrs.heading || undefined,
+    alias: attrs.alias || undefined,
+  };
+}
+
+// Inline atom, clicks are handled by the editor via the data attributes
+export const wikilinkNode = $node("wikilink", () => ({
+  group: "inline",
+  inline: true,
+  atom: true,
+  selectable: true,
+  marks: "",
+  attrs: {
+    target: { default: "" },
+    heading: { default: "" },
+    alias: { default: "" },
+  },
+  parseDOM: [
+    {
+      tag: "span[data-wikilink]",
+      getAttrs: (dom) => {
+        const element = dom as HTMLElement;
+        return {
+          target: element.getAttribute("data-wikilink") || "",
+          heading: element.getAttribute("data-heading") || "",
+          alias: element.getAttribute("data-alias") || "",
+        };
+      },
+    },
+  ],
+  toDOM: (node) => [
+    "span",
+    {
+      class: "wikilink",
+      "data-wikilink": node.attrs.target,
+      "data-heading": node.attrs.heading || undefined,
+      "data-alias": node.attrs.alias || undefined,
+    },
+    getWikilinkLabel(toWikilink(node.attrs)),
+  ],
+  parseMarkdown: {
+    match: (node) => node.type === "wikilink",
+    runner: (state, node, type) => {
+      state.addNode(type, {
+        target: node.target,
+        heading: node.heading || "",
+        alias: node.alias || "",
+      });
+    },
+  },
+  toMarkdown: {
+    match: (node) => node.type.name === "wikilink",
+    runner: (state, node) => {
+      state.addNode("wikilink", undefined, undefined, { ...toWikilink(node.attrs) });
+    },
+  },
+}));
+
+// Typing the closing brackets of [[...]] turns the text into a link
+const wikilinkInputRule = $inputRule((ctx) =>
+  new InputRule(new RegExp(`${WIKILINK_PATTERN}$`), (state, match, start, end) => {
+    const link = parseWikilink(match);
+    if (!link) return null;
+    return state.tr.replaceWith(
+      start,
+      end,
+      wikilinkNode.type(ctx).create({
+        target: link.target,
+        heading: link.heading || "",
+        alias: link.alias || "",
+      })
+    );
+  })
+);
+
+export const wikilink: MilkdownPlugin[] = [wikilinkRemark, wikilinkNode, wikilinkInputRule].flat();
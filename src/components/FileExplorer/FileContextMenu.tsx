@@ -12,7 +12,6 @@ import { FileNode, useAppStore } from "../../stores/appStore";
 import {
   createFile,
   createDirectory,
-  renameFile,
   fileExists,
 } from "../../services/fileSystem";
 import { moveToTrash, isInTrash, permanentlyDelete } from "../../services/trash";
@@ -36,7 +35,7 @@ export default function FileContextMenu({
   onClose,
 }: FileContextMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
-  const { currentProject, refreshFileTree, closeFile, openFile } = useAppStore();
+  const { currentProject, refreshFileTree, closeFile, openFile, renameWithLinks } = useAppStore();
   const [activeDialog, setActiveDialog] = useState<DialogType>("none");
   const [dialogError, setDialogError] = useState<string | undefined>();
   const dialogRef = useRef<DialogType>("none");
@@ -167,7 +166,7 @@ export default function FileContextMenu({
     }
 
     try {
-      await renameFile(node.path, newPath);
+      await renameWithLinks(node.path, newPath);
       await refreshFileTree();
       setDialogError(undefined);
       setActiveDialog("none");
@@ -22,7 +22,7 @@ import {
   FileSpreadsheet,
   Presentation,
 } from "lucide-react";
-import { useAppStore, FileNode, getFileType, getOfficeType } from "../../stores/appStore";
+import { useAppStore, FileNode, PendingChange, getFileType, getOfficeType } from "../../stores/appStore";
 
 // Get icon for file based on extension
 function getFileIcon(fileName: string) {
@@ -61,13 +61,29 @@ function getFileIcon(fileName: string) {
       return <File className="w-4 h-4 text-dark-text-muted" />;
   }
 }
-import { loadDirectoryChildren, createFile, createDirectory, renameFile, fileExists } from "../../services/fileSystem";
+import { loadDirectoryChildren, createFile, createDirectory, fileExists } from "../../services/fileSystem";
 import { isTrashFolder } from "../../services/trash";
 import FileContextMenu from "./FileContextMenu";
 import InputDialog from "../InputDialog";
 import MoveConflictDialog from "../MoveConflictDialog";
 import TrashDialog from "../TrashDialog";
 
+// Staged new files and folders are shown before they exist on disk
+function addStagedNodes(nodes: FileNode[], parentPath: string, staged: PendingChange[]): FileNode[] {
+  const withChildren = nodes.map(node => node.isDirectory && node.children
+    ? { ...node, children: addStagedNodes(node.children, node.path, staged) }
+    : node);
+
+  const stagedNodes: FileNode[] = staged
+    .filter(c => c.filePath.substring(0, c.filePath.lastIndexOf("/")) === parentPath)
+    .filter(c => !nodes.some(n => n.path === c.filePath))
+    .map(c => c.kind === "create_folder"
+      ? { name: c.fileName, path: c.filePath, isDirectory: true, isExpanded: true, children: addStagedNodes([], c.filePath, staged) }
+      : { name: c.fileName, path: c.filePath, isDirectory: false });
+
+  return [...withChildren, ...stagedNodes];
+}
+
 type SortType = "name-asc" | "name-desc" | "date-desc" | "date-asc" | "type";
 
 const SORT_OPTIONS: { value: SortType; label: string; icon: typeof ArrowUpAZ }[] = [
@@ -79,7 +95,7 @@ const SORT_OPTIONS: { value: SortType; label: string; icon: typeof ArrowUpAZ }[]
 ];
 
 export default function FileExplorer() {
-  const { currentProject, fileTree, refreshFileTree, openFile, selectedFile } = useAppStore();
+  const { currentProject, fileTree, refreshFileTree, openFile, selectedFile, pendingChanges, renameWithLinks } = useAppStore();
   const [contextMenu, setContextMenu] = useState<{
     x: number;
     y: number;
@@ -182,7 +198,14 @@ export default function FileExplorer() {
     }));
   };
 
-  const sortedFileTree = useMemo(() => sortNodes(fileTree), [fileTree, sortType]);
+  const stagedCreates = useMemo(
+    () => pendingChanges.filter(c => c.kind === "create" || c.kind === "create_folder"),
+    [pendingChanges]
+  );
+  const sortedFileTree = useMemo(
+    () => sortNodes(currentProject ? addStagedNodes(fileTree, currentProject.path, stagedCreates) : fileTree),
+    [fileTree, sortType, stagedCreates, currentProject]
+  );
 
   // Global mouse move and mouse up handlers for drag
   useEffect(() => {
@@ -361,7 +384,7 @@ export default function FileExplorer() {
     
     try {
       console.log("Moving", node.path, "to", newPath);
-      await renameFile(node.path, newPath);
+      await renameWithLinks(node.path, newPath);
       await refreshFileTree();
     } catch (error) {
       console.error("Error moving file:", error);
@@ -386,7 +409,7 @@ export default function FileExplorer() {
       }
       
       // Now move
-      await renameFile(moveConflict.node.path, moveConflict.newPath);
+      await renameWithLinks(moveConflict.node.path, moveConflict.newPath);
       await refreshFileTree();
     } catch (error) {
       console.error("Error replacing file:", error);
@@ -413,7 +436,7 @@ export default function FileExplorer() {
     }
     
     try {
-      await renameFile(moveConflict.node.path, renamedPath);
+      await renameWithLinks(moveConflict.node.path, renamedPath);
       await refreshFileTree();
     } catch (error) {
       console.error("Error moving with rename:", error);
@@ -633,19 +656,26 @@ function FileTreeNode({
   onStartDrag,
   sortType,
 }: FileTreeNodeProps) {
-  const { selectedFile, openFile, toggleDirectory, setFileTree, fileTree, setSelectedFile } =
+  const { selectedFile, openFile, toggleDirectory, setFileTree, fileTree, setSelectedFile, pendingChanges } =
     useAppStore();
   const [isLoading, setIsLoading] = useState(false);
 
   const isSelected = selectedFile === node.path;
   const isBeingDragged = draggedNode?.path === node.path;
   const isDropTarget = dropTarget === node.path && node.isDirectory;
+  const nodeChanges = pendingChanges.filter(c => c.filePath === node.path);
+  const isStaged = nodeChanges.some(c => c.kind === "create" || c.kind === "create_folder");
+  const isStagedDelete = nodeChanges.some(c => c.kind === "delete");
+  const relocation = nodeChanges.find(c => c.kind === "rename" || c.kind === "move");
 
   const handleClick = async () => {
     if (draggedNode) return; // Don't click while dragging
     
     setSelectedFile(node.path);
     
+    // Staged folders don't exist yet and only contain staged entries
+    if (node.isDirectory && isStaged) return;
+    
     if (node.isDirectory) {
       if (node.children?.length === 0 && !node.isExpanded) {
         setIsLoading(true);
@@ -759,11 +789,36 @@ function FileTreeNode({
         {/* Name */}
         <span
           className={`text-sm truncate ${
-            isSelected ? "text-white" : "text-dark-text"
-          }`}
+            isStaged ? "text-green-400 italic" : isSelected ? "text-white" : "text-dark-text"
+          } ${isStagedDelete ? "line-through opacity-60" : ""}`}
         >
           {node.name}
         </span>
+
+        {/* Pending AI operations */}
+        {nodeChanges.length > 0 && (
+          <span className="ml-auto flex items-center gap-1 min-w-0 flex-shrink-0 max-w-[50%]">
+            {isStaged && (
+              <span className="text-[10px] px-1 rounded bg-green-500/20 text-green-400">neu</span>
+            )}
+            {!isStaged && nodeChanges.some(c => !c.kind || c.kind === "update") && (
+              <span className="text-[10px] px-1 rounded bg-yellow-500/20 text-yellow-400">geändert</span>
+            )}
+            {relocation?.newPath && (
+              <span
+                className="text-[10px] px-1 rounded bg-blue-500/20 text-blue-400 truncate"
+                title={relocation.newPath}
+              >
+                → {relocation.kind === "rename"
+                  ? relocation.newPath.split("/").pop()
+                  : relocation.newPath.split("/").slice(-2, -1)[0]}
+              </span>
+            )}
+            {isStagedDelete && (
+              <span className="text-[10px] px-1 rounded bg-red-500/20 text-red-400">löschen</span>
+            )}
+          </span>
+        )}
       </div>
 
       {/* Children */}
@@ -1,6 +1,6 @@
-import { useEffect, useState, useCallback, useRef } from "react";
+import { useEffect, useState, useRef } from "react";
 import { useAppStore } from "../../stores/appStore";
-import { readTextFile } from "../../services/fileSystem";
+import { buildLinkIndex, getIndexedNotes, getOutgoingLinks } from "../../services/linkIndex";
 
 interface GraphNode {
   id: string;
@@ -26,41 +26,6 @@ export default function GraphView() {
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
 
-  // Get all markdown files recursively
-  const getAllMarkdownFiles = useCallback((nodes: typeof fileTree): string[] => {
-    const files: string[] = [];
-    for (const node of nodes) {
-      if (node.isDirectory && node.children) {
-        files.push(...getAllMarkdownFiles(node.children));
-      } else if (node.name.endsWith(".md")) {
-        files.push(node.path);
-      }
-    }
-    return files;
-  }, []);
-
-  // Extract links from markdown content
-  const extractLinks = (content: string, basePath: string): string[] => {
-    const links: string[] = [];
-    
-    // Match standard markdown links: [text](path.md)
-    const mdLinkRegex = /\[([^\]]+)\]\(([^)]+\.md)\)/g;
-    let match;
-    
-    while ((match = mdLinkRegex.exec(content)) !== null) {
-      const linkPath = match[2];
-      // Resolve relative paths
-      if (!linkPath.startsWith("/") && !linkPath.startsWith("http")) {
-        const dir = basePath.substring(0, basePath.lastIndexOf("/"));
-        links.push(`${dir}/${linkPath}`);
-      } else if (!linkPath.startsWith("http")) {
-        links.push(linkPath);
-      }
-    }
-    
-    return links;
-  };
-
   // Build graph data
   useEffect(() => {
     const buildGraph = async () => {
@@ -68,7 +33,9 @@ export default function GraphView() {
       
       setLoading(true);
       
-      const files = getAllMarkdownFiles(fileTree);
+      // The shared link index covers the whole vault, not just expanded folders
+      await buildLinkIndex(currentProject.path);
+      const files = getIndexedNotes();
       const nodes: GraphNode[] = [];
       const links: GraphLink[] = [];
       const nodeMap = new Map<string, boolean>();
@@ -87,26 +54,19 @@ export default function GraphView() {
 
       // Find links between files
       for (const filePath of files) {
-        try {
-          const content = await readTextFile(filePath);
-          const fileLinks = extractLinks(content, filePath);
-          
-          for (const targetPath of fileLinks) {
-            if (nodeMap.has(targetPath) && targetPath !== filePath) {
-              links.push({
-                source: filePath,
-                target: targetPath,
-              });
-              
-              // Increase node value for connected nodes
-              const targetNode = nodes.find((n) => n.id === targetPath);
-              if (targetNode) {
-                targetNode.val += 1;
-              }
+        for (const { target: targetPath } of getOutgoingLinks(filePath)) {
+          if (targetPath && nodeMap.has(targetPath) && targetPath !== filePath) {
+            links.push({
+              source: filePath,
+              target: targetPath,
+            });
+            
+            // Increase node value for connected nodes
+            const targetNode = nodes.find((n) => n.id === targetPath);
+            if (targetNode) {
+              targetNode.val += 1;
             }
           }
-        } catch (error) {
-          console.error(`Error reading file ${filePath}:`, error);
         }
       }
 
@@ -115,7 +75,7 @@ export default function GraphView() {
     };
 
     buildGraph();
-  }, [currentProject, fileTree, getAllMarkdownFiles]);
+  }, [currentProject, fileTree]);
 
   // Handle resize
   useEffect(() => {
@@ -0,0 +1,71 @@
+import { Link2, FileText } from "lucide-react";
+import { useAppStore } from "../stores/appStore";
+
+// Preview of the notes whose links a rename or move would change
+export default function LinkRewriteDialog() {
+  const { linkRewriteRequest, resolveLinkRewriteRequest, diffModeEnabled, currentProject } = useAppStore();
+
+  if (!linkRewriteRequest) return null;
+
+  const { oldPath, newPath, rewrites } = linkRewriteRequest;
+  const toRelative = (path: string) =>
+    currentProject && path.startsWith(`${currentProject.path}/`) ? path.slice(currentProject.path.length + 1) : path;
+  const count = rewrites.reduce((sum, rewrite) => sum + rewrite.count, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-dark-sidebar border border-dark-border rounded-lg shadow-2xl w-full max-w-md mx-4">
+        <div className="flex items-center gap-2 p-4 border-b border-dark-border">
+          <Link2 className="w-5 h-5 text-dark-accent" />
+          <h2 className="text-lg font-medium text-white">Links aktualisieren?</h2>
+        </div>
+        <div className="p-4 space-y-3">
+          <p className="text-dark-text text-sm">
+            <span className="font-mono text-dark-accent">{toRelative(oldPath)}</span> wird zu{" "}
+            <span className="font-mono text-dark-accent">{toRelative(newPath)}</span>.{" "}
+            {count === 1 ? "Ein Link muss" : `${count} Links müssen`} angepasst werden:
+          </p>
+          <ul className="max-h-[200px] overflow-y-auto space-y-1">
+            {rewrites.map((rewrite) => (
+              <li key={rewrite.filePath} className="flex items-center gap-2 text-sm text-dark-text">
+                <FileText className="w-4 h-4 text-blue-400 flex-shrink-0" />
+                <span className="truncate flex-1" title={toRelative(rewrite.newFilePath)}>
+                  {toRelative(rewrite.newFilePath)}
+                </span>
+                <span className="text-xs text-dark-text-muted flex-shrink-0">
+                  {rewrite.count} {rewrite.count === 1 ? "Link" : "Links"}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {diffModeEnabled && (
+            <p className="text-xs text-dark-text-muted">
+              Die Änderungen erscheinen zur Überprüfung im Editor.
+            </p>
+          )}
+        </div>
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-dark-border">
+          <button
+            onClick={() => resolveLinkRewriteRequest("cancel")}
+            className="px-4 py-2 text-sm text-dark-text-muted hover:text-dark-text transition-colors"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={() => resolveLinkRewriteRequest("skip")}
+            className="px-4 py-2 text-sm text-dark-text-muted hover:text-dark-text transition-colors"
+            title="Umbenennen, ohne die Links anzupassen"
+          >
+            Links nicht ändern
+          </button>
+          <button
+            onClick={() => resolveLinkRewriteRequest("update")}
+            className="px-4 py-2 text-white text-sm rounded-lg bg-dark-accent hover:bg-dark-accent-hover transition-colors"
+          >
+            Links aktualisieren
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
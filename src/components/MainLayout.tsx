@@ -1,11 +1,16 @@
-import { useRef, useCallback } from "react";
-import { useAppStore } from "../stores/appStore";
+import { useRef, useCallback, useEffect } from "react";
+import { useAppStore, isContentChange } from "../stores/appStore";
+import { syncServers } from "../services/mcp";
+import { startVaultServer, stopVaultServer } from "../services/vaultServer";
 import FileExplorer from "./FileExplorer/FileExplorer";
+import BacklinksPanel from "./Backlinks/BacklinksPanel";
 import Editor from "./Editor/Editor";
 import Chat from "./Chat/Chat";
 import TitleBar from "./TitleBar";
 import GraphView from "./GraphView/GraphView";
 import Settings from "./Settings/Settings";
+import ToolConfirmDialog from "./ToolConfirmDialog";
+import LinkRewriteDialog from "./LinkRewriteDialog";
 
 export default function MainLayout() {
   const {
@@ -15,8 +20,66 @@ export default function MainLayout() {
     setChatWidth,
     showGraphView,
     showSettings,
+    mcpServers,
+    currentProject,
+    vaultServerEnabled,
+    vaultServerPort,
   } = useAppStore();
 
+  // Keep MCP server connections in sync with the settings
+  useEffect(() => {
+    syncServers(mcpServers);
+  }, [mcpServers]);
+
+  // Expose the open vault to external MCP clients
+  const hasProject = currentProject !== null;
+  useEffect(() => {
+    if (!vaultServerEnabled || !hasProject) return;
+
+    startVaultServer(vaultServerPort, {
+      getProjectPath: () => useAppStore.getState().currentProject?.path || null,
+      getToolOptions: () => {
+        const {
+          diffModeEnabled,
+          addPendingChange,
+          openFiles,
+          closeFile,
+          openFile,
+          recordFileOperation,
+          getToolPermission,
+          requestToolConfirmation,
+        } = useAppStore.getState();
+        // Each external tool call is its own undo step
+        const turnId = crypto.randomUUID();
+        return {
+          onFileUpdated: async (filePath) => {
+            if (openFiles.some(f => f.path === filePath)) {
+              closeFile(filePath);
+              await openFile(filePath);
+            }
+          },
+          onProposedChange: diffModeEnabled ? async (change) => {
+            addPendingChange(change);
+            if (isContentChange(change)) {
+              await openFile(change.filePath);
+            }
+          } : undefined,
+          getPendingChange: diffModeEnabled
+            ? (filePath) => useAppStore.getState().getPendingChangeForFile(filePath)
+            : undefined,
+          onFileOperation: (operation) => recordFileOperation(turnId, operation),
+          getToolPermission,
+          confirmToolCall: requestToolConfirmation,
+        };
+      },
+      onFilesChanged: () => useAppStore.getState().refreshFileTree(),
+    }).catch((error) => console.error("Failed to start vault server:", error));
+
+    return () => {
+      stopVaultServer().catch((error) => console.error("Failed to stop vault server:", error));
+    };
+  }, [vaultServerEnabled, vaultServerPort, hasProject]);
+
   const containerRef = useRef<HTMLDivElement>(null);
   const isDraggingSidebar = useRef(false);
   const isDraggingChat = useRef(false);
@@ -72,10 +135,13 @@ export default function MainLayout() {
       <div ref={containerRef} className="flex-1 flex overflow-hidden">
         {/* File Explorer Sidebar */}
         <div
-          className="flex-shrink-0 bg-dark-sidebar border-r border-dark-border"
+          className="flex-shrink-0 flex flex-col bg-dark-sidebar border-r border-dark-border"
           style={{ width: sidebarWidth }}
         >
-          <FileExplorer />
+          <div className="flex-1 min-h-0">
+            <FileExplorer />
+          </div>
+          <BacklinksPanel />
         </div>
 
         {/* Sidebar Resize Handle */}
@@ -106,6 +172,12 @@ export default function MainLayout() {
 
       {/* Settings Modal */}
       {showSettings && <Settings />}
+
+      {/* Confirmation for AI tools with the "ask" policy */}
+      <ToolConfirmDialog />
+
+      {/* Preview of the links a rename in the explorer changes */}
+      <LinkRewriteDialog />
     </div>
   );
 }
@@ -1,13 +1,18 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Search, File, X, Loader2 } from "lucide-react";
 import { useAppStore } from "../../stores/appStore";
-import { cosineSimilarity, generateEmbedding } from "../../services/openai";
+import { resolveEmbeddingSelection } from "../../services/llm";
 import { readTextFile } from "../../services/fileSystem";
+import { updateIndex, searchIndex, type IndexProgress } from "../../services/vectorIndex";
+import { buildLinkIndex, findNotesByProperties, getNoteContent } from "../../services/linkIndex";
+import { getPropertyText, parsePropertyFilters, type PropertyFilter } from "../../services/frontmatter";
 
 interface SearchResult {
   path: string;
   name: string;
   preview: string;
+  // Section of the note the semantic match was found in
+  heading?: string;
   score?: number;
   type: "text" | "semantic";
 }
@@ -18,12 +23,17 @@ interface SearchDialogProps {
 }
 
 export default function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
-  const { currentProject, fileTree, openFile, apiKey } = useAppStore();
+  const { currentProject, fileTree, openFile, providers, providerApiKeys, selectedProviderId } = useAppStore();
+  const embeddingSelection = useMemo(
+    () => resolveEmbeddingSelection(providers, providerApiKeys, selectedProviderId),
+    [providers, providerApiKeys, selectedProviderId]
+  );
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<SearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [searchMode, setSearchMode] = useState<"text" | "semantic">("text");
+  const [indexProgress, setIndexProgress] = useState<IndexProgress | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
 
@@ -40,11 +50,41 @@ export default function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
     return files;
   }, []);
 
+  // Notes matching key:value filters, optionally also containing the text.
+  // The link index covers the whole vault, also collapsed folders.
+  const searchProperties = useCallback(
+    async (filters: PropertyFilter[], text: string): Promise<SearchResult[]> => {
+      if (!currentProject) return [];
+      await buildLinkIndex(currentProject.path);
+
+      const results: SearchResult[] = [];
+      const textLower = text.toLowerCase();
+      for (const { path, properties } of findNotesByProperties(filters)) {
+        const name = path.split("/").pop() || path;
+        const content = getNoteContent(path) ?? "";
+        if (textLower && !name.toLowerCase().includes(textLower) && !content.toLowerCase().includes(textLower)) {
+          continue;
+        }
+        results.push({
+          path,
+          name,
+          preview: properties.map(p => `${p.key}: ${getPropertyText(p)}`).join(" · ").substring(0, 100),
+          type: "text",
+        });
+      }
+      return results.slice(0, 50);
+    },
+    [currentProject]
+  );
+
   // Text search
   const searchText = useCallback(
     async (searchQuery: string): Promise<SearchResult[]> => {
       if (!currentProject || !searchQuery.trim()) return [];
 
+      const { filters, text } = parsePropertyFilters(searchQuery);
+      if (filters.length > 0) return searchProperties(filters, text);
+
       const files = getAllMarkdownFiles(fileTree);
       const results: SearchResult[] = [];
       const queryLower = searchQuery.toLowerCase();
@@ -91,60 +131,52 @@ export default function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
 
       return results.slice(0, 20);
     },
-    [currentProject, fileTree, getAllMarkdownFiles]
+    [currentProject, fileTree, getAllMarkdownFiles, searchProperties]
   );
 
-  // Semantic search
+  // Semantic search against the persistent index
   const searchSemanticQuery = useCallback(
     async (searchQuery: string): Promise<SearchResult[]> => {
-      if (!currentProject || !searchQuery.trim() || !apiKey) return [];
+      if (!currentProject || !searchQuery.trim() || !embeddingSelection) return [];
 
-      const files = getAllMarkdownFiles(fileTree);
-      const results: SearchResult[] = [];
+      // Filters narrow the semantic hits, without text they are the result
+      const { filters, text } = parsePropertyFilters(searchQuery);
+      if (filters.length > 0 && !text) return searchProperties(filters, "");
 
       try {
-        // Get embedding for query
-        const queryEmbedding = await generateEmbedding(searchQuery, apiKey);
-
-        // Compare with all files
-        for (const filePath of files) {
-          try {
-            const content = await readTextFile(filePath);
-            const name = filePath.split("/").pop() || filePath;
-
-            // Generate embedding for file content (truncate if too long)
-            const truncatedContent = content.substring(0, 8000);
-            const fileEmbedding = await generateEmbedding(truncatedContent, apiKey);
+        let allowed: Set<string> | null = null;
+        if (filters.length > 0) {
+          await buildLinkIndex(currentProject.path);
+          allowed = new Set(findNotesByProperties(filters).map(note => note.path));
+        }
 
-            // Calculate similarity
-            const similarity = cosineSimilarity(queryEmbedding, fileEmbedding);
+        // Only new and changed notes are embedded again
+        await updateIndex(currentProject.path, embeddingSelection, setIndexProgress);
 
-            if (similarity > 0.3) {
-              const lines = content.split("\n");
-              const preview = lines[0]?.substring(0, 100) || "";
+        const hits = await searchIndex(currentProject.path, text, embeddingSelection, 50);
 
-              results.push({
-                path: filePath,
-                name,
-                preview,
-                score: similarity,
-                type: "semantic",
-              });
-            }
-          } catch (error) {
-            console.error(`Error processing file ${filePath}:`, error);
-          }
+        // Best matching section per file
+        const results: SearchResult[] = [];
+        for (const hit of hits) {
+          if (results.some(r => r.path === hit.path) || (allowed && !allowed.has(hit.path))) continue;
+          results.push({
+            path: hit.path,
+            name: hit.path.split("/").pop() || hit.path,
+            preview: hit.content.replace(/\s+/g, " ").substring(0, 100),
+            heading: hit.heading || undefined,
+            score: hit.score,
+            type: "semantic",
+          });
         }
-
-        // Sort by similarity score
-        results.sort((a, b) => (b.score || 0) - (a.score || 0));
         return results.slice(0, 10);
       } catch (error) {
         console.error("Semantic search error:", error);
         return [];
+      } finally {
+        setIndexProgress(null);
       }
     },
-    [currentProject, fileTree, getAllMarkdownFiles, apiKey]
+    [currentProject, embeddingSelection, searchProperties]
   );
 
   // Debounced search
@@ -233,7 +265,7 @@ export default function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
             onKeyDown={handleKeyDown}
             placeholder={
               searchMode === "text"
-                ? "Datei oder Inhalt suchen..."
+                ? "Datei oder Inhalt suchen (Filter: status:entwurf)..."
                 : "Semantische Suche (KI)..."
             }
             className="flex-1 bg-transparent text-dark-text placeholder-dark-text-muted text-lg focus:outline-none"
@@ -261,16 +293,21 @@ export default function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
           </button>
           <button
             onClick={() => setSearchMode("semantic")}
-            disabled={!apiKey}
+            disabled={!embeddingSelection}
             className={`px-3 py-1 text-xs rounded-full transition-colors ${
               searchMode === "semantic"
                 ? "bg-dark-accent text-white"
                 : "bg-dark-hover text-dark-text-muted hover:text-dark-text"
-            } ${!apiKey ? "opacity-50 cursor-not-allowed" : ""}`}
-            title={!apiKey ? "API-Key erforderlich" : undefined}
+            } ${!embeddingSelection ? "opacity-50 cursor-not-allowed" : ""}`}
+            title={!embeddingSelection ? "Anbieter mit Embedding-Modell erforderlich" : undefined}
           >
             Semantische Suche
           </button>
+          {indexProgress && (
+            <span className="text-xs text-dark-text-muted">
+              Index wird aktualisiert ({indexProgress.done}/{indexProgress.total})
+            </span>
+          )}
           <span className="text-xs text-dark-text-muted ml-auto">
             Tab zum Wechseln
           </span>
@@ -302,6 +339,11 @@ export default function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
                     <span className="font-medium text-dark-text truncate">
                       {result.name}
                     </span>
+                    {result.heading && (
+                      <span className="text-xs text-dark-text-muted truncate">
+                        # {result.heading}
+                      </span>
+                    )}
                     {result.score && (
                       <span className="text-xs text-dark-accent">
                         {Math.round(result.score * 100)}% Match
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Eye, EyeOff, Check } from "lucide-react";
+import { useAppStore } from "../../stores/appStore";
+import { buildSystemPrompt } from "../../services/openai";
+import {
+  INSTRUCTIONS_FILE,
+  loadProjectInstructions,
+  saveProjectInstructions,
+} from "../../services/projectInstructions";
+
+export default function InstructionsPanel() {
+  const { customPrompt, setCustomPrompt, currentProject, getModelSelection } = useAppStore();
+
+  const [projectInstructions, setProjectInstructions] = useState("");
+  const [savedInstructions, setSavedInstructions] = useState("");
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+
+  useEffect(() => {
+    if (!currentProject) return;
+    loadProjectInstructions(currentProject.path).then((content) => {
+      setProjectInstructions(content);
+      setSavedInstructions(content);
+    });
+  }, [currentProject]);
+
+  const handleSaveInstructions = async () => {
+    if (!currentProject) return;
+    setError(null);
+    try {
+      await saveProjectInstructions(currentProject.path, projectInstructions);
+      setSavedInstructions(projectInstructions);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (err) {
+      setError(`Anweisungen konnten nicht gespeichert werden: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  // Shows the unsaved project instructions too, so edits can be checked first
+  const preview = buildSystemPrompt(getModelSelection(), currentProject?.path, customPrompt, projectInstructions);
+
+  return (
+    <div className="space-y-6">
+      {/* Global prompt */}
+      <div>
+        <h3 className="text-sm font-medium text-dark-text mb-1">Eigene Anweisungen</h3>
+        <p className="text-xs text-dark-text-muted mb-3">
+          Gelten in allen Projekten und haben Vorrang vor den Standard-Konventionen, z. B. Sprache,
+          Dateinamen oder Aufbau neuer Notizen.
+        </p>
+        <textarea
+          value={customPrompt}
+          onChange={(e) => setCustomPrompt(e.target.value)}
+          placeholder={"z. B.\n- Write notes and answers in English\n- Use Title Case file names"}
+          rows={5}
+          className="w-full bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted font-mono focus:outline-none focus:border-dark-accent transition-colors"
+        />
+      </div>
+
+      {/* Project instructions */}
+      <div>
+        <h3 className="text-sm font-medium text-dark-text mb-1">Projektanweisungen</h3>
+        {currentProject ? (
+          <>
+            <p className="text-xs text-dark-text-muted mb-3">
+              Gespeichert in <span className="font-mono">{INSTRUCTIONS_FILE}</span> im Projekt und damit für
+              alle, die den Vault nutzen. Haben Vorrang vor den eigenen Anweisungen.
+            </p>
+            <textarea
+              value={projectInstructions}
+              onChange={(e) => setProjectInstructions(e.target.value)}
+              placeholder="Konventionen dieses Projekts..."
+              rows={6}
+              className="w-full bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted font-mono focus:outline-none focus:border-dark-accent transition-colors"
+            />
+            {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+            <div className="flex justify-end mt-2">
+              <button
+                onClick={handleSaveInstructions}
+                disabled={projectInstructions === savedInstructions}
+                className={`flex items-center gap-2 px-3 py-1.5 text-xs rounded-lg transition-colors disabled:opacity-50 ${
+                  saved ? "bg-green-600 text-white" : "bg-dark-accent text-white hover:bg-dark-accent-hover"
+                }`}
+              >
+                {saved && <Check className="w-3.5 h-3.5" />}
+                {saved ? "Gespeichert" : "Projektanweisungen speichern"}
+              </button>
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-dark-text-muted">Öffne ein Projekt, um Projektanweisungen festzulegen.</p>
+        )}
+      </div>
+
+      {/* Preview */}
+      <div>
+        <button
+          onClick={() => setShowPreview(!showPreview)}
+          className="flex items-center gap-2 text-sm text-dark-text-muted hover:text-dark-text transition-colors"
+        >
+          {showPreview ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+          {showPreview ? "Vorschau ausblenden" : "Vorschau des System-Prompts"}
+        </button>
+        {showPreview && (
+          <pre className="mt-2 p-3 bg-dark-bg border border-dark-border rounded-lg text-xs text-dark-text-muted font-mono max-h-[300px] overflow-auto whitespace-pre-wrap">
+            {preview}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+}
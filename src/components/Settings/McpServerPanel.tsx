@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { Server, Trash2, RefreshCw, ChevronDown, ChevronRight, AlertCircle, Wrench, ScrollText, KeyRound, Check } from "lucide-react";
+import {
+  getServerStatus,
+  subscribeToStatus,
+  reconnectServer,
+  getSecretKey,
+  formatCommandLine,
+  type McpServerConfig,
+  type McpConnectionState,
+} from "../../services/mcp";
+import { hasSecret, setSecret } from "../../services/secrets";
+import { TOOL_PERMISSION_LABELS, type ToolPermission } from "../../services/toolPermissions";
+import { useAppStore } from "../../stores/appStore";
+
+interface McpServerPanelProps {
+  server: McpServerConfig;
+  onUpdate: (updates: Partial<McpServerConfig>) => void;
+  onRemove: () => void;
+}
+
+const STATE_LABELS: Record<McpConnectionState, string> = {
+  connecting: "Verbinde...",
+  connected: "Verbunden",
+  reconnecting: "Verbinde neu...",
+  disconnected: "Getrennt",
+  error: "Fehler",
+};
+
+const STATE_COLORS: Record<McpConnectionState, string> = {
+  connecting: "bg-yellow-400",
+  connected: "bg-green-400",
+  reconnecting: "bg-yellow-400",
+  disconnected: "bg-dark-text-muted",
+  error: "bg-red-400",
+};
+
+export default function McpServerPanel({ server, onUpdate, onRemove }: McpServerPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showLogs, setShowLogs] = useState(false);
+  const [, setStatusVersion] = useState(0);
+  const [secretStatus, setSecretStatus] = useState<Record<string, boolean>>({});
+  const [secretInputs, setSecretInputs] = useState<Record<string, string>>({});
+  const { toolPermissions, setToolPermission } = useAppStore();
+
+  // Re-render whenever the live status of any server changes
+  useEffect(() => subscribeToStatus(() => setStatusVersion(v => v + 1)), []);
+
+  // Check which secrets have a stored value
+  useEffect(() => {
+    if (!isExpanded || !server.secretEnv) return;
+    
+    const loadSecretStatus = async () => {
+      const status: Record<string, boolean> = {};
+      for (const name of server.secretEnv || []) {
+        status[name] = await hasSecret(getSecretKey(server.id, name));
+      }
+      setSecretStatus(status);
+    };
+    loadSecretStatus();
+  }, [isExpanded, server.id, server.secretEnv]);
+
+  const status = server.enabled ? getServerStatus(server.id) : undefined;
+  const state: McpConnectionState = status?.state || "disconnected";
+  const disabledTools = server.disabledTools || [];
+
+  const toggleTool = (toolName: string, visible: boolean) => {
+    onUpdate({
+      disabledTools: visible
+        ? disabledTools.filter(name => name !== toolName)
+        : [...disabledTools, toolName],
+    });
+  };
+
+  const handleSaveSecret = async (name: string) => {
+    const value = secretInputs[name];
+    if (!value) return;
+    
+    try {
+      await setSecret(getSecretKey(server.id, name), value);
+      setSecretStatus(status => ({ ...status, [name]: true }));
+      setSecretInputs(inputs => ({ ...inputs, [name]: "" }));
+      if (server.enabled) {
+        await handleReconnect();
+      }
+    } catch (error) {
+      console.error("Failed to save secret:", error);
+    }
+  };
+
+  const handleReconnect = async () => {
+    try {
+      await reconnectServer(server.id);
+    } catch (error) {
+      // The error is recorded in the server status
+      console.error("Reconnect failed:", error);
+    }
+  };
+
+  return (
+    <div className="bg-dark-panel rounded-lg border border-dark-border">
+      <div className="flex items-center gap-3 p-3">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="p-0.5 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+          title={isExpanded ? "Details ausblenden" : "Details anzeigen"}
+        >
+          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <Server className={`w-5 h-5 ${server.enabled ? "text-green-400" : "text-dark-text-muted"}`} />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-dark-text">{server.name}</span>
+            {server.enabled && (
+              <span className="flex items-center gap-1 text-xs text-dark-text-muted">
+                <span className={`w-2 h-2 rounded-full ${STATE_COLORS[state]}`} />
+                {STATE_LABELS[state]}
+              </span>
+            )}
+          </div>
+          <div className="text-xs text-dark-text-muted truncate">
+            {server.type === "stdio" ? `${server.command} ${formatCommandLine(server.args || [])}` : server.url}
+          </div>
+        </div>
+        {server.enabled && (
+          <button
+            onClick={handleReconnect}
+            disabled={state === "connecting"}
+            className="p-1.5 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors disabled:opacity-50"
+            title="Neu verbinden"
+          >
+            <RefreshCw className={`w-4 h-4 ${state === "connecting" || state === "reconnecting" ? "animate-spin" : ""}`} />
+          </button>
+        )}
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={server.enabled}
+            onChange={(e) => onUpdate({ enabled: e.target.checked })}
+            className="w-4 h-4 rounded border-dark-border bg-dark-panel text-dark-accent focus:ring-dark-accent"
+          />
+          <span className="text-xs text-dark-text-muted">Aktiv</span>
+        </label>
+        <button
+          onClick={onRemove}
+          className="p-1.5 rounded hover:bg-dark-hover text-dark-text-muted hover:text-red-400 transition-colors"
+          title="Entfernen"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3 border-t border-dark-border pt-3">
+          {/* Last error */}
+          {status?.lastError && (
+            <div className="flex items-start gap-2 p-2 rounded bg-red-500/10 text-xs text-red-400">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span className="break-all">{status.lastError}</span>
+            </div>
+          )}
+
+          {/* Environment */}
+          {server.type === "stdio" && (server.cwd || server.env || server.secretEnv) && (
+            <div className="space-y-1.5">
+              <div className="flex items-center gap-1.5 text-xs font-medium text-dark-text">
+                <KeyRound className="w-3.5 h-3.5" />
+                Umgebung
+              </div>
+              {server.cwd && (
+                <div className="text-xs text-dark-text-muted">
+                  Arbeitsverzeichnis: <span className="font-mono">{server.cwd}</span>
+                </div>
+              )}
+              {server.env && Object.keys(server.env).map(name => (
+                <div key={name} className="text-xs font-mono text-dark-text-muted truncate">
+                  {name}={server.env![name]}
+                </div>
+              ))}
+              {server.secretEnv?.map(name => (
+                <div key={name} className="flex items-center gap-2">
+                  <span className="text-xs font-mono text-dark-text-muted flex-shrink-0">{name}</span>
+                  <span className={`text-xs flex-shrink-0 ${secretStatus[name] ? "text-green-400" : "text-yellow-400"}`}>
+                    {secretStatus[name] ? "gesetzt" : "fehlt"}
+                  </span>
+                  <input
+                    type="password"
+                    value={secretInputs[name] || ""}
+                    onChange={(e) => setSecretInputs(inputs => ({ ...inputs, [name]: e.target.value }))}
+                    placeholder={secretStatus[name] ? "Neuer Wert" : "Wert"}
+                    className="flex-1 min-w-0 bg-dark-bg border border-dark-border rounded px-2 py-1 text-xs text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
+                  />
+                  <button
+                    onClick={() => handleSaveSecret(name)}
+                    disabled={!secretInputs[name]}
+                    className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors disabled:opacity-50"
+                    title="Speichern"
+                  >
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Tools */}
+          <div>
+            <div className="flex items-center gap-1.5 text-xs font-medium text-dark-text mb-1.5">
+              <Wrench className="w-3.5 h-3.5" />
+              Tools
+              {status && status.tools.length > 0 && (
+                <span className="text-dark-text-muted font-normal">
+                  ({status.tools.length - status.tools.filter(t => disabledTools.includes(t.name)).length}/{status.tools.length} aktiv)
+                </span>
+              )}
+            </div>
+            {!status || status.tools.length === 0 ? (
+              <p className="text-xs text-dark-text-muted">
+                {server.enabled ? "Keine Tools gefunden" : "Server ist deaktiviert"}
+              </p>
+            ) : (
+              <div className="space-y-1 max-h-[180px] overflow-y-auto">
+                {status.tools.map((tool) => {
+                  // Same name the chat uses for the tool call
+                  const permissionKey = `mcp_${server.id}_${tool.name}`;
+                  return (
+                    <div key={tool.name} className="flex items-start gap-2 px-2 py-1 rounded hover:bg-dark-hover">
+                      <label className="flex-1 min-w-0 flex items-start gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!disabledTools.includes(tool.name)}
+                          onChange={(e) => toggleTool(tool.name, e.target.checked)}
+                          className="mt-0.5 w-3.5 h-3.5 rounded border-dark-border bg-dark-panel text-dark-accent focus:ring-dark-accent"
+                        />
+                        <div className="min-w-0">
+                          <div className="text-xs font-mono text-dark-text">{tool.name}</div>
+                          {tool.description && (
+                            <div className="text-xs text-dark-text-muted truncate">{tool.description}</div>
+                          )}
+                        </div>
+                      </label>
+                      <select
+                        value={toolPermissions[permissionKey] || ""}
+                        onChange={(e) => setToolPermission(permissionKey, (e.target.value || null) as ToolPermission | null)}
+                        className="bg-dark-panel border border-dark-border rounded px-1.5 py-0.5 text-xs text-dark-text focus:outline-none focus:border-dark-accent"
+                        title="Berechtigung"
+                      >
+                        <option value="">Standard</option>
+                        {(Object.keys(TOOL_PERMISSION_LABELS) as ToolPermission[]).map((permission) => (
+                          <option key={permission} value={permission}>{TOOL_PERMISSION_LABELS[permission]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Logs */}
+          <div>
+            <button
+              onClick={() => setShowLogs(!showLogs)}
+              className="flex items-center gap-1.5 text-xs font-medium text-dark-text hover:text-white transition-colors"
+            >
+              <ScrollText className="w-3.5 h-3.5" />
+              Logs ({status?.logs.length || 0})
+              {showLogs ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            </button>
+            {showLogs && (
+              <pre className="mt-1.5 p-2 bg-dark-bg rounded text-xs text-dark-text-muted font-mono max-h-[200px] overflow-auto whitespace-pre-wrap break-all">
+                {status && status.logs.length > 0 ? status.logs.join("\n") : "Keine Ausgaben"}
+              </pre>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
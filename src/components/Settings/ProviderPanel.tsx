@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { Bot, Trash2, ChevronDown, ChevronRight, Eye, EyeOff, Plus, X } from "lucide-react";
+import {
+  PROVIDER_TYPE_LABELS,
+  isProviderReady,
+  requiresApiKey,
+  type ModelConfig,
+  type ProviderConfig,
+} from "../../services/llm";
+
+interface ProviderPanelProps {
+  provider: ProviderConfig;
+  apiKey: string;
+  onApiKeyChange: (key: string) => void;
+  onUpdate: (updates: Partial<ProviderConfig>) => void;
+  onRemove: () => void;
+}
+
+const KEY_LINKS: Partial<Record<ProviderConfig["type"], string>> = {
+  openai: "https://platform.openai.com/api-keys",
+  anthropic: "https://console.anthropic.com/settings/keys",
+};
+
+export default function ProviderPanel({ provider, apiKey, onApiKeyChange, onUpdate, onRemove }: ProviderPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showKey, setShowKey] = useState(false);
+  const [newModelId, setNewModelId] = useState("");
+  const [newModelTools, setNewModelTools] = useState(true);
+
+  const isReady = isProviderReady(provider, apiKey);
+  const keyLink = KEY_LINKS[provider.type];
+
+  const updateModel = (modelId: string, updates: Partial<ModelConfig>) => {
+    onUpdate({
+      models: provider.models.map(m => m.id === modelId ? { ...m, ...updates } : m),
+    });
+  };
+
+  const handleAddModel = () => {
+    const id = newModelId.trim();
+    if (!id || provider.models.some(m => m.id === id)) return;
+
+    onUpdate({ models: [...provider.models, { id, name: id, supportsTools: newModelTools }] });
+    setNewModelId("");
+    setNewModelTools(true);
+  };
+
+  return (
+    <div className="bg-dark-panel rounded-lg border border-dark-border">
+      <div className="flex items-center gap-3 p-3">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="p-0.5 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+          title={isExpanded ? "Details ausblenden" : "Details anzeigen"}
+        >
+          {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </button>
+        <Bot className={`w-5 h-5 ${isReady ? "text-green-400" : "text-dark-text-muted"}`} />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-dark-text">{provider.name}</span>
+            <span className="text-xs text-dark-text-muted">{PROVIDER_TYPE_LABELS[provider.type]}</span>
+          </div>
+          <div className="text-xs text-dark-text-muted truncate">
+            {isReady
+              ? `${provider.models.length} Modell${provider.models.length === 1 ? "" : "e"}`
+              : "API-Key fehlt"}
+            {provider.baseUrl && ` · ${provider.baseUrl}`}
+          </div>
+        </div>
+        <button
+          onClick={onRemove}
+          className="p-1.5 rounded hover:bg-dark-hover text-dark-text-muted hover:text-red-400 transition-colors"
+          title="Entfernen"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="px-3 pb-3 space-y-3 border-t border-dark-border pt-3">
+          {/* Name */}
+          <div>
+            <label className="block text-xs text-dark-text-muted mb-1">Name</label>
+            <input
+              type="text"
+              value={provider.name}
+              onChange={(e) => onUpdate({ name: e.target.value })}
+              className="w-full bg-dark-bg border border-dark-border rounded px-2 py-1.5 text-xs text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
+            />
+          </div>
+
+          {/* API Key */}
+          <div>
+            <label className="block text-xs text-dark-text-muted mb-1">
+              API-Key{!requiresApiKey(provider) && " (optional)"}
+            </label>
+            <div className="relative">
+              <input
+                type={showKey ? "text" : "password"}
+                value={apiKey}
+                onChange={(e) => onApiKeyChange(e.target.value)}
+                placeholder={provider.type === "anthropic" ? "sk-ant-..." : "sk-..."}
+                className="w-full bg-dark-bg border border-dark-border rounded px-2 py-1.5 pr-9 text-xs text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
+              />
+              <button
+                onClick={() => setShowKey(!showKey)}
+                className="absolute right-1.5 top-1/2 -translate-y-1/2 p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+                title={showKey ? "Verbergen" : "Anzeigen"}
+              >
+                {showKey ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+              </button>
+            </div>
+            {keyLink && (
+              <a
+                href={keyLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-dark-accent hover:underline"
+              >
+                API-Key erstellen
+              </a>
+            )}
+          </div>
+
+          {/* Endpoint */}
+          {provider.type !== "openai" && (
+            <div>
+              <label className="block text-xs text-dark-text-muted mb-1">Basis-URL</label>
+              <input
+                type="text"
+                value={provider.baseUrl || ""}
+                onChange={(e) => onUpdate({ baseUrl: e.target.value })}
+                placeholder={provider.type === "anthropic" ? "https://api.anthropic.com" : "http://localhost:11434/v1"}
+                className="w-full bg-dark-bg border border-dark-border rounded px-2 py-1.5 text-xs text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
+              />
+            </div>
+          )}
+
+          {/* Embeddings */}
+          {provider.type !== "anthropic" && (
+            <div>
+              <label className="block text-xs text-dark-text-muted mb-1">Embedding-Modell (semantische Suche)</label>
+              <input
+                type="text"
+                value={provider.embeddingModel || ""}
+                onChange={(e) => onUpdate({ embeddingModel: e.target.value || undefined })}
+                placeholder="text-embedding-3-small"
+                className="w-full bg-dark-bg border border-dark-border rounded px-2 py-1.5 text-xs text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
+              />
+            </div>
+          )}
+
+          {/* Models */}
+          <div>
+            <div className="text-xs text-dark-text-muted mb-1">Modelle</div>
+            <div className="space-y-1">
+              {provider.models.map((model) => (
+                <div key={model.id} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-dark-hover">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs text-dark-text truncate">{model.name}</div>
+                    {model.name !== model.id && (
+                      <div className="text-xs font-mono text-dark-text-muted truncate">{model.id}</div>
+                    )}
+                  </div>
+                  <label className="flex items-center gap-1.5 cursor-pointer" title="Modell unterstützt Tool-Aufrufe">
+                    <input
+                      type="checkbox"
+                      checked={model.supportsTools}
+                      onChange={(e) => updateModel(model.id, { supportsTools: e.target.checked })}
+                      className="w-3.5 h-3.5 rounded border-dark-border bg-dark-panel text-dark-accent focus:ring-dark-accent"
+                    />
+                    <span className="text-xs text-dark-text-muted">Tools</span>
+                  </label>
+                  <button
+                    onClick={() => onUpdate({ models: provider.models.filter(m => m.id !== model.id) })}
+                    className="p-1 rounded hover:bg-dark-active text-dark-text-muted hover:text-red-400 transition-colors"
+                    title="Modell entfernen"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2 mt-2">
+              <input
+                type="text"
+                value={newModelId}
+                onChange={(e) => setNewModelId(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddModel()}
+                placeholder="Modell-ID, z.B. qwen2.5-coder"
+                className="flex-1 min-w-0 bg-dark-bg border border-dark-border rounded px-2 py-1.5 text-xs text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
+              />
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={newModelTools}
+                  onChange={(e) => setNewModelTools(e.target.checked)}
+                  className="w-3.5 h-3.5 rounded border-dark-border bg-dark-panel text-dark-accent focus:ring-dark-accent"
+                />
+                <span className="text-xs text-dark-text-muted">Tools</span>
+              </label>
+              <button
+                onClick={handleAddModel}
+                disabled={!newModelId.trim()}
+                className="p-1.5 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors disabled:opacity-50"
+                title="Modell hinzufügen"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
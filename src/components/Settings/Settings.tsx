@@ -1,14 +1,70 @@
 import { useState } from "react";
-import { X, Eye, EyeOff, Check, Plus, Trash2, Server, Settings2, Plug } from "lucide-react";
+import { X, Check, Plus, Server, Settings2, Plug, FileText } from "lucide-react";
 import { useAppStore } from "../../stores/appStore";
-import type { McpServerConfig } from "../../services/mcp";
+import {
+  EXAMPLE_MCP_SERVERS,
+  parseCommandLine,
+  formatCommandLine,
+  getSecretKey,
+  validateStdioCommand,
+  STDIO_COMMANDS,
+  type McpServerConfig,
+} from "../../services/mcp";
+import { setSecret } from "../../services/secrets";
+import { PROVIDER_TYPE_LABELS, type ProviderType } from "../../services/llm";
+import { getVaultTools } from "../../services/openai";
+import {
+  TOOL_PERMISSION_LABELS,
+  MCP_TOOLS_KEY,
+  getToolPermission,
+  type ToolPermission,
+} from "../../services/toolPermissions";
+import McpServerPanel from "./McpServerPanel";
+import ProviderPanel from "./ProviderPanel";
+import VaultServerPanel from "./VaultServerPanel";
+import InstructionsPanel from "./InstructionsPanel";
 
-type Tab = "general" | "mcp";
+type Tab = "general" | "instructions" | "mcp";
+
+// Parse "Name: Value" lines into a header map
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim();
+    const value = line.slice(colon + 1).trim();
+    if (name) headers[name] = value;
+  }
+  return headers;
+}
+
+// Parse "NAME=value" lines into an environment map
+function parseEnv(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const eq = line.indexOf("=");
+    if (eq <= 0) continue;
+    const name = line.slice(0, eq).trim();
+    if (name) env[name] = line.slice(eq + 1).trim();
+  }
+  return env;
+}
 
 export default function Settings() {
   const { 
-    apiKey, 
-    setApiKey, 
+    providers,
+    addProvider,
+    updateProvider,
+    removeProvider,
+    providerApiKeys,
+    setProviderApiKey,
+    agentMaxSteps,
+    setAgentMaxSteps,
+    agentTokenBudget,
+    setAgentTokenBudget,
+    toolPermissions,
+    setToolPermission,
     setShowSettings,
     mcpServers,
     addMcpServer,
@@ -17,23 +73,36 @@ export default function Settings() {
   } = useAppStore();
   
   const [activeTab, setActiveTab] = useState<Tab>("general");
-  const [showKey, setShowKey] = useState(false);
-  const [tempKey, setTempKey] = useState(apiKey);
+  const [tempKeys, setTempKeys] = useState<Record<string, string>>(providerApiKeys);
   const [saved, setSaved] = useState(false);
   
   // MCP form state
   const [showAddMcp, setShowAddMcp] = useState(false);
   const [newMcpServer, setNewMcpServer] = useState<Partial<McpServerConfig>>({
     name: "",
-    type: "sse",
+    type: "http",
     url: "",
     command: "",
     args: [],
     enabled: true,
   });
+  const [newMcpHeaders, setNewMcpHeaders] = useState("");
+  const [newMcpArgs, setNewMcpArgs] = useState("");
+  const [newMcpEnv, setNewMcpEnv] = useState("");
+  const [newMcpSecrets, setNewMcpSecrets] = useState<{ name: string; value: string }[]>([]);
+  const [mcpFormError, setMcpFormError] = useState<string | null>(null);
 
-  const handleSave = () => {
-    setApiKey(tempKey);
+  const handleSave = async () => {
+    try {
+      for (const [providerId, key] of Object.entries(tempKeys)) {
+        if (key !== (providerApiKeys[providerId] || "")) {
+          await setProviderApiKey(providerId, key);
+        }
+      }
+    } catch (error) {
+      console.error("Failed to save API keys:", error);
+      return;
+    }
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
   };
@@ -42,29 +111,97 @@ export default function Settings() {
     setShowSettings(false);
   };
 
-  const handleAddMcpServer = () => {
+  const handleAddProvider = (type: ProviderType) => {
+    const id = `${type}-${Date.now()}`;
+    addProvider({
+      id,
+      name: type === "anthropic" ? "Anthropic (eigene URL)" : "Eigener Server",
+      type,
+      baseUrl: type === "anthropic" ? "https://api.anthropic.com" : "http://localhost:8080/v1",
+      models: [],
+    });
+  };
+
+  const resetMcpForm = () => {
+    setNewMcpServer({
+      name: "",
+      type: "http",
+      url: "",
+      command: "",
+      args: [],
+      enabled: true,
+    });
+    setNewMcpHeaders("");
+    setNewMcpArgs("");
+    setNewMcpEnv("");
+    setNewMcpSecrets([]);
+    setMcpFormError(null);
+  };
+
+  // Prefill the form from one of the example servers
+  const applyMcpTemplate = (templateId: string) => {
+    const template = EXAMPLE_MCP_SERVERS.find(t => t.id === templateId);
+    if (!template) return;
+    
+    resetMcpForm();
+    setNewMcpServer({ ...template, enabled: true });
+    setNewMcpArgs(formatCommandLine(template.args || []));
+    setNewMcpSecrets((template.secretEnv || []).map(name => ({ name, value: "" })));
+  };
+
+  const handleAddMcpServer = async () => {
     if (!newMcpServer.name) return;
     
+    const isHttp = newMcpServer.type !== "stdio";
+    const headers = parseHeaders(newMcpHeaders);
+    const env = parseEnv(newMcpEnv);
+    const secrets = newMcpSecrets.filter(s => s.name.trim());
+    
+    if (!isHttp) {
+      const commandError = validateStdioCommand(newMcpServer.command || "");
+      if (commandError) {
+        setMcpFormError(commandError);
+        return;
+      }
+    }
+
+    let args: string[] = [];
+    try {
+      args = parseCommandLine(newMcpArgs);
+    } catch (error) {
+      setMcpFormError(`Argumente: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    
     const server: McpServerConfig = {
       id: `mcp-${Date.now()}`,
       name: newMcpServer.name || "",
-      type: newMcpServer.type || "sse",
-      url: newMcpServer.type === "sse" ? newMcpServer.url : undefined,
-      command: newMcpServer.type === "stdio" ? newMcpServer.command : undefined,
-      args: newMcpServer.type === "stdio" ? (newMcpServer.args || []) : undefined,
+      type: newMcpServer.type || "http",
+      url: isHttp ? newMcpServer.url : undefined,
+      headers: isHttp && Object.keys(headers).length > 0 ? headers : undefined,
+      command: newMcpServer.type === "stdio" ? newMcpServer.command?.trim() : undefined,
+      args: newMcpServer.type === "stdio" ? args : undefined,
+      env: !isHttp && Object.keys(env).length > 0 ? env : undefined,
+      secretEnv: !isHttp && secrets.length > 0 ? secrets.map(s => s.name.trim()) : undefined,
+      cwd: !isHttp && newMcpServer.cwd ? newMcpServer.cwd : undefined,
       enabled: true,
     };
     
+    // Store secret values before the server is added, so the first connect finds them
+    try {
+      for (const secret of secrets) {
+        if (secret.value) {
+          await setSecret(getSecretKey(server.id, secret.name.trim()), secret.value);
+        }
+      }
+    } catch (error) {
+      setMcpFormError(`Geheimnisse konnten nicht gespeichert werden: ${error}`);
+      return;
+    }
+    
     addMcpServer(server);
     setShowAddMcp(false);
-    setNewMcpServer({
-      name: "",
-      type: "sse",
-      url: "",
-      command: "",
-      args: [],
-      enabled: true,
-    });
+    resetMcpForm();
   };
 
   return (
@@ -94,6 +231,17 @@ export default function Settings() {
             <Settings2 className="w-4 h-4" />
             Allgemein
           </button>
+          <button
+            onClick={() => setActiveTab("instructions")}
+            className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors border-b-2 ${
+              activeTab === "instructions"
+                ? "text-dark-accent border-dark-accent"
+                : "text-dark-text-muted border-transparent hover:text-dark-text"
+            }`}
+          >
+            <FileText className="w-4 h-4" />
+            Anweisungen
+          </button>
           <button
             onClick={() => setActiveTab("mcp")}
             className={`flex items-center gap-2 px-4 py-3 text-sm font-medium transition-colors border-b-2 ${
@@ -116,44 +264,96 @@ export default function Settings() {
         <div className="flex-1 overflow-y-auto p-4">
           {activeTab === "general" && (
             <div className="space-y-6">
-              {/* API Key Section */}
+              {/* LLM Providers */}
               <div>
-                <label className="block text-sm font-medium text-dark-text mb-2">
-                  OpenAI API Key
-                </label>
-                <div className="relative">
-                  <input
-                    type={showKey ? "text" : "password"}
-                    value={tempKey}
-                    onChange={(e) => setTempKey(e.target.value)}
-                    placeholder="sk-..."
-                    className="w-full bg-dark-panel border border-dark-border rounded-lg px-3 py-2 pr-20 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent transition-colors"
-                  />
-                  <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+                <h3 className="text-sm font-medium text-dark-text mb-1">KI-Anbieter</h3>
+                <p className="text-xs text-dark-text-muted mb-3">
+                  API-Keys werden lokal gespeichert und nur an den jeweiligen Anbieter gesendet.
+                </p>
+                <div className="space-y-2">
+                  {providers.map((provider) => (
+                    <ProviderPanel
+                      key={provider.id}
+                      provider={provider}
+                      apiKey={tempKeys[provider.id] || ""}
+                      onApiKeyChange={(key) => setTempKeys(keys => ({ ...keys, [provider.id]: key }))}
+                      onUpdate={(updates) => updateProvider(provider.id, updates)}
+                      onRemove={() => removeProvider(provider.id)}
+                    />
+                  ))}
+                </div>
+                <div className="flex items-center gap-2 mt-2">
+                  {(["openai-compatible", "anthropic"] as ProviderType[]).map((type) => (
                     <button
-                      onClick={() => setShowKey(!showKey)}
-                      className="p-1.5 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
-                      title={showKey ? "Verbergen" : "Anzeigen"}
+                      key={type}
+                      onClick={() => handleAddProvider(type)}
+                      className="px-3 py-1.5 text-xs text-dark-text-muted hover:text-dark-text hover:bg-dark-hover rounded-lg transition-colors inline-flex items-center gap-1.5"
                     >
-                      {showKey ? (
-                        <EyeOff className="w-4 h-4" />
-                      ) : (
-                        <Eye className="w-4 h-4" />
-                      )}
+                      <Plus className="w-3.5 h-3.5" />
+                      {PROVIDER_TYPE_LABELS[type]}
                     </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Agent Budget */}
+              <div>
+                <h3 className="text-sm font-medium text-dark-text mb-1">Agent</h3>
+                <p className="text-xs text-dark-text-muted mb-3">
+                  Der Assistent arbeitet in mehreren Schritten (lesen, entscheiden, schreiben), bis er fertig ist
+                  oder eines der Limits erreicht. Danach fasst er zusammen, was noch offen ist.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs text-dark-text-muted mb-1">Max. Schritte</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={agentMaxSteps}
+                      onChange={(e) => setAgentMaxSteps(Math.max(1, Math.min(100, Number(e.target.value) || 1)))}
+                      className="w-full bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-sm text-dark-text focus:outline-none focus:border-dark-accent transition-colors"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-dark-text-muted mb-1">Token-Budget</label>
+                    <input
+                      type="number"
+                      min={1000}
+                      step={10000}
+                      value={agentTokenBudget}
+                      onChange={(e) => setAgentTokenBudget(Math.max(1000, Number(e.target.value) || 1000))}
+                      className="w-full bg-dark-panel border border-dark-border rounded-lg px-3 py-2 text-sm text-dark-text focus:outline-none focus:border-dark-accent transition-colors"
+                    />
                   </div>
                 </div>
-                <p className="text-xs text-dark-text-muted mt-2">
-                  Dein API-Key wird lokal gespeichert und niemals übertragen.
-                  <a
-                    href="https://platform.openai.com/api-keys"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-dark-accent hover:underline ml-1"
-                  >
-                    API-Key erstellen
-                  </a>
+              </div>
+
+              {/* Tool Permissions */}
+              <div>
+                <h3 className="text-sm font-medium text-dark-text mb-1">Berechtigungen</h3>
+                <p className="text-xs text-dark-text-muted mb-3">
+                  Lege fest, welche Tools die KI ohne Nachfrage ausführen darf. Bei „Nachfragen“ erscheint vor
+                  jedem Aufruf eine Bestätigung. Gilt auch für externe Clients des Vault-Servers.
                 </p>
+                <div className="space-y-1">
+                  {[...getVaultTools().map(tool => tool.name), MCP_TOOLS_KEY].map((toolName) => (
+                    <div key={toolName} className="flex items-center justify-between gap-3">
+                      <span className="text-xs font-mono text-dark-text">
+                        {toolName === MCP_TOOLS_KEY ? "MCP-Tools (Standard)" : toolName}
+                      </span>
+                      <select
+                        value={getToolPermission(toolPermissions, toolName)}
+                        onChange={(e) => setToolPermission(toolName, e.target.value as ToolPermission)}
+                        className="bg-dark-panel border border-dark-border rounded-lg px-2 py-1 text-xs text-dark-text focus:outline-none focus:border-dark-accent transition-colors"
+                      >
+                        {(Object.keys(TOOL_PERMISSION_LABELS) as ToolPermission[]).map((permission) => (
+                          <option key={permission} value={permission}>{TOOL_PERMISSION_LABELS[permission]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
               </div>
 
               {/* About Section */}
@@ -167,6 +367,8 @@ export default function Settings() {
             </div>
           )}
 
+          {activeTab === "instructions" && <InstructionsPanel />}
+
           {activeTab === "mcp" && (
             <div className="space-y-4">
               {/* Info */}
@@ -177,6 +379,9 @@ export default function Settings() {
                 </p>
               </div>
 
+              {/* Vault Server */}
+              <VaultServerPanel />
+
               {/* Server List */}
               <div className="space-y-2">
                 {mcpServers.length === 0 && !showAddMcp ? (
@@ -196,34 +401,12 @@ export default function Settings() {
                 ) : (
                   <>
                     {mcpServers.map((server) => (
-                      <div
+                      <McpServerPanel
                         key={server.id}
-                        className="flex items-center gap-3 p-3 bg-dark-panel rounded-lg border border-dark-border"
-                      >
-                        <Server className={`w-5 h-5 ${server.enabled ? "text-green-400" : "text-dark-text-muted"}`} />
-                        <div className="flex-1 min-w-0">
-                          <div className="text-sm font-medium text-dark-text">{server.name}</div>
-                          <div className="text-xs text-dark-text-muted truncate">
-                            {server.type === "sse" ? server.url : `${server.command} ${server.args?.join(" ")}`}
-                          </div>
-                        </div>
-                        <label className="flex items-center gap-2 cursor-pointer">
-                          <input
-                            type="checkbox"
-                            checked={server.enabled}
-                            onChange={(e) => updateMcpServer(server.id, { enabled: e.target.checked })}
-                            className="w-4 h-4 rounded border-dark-border bg-dark-panel text-dark-accent focus:ring-dark-accent"
-                          />
-                          <span className="text-xs text-dark-text-muted">Aktiv</span>
-                        </label>
-                        <button
-                          onClick={() => removeMcpServer(server.id)}
-                          className="p-1.5 rounded hover:bg-dark-hover text-dark-text-muted hover:text-red-400 transition-colors"
-                          title="Entfernen"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
+                        server={server}
+                        onUpdate={(updates) => updateMcpServer(server.id, updates)}
+                        onRemove={() => removeMcpServer(server.id)}
+                      />
                     ))}
                     
                     {!showAddMcp && (
@@ -241,7 +424,19 @@ export default function Settings() {
                 {/* Add Server Form */}
                 {showAddMcp && (
                   <div className="p-4 bg-dark-panel rounded-lg border border-dark-accent space-y-4">
-                    <h4 className="text-sm font-medium text-white">Neuer MCP-Server</h4>
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-sm font-medium text-white">Neuer MCP-Server</h4>
+                      <select
+                        value=""
+                        onChange={(e) => applyMcpTemplate(e.target.value)}
+                        className="bg-dark-bg border border-dark-border rounded px-2 py-1 text-xs text-dark-text focus:outline-none focus:border-dark-accent"
+                      >
+                        <option value="">Vorlage wählen...</option>
+                        {EXAMPLE_MCP_SERVERS.map(template => (
+                          <option key={template.id} value={template.id}>{template.name}</option>
+                        ))}
+                      </select>
+                    </div>
                     
                     <div>
                       <label className="block text-xs text-dark-text-muted mb-1">Name</label>
@@ -257,6 +452,16 @@ export default function Settings() {
                     <div>
                       <label className="block text-xs text-dark-text-muted mb-1">Typ</label>
                       <div className="flex gap-2">
+                        <button
+                          onClick={() => setNewMcpServer(s => ({ ...s, type: "http" }))}
+                          className={`flex-1 px-3 py-2 rounded text-sm transition-colors ${
+                            newMcpServer.type === "http"
+                              ? "bg-dark-accent text-white"
+                              : "bg-dark-bg border border-dark-border text-dark-text-muted hover:text-dark-text"
+                          }`}
+                        >
+                          Streamable HTTP
+                        </button>
                         <button
                           onClick={() => setNewMcpServer(s => ({ ...s, type: "sse" }))}
                           className={`flex-1 px-3 py-2 rounded text-sm transition-colors ${
@@ -265,7 +470,7 @@ export default function Settings() {
                               : "bg-dark-bg border border-dark-border text-dark-text-muted hover:text-dark-text"
                           }`}
                         >
-                          SSE (HTTP)
+                          SSE (Legacy)
                         </button>
                         <button
                           onClick={() => setNewMcpServer(s => ({ ...s, type: "stdio" }))}
@@ -280,55 +485,136 @@ export default function Settings() {
                       </div>
                     </div>
 
-                    {newMcpServer.type === "sse" ? (
-                      <div>
-                        <label className="block text-xs text-dark-text-muted mb-1">Server URL</label>
-                        <input
-                          type="text"
-                          value={newMcpServer.url}
-                          onChange={(e) => setNewMcpServer(s => ({ ...s, url: e.target.value }))}
-                          placeholder="http://localhost:3001"
-                          className="w-full bg-dark-bg border border-dark-border rounded px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
-                        />
-                      </div>
+                    {newMcpServer.type !== "stdio" ? (
+                      <>
+                        <div>
+                          <label className="block text-xs text-dark-text-muted mb-1">Server URL</label>
+                          <input
+                            type="text"
+                            value={newMcpServer.url}
+                            onChange={(e) => setNewMcpServer(s => ({ ...s, url: e.target.value }))}
+                            placeholder={newMcpServer.type === "sse" ? "http://localhost:3001/sse" : "http://localhost:3001/mcp"}
+                            className="w-full bg-dark-bg border border-dark-border rounded px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-dark-text-muted mb-1">Header (optional, einer pro Zeile)</label>
+                          <textarea
+                            value={newMcpHeaders}
+                            onChange={(e) => setNewMcpHeaders(e.target.value)}
+                            placeholder="Authorization: Bearer ..."
+                            rows={2}
+                            className="w-full bg-dark-bg border border-dark-border rounded px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent resize-none font-mono"
+                          />
+                        </div>
+                      </>
                     ) : (
                       <>
                         <div>
-                          <label className="block text-xs text-dark-text-muted mb-1">Befehl</label>
+                          <label className="block text-xs text-dark-text-muted mb-1">Befehl ({STDIO_COMMANDS.join(", ")})</label>
                           <input
                             type="text"
                             value={newMcpServer.command}
-                            onChange={(e) => setNewMcpServer(s => ({ ...s, command: e.target.value }))}
+                            onChange={(e) => {
+                              setNewMcpServer(s => ({ ...s, command: e.target.value }));
+                              setMcpFormError(null);
+                            }}
                             placeholder="npx"
                             className="w-full bg-dark-bg border border-dark-border rounded px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
                           />
                         </div>
                         <div>
-                          <label className="block text-xs text-dark-text-muted mb-1">Argumente (kommagetrennt)</label>
+                          <label className="block text-xs text-dark-text-muted mb-1">Argumente (wie in der Shell, Leerzeichen in "Anführungszeichen")</label>
+                          <input
+                            type="text"
+                            value={newMcpArgs}
+                            onChange={(e) => {
+                              setNewMcpArgs(e.target.value);
+                              setMcpFormError(null);
+                            }}
+                            placeholder='-y @modelcontextprotocol/server-filesystem "/Pfad mit Leerzeichen"'
+                            className="w-full bg-dark-bg border border-dark-border rounded px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent font-mono"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-dark-text-muted mb-1">Arbeitsverzeichnis (optional)</label>
                           <input
                             type="text"
-                            value={newMcpServer.args?.join(", ")}
-                            onChange={(e) => setNewMcpServer(s => ({ 
-                              ...s, 
-                              args: e.target.value.split(",").map(a => a.trim()).filter(Boolean)
-                            }))}
-                            placeholder="-y, @anthropic/mcp-server-filesystem"
+                            value={newMcpServer.cwd || ""}
+                            onChange={(e) => setNewMcpServer(s => ({ ...s, cwd: e.target.value }))}
+                            placeholder="/Users/name/projekte"
                             className="w-full bg-dark-bg border border-dark-border rounded px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
                           />
                         </div>
+                        <div>
+                          <label className="block text-xs text-dark-text-muted mb-1">Umgebungsvariablen (optional, NAME=Wert pro Zeile)</label>
+                          <textarea
+                            value={newMcpEnv}
+                            onChange={(e) => setNewMcpEnv(e.target.value)}
+                            placeholder="LOG_LEVEL=info"
+                            rows={2}
+                            className="w-full bg-dark-bg border border-dark-border rounded px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent resize-none font-mono"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-dark-text-muted mb-1">
+                            Geheimnisse (API-Tokens, werden separat und nicht im localStorage gespeichert)
+                          </label>
+                          <div className="space-y-2">
+                            {newMcpSecrets.map((secret, index) => (
+                              <div key={index} className="flex gap-2">
+                                <input
+                                  type="text"
+                                  value={secret.name}
+                                  onChange={(e) => setNewMcpSecrets(list => list.map((s, i) => i === index ? { ...s, name: e.target.value } : s))}
+                                  placeholder="GITHUB_PERSONAL_ACCESS_TOKEN"
+                                  className="flex-1 min-w-0 bg-dark-bg border border-dark-border rounded px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent font-mono"
+                                />
+                                <input
+                                  type="password"
+                                  value={secret.value}
+                                  onChange={(e) => setNewMcpSecrets(list => list.map((s, i) => i === index ? { ...s, value: e.target.value } : s))}
+                                  placeholder="Wert"
+                                  className="flex-1 min-w-0 bg-dark-bg border border-dark-border rounded px-3 py-2 text-sm text-dark-text placeholder-dark-text-muted focus:outline-none focus:border-dark-accent"
+                                />
+                                <button
+                                  onClick={() => setNewMcpSecrets(list => list.filter((_, i) => i !== index))}
+                                  className="p-2 rounded hover:bg-dark-hover text-dark-text-muted hover:text-red-400 transition-colors"
+                                  title="Entfernen"
+                                >
+                                  <X className="w-4 h-4" />
+                                </button>
+                              </div>
+                            ))}
+                            <button
+                              onClick={() => setNewMcpSecrets(list => [...list, { name: "", value: "" }])}
+                              className="flex items-center gap-1 text-xs text-dark-text-muted hover:text-dark-text transition-colors"
+                            >
+                              <Plus className="w-3 h-3" />
+                              Geheimnis hinzufügen
+                            </button>
+                          </div>
+                        </div>
                       </>
                     )}
 
+                    {mcpFormError && (
+                      <p className="text-xs text-red-400">{mcpFormError}</p>
+                    )}
+
                     <div className="flex gap-2 pt-2">
                       <button
-                        onClick={() => setShowAddMcp(false)}
+                        onClick={() => {
+                          setShowAddMcp(false);
+                          resetMcpForm();
+                        }}
                         className="flex-1 px-3 py-2 text-sm text-dark-text-muted hover:text-dark-text transition-colors"
                       >
                         Abbrechen
                       </button>
                       <button
                         onClick={handleAddMcpServer}
-                        disabled={!newMcpServer.name || (newMcpServer.type === "sse" ? !newMcpServer.url : !newMcpServer.command)}
+                        disabled={!newMcpServer.name || (newMcpServer.type === "stdio" ? !newMcpServer.command : !newMcpServer.url)}
                         className="flex-1 px-3 py-2 bg-dark-accent text-white text-sm rounded hover:bg-dark-accent-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         Hinzufügen
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { Share2, Copy, Check, RefreshCw } from "lucide-react";
+import { useAppStore } from "../../stores/appStore";
+import {
+  DEFAULT_VAULT_SERVER_PORT,
+  getVaultServerToken,
+  getVaultServerUrl,
+  regenerateVaultServerToken,
+} from "../../services/vaultServer";
+
+export default function VaultServerPanel() {
+  const {
+    vaultServerEnabled,
+    setVaultServerEnabled,
+    vaultServerPort,
+    setVaultServerPort,
+    currentProject,
+  } = useAppStore();
+
+  const [tempPort, setTempPort] = useState(String(vaultServerPort));
+  const [token, setToken] = useState("");
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!vaultServerEnabled) return;
+    getVaultServerToken().then(setToken).catch((error) => {
+      console.error("Failed to load vault server token:", error);
+    });
+  }, [vaultServerEnabled]);
+
+  const url = getVaultServerUrl(vaultServerPort);
+  const clientConfig = JSON.stringify(
+    {
+      mcpServers: {
+        typegodmd: {
+          command: "npx",
+          args: ["-y", "mcp-remote", url, "--header", `Authorization: Bearer ${token}`],
+        },
+      },
+    },
+    null,
+    2
+  );
+
+  const handlePortBlur = () => {
+    const port = parseInt(tempPort, 10);
+    if (port >= 1024 && port <= 65535) {
+      setVaultServerPort(port);
+    } else {
+      setTempPort(String(vaultServerPort));
+    }
+  };
+
+  const handleCopy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(null), 2000);
+    } catch (error) {
+      console.error("Failed to copy:", error);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    try {
+      setToken(await regenerateVaultServerToken());
+    } catch (error) {
+      console.error("Failed to regenerate token:", error);
+    }
+  };
+
+  return (
+    <div className="bg-dark-panel rounded-lg border border-dark-border p-3 space-y-3">
+      <div className="flex items-center gap-3">
+        <Share2 className={`w-5 h-5 ${vaultServerEnabled ? "text-green-400" : "text-dark-text-muted"}`} />
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-medium text-dark-text">Vault als MCP-Server</div>
+          <div className="text-xs text-dark-text-muted">
+            Andere MCP-Clients können Notizen im geöffneten Projekt lesen, durchsuchen und bearbeiten
+          </div>
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={vaultServerEnabled}
+            onChange={(e) => setVaultServerEnabled(e.target.checked)}
+            className="w-4 h-4 rounded border-dark-border bg-dark-panel text-dark-accent focus:ring-dark-accent"
+          />
+          <span className="text-xs text-dark-text-muted">Aktiv</span>
+        </label>
+      </div>
+
+      {vaultServerEnabled && (
+        <div className="space-y-2 border-t border-dark-border pt-3">
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-dark-text-muted w-14">Port</span>
+            <input
+              type="number"
+              value={tempPort}
+              onChange={(e) => setTempPort(e.target.value)}
+              onBlur={handlePortBlur}
+              placeholder={String(DEFAULT_VAULT_SERVER_PORT)}
+              className="w-24 bg-dark-bg border border-dark-border rounded px-2 py-1 text-xs text-dark-text focus:outline-none focus:border-dark-accent"
+            />
+            {!currentProject && (
+              <span className="text-xs text-yellow-400">Startet, sobald ein Projekt geöffnet ist</span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-dark-text-muted w-14">URL</span>
+            <span className="flex-1 min-w-0 text-xs font-mono text-dark-text truncate">{url}</span>
+            <button
+              onClick={() => handleCopy("url", url)}
+              className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+              title="Kopieren"
+            >
+              {copied === "url" ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-dark-text-muted w-14">Token</span>
+            <span className="flex-1 min-w-0 text-xs font-mono text-dark-text truncate">{token}</span>
+            <button
+              onClick={() => handleCopy("token", token)}
+              className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+              title="Kopieren"
+            >
+              {copied === "token" ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              onClick={handleRegenerate}
+              className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+              title="Neuen Token erzeugen"
+            >
+              <RefreshCw className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-dark-text-muted">
+                Konfiguration für Clients mit stdio (z.B. Claude Desktop)
+              </span>
+              <button
+                onClick={() => handleCopy("config", clientConfig)}
+                className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+                title="Kopieren"
+              >
+                {copied === "config" ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+              </button>
+            </div>
+            <pre className="p-2 bg-dark-bg rounded text-xs text-dark-text-muted font-mono overflow-x-auto">
+              {clientConfig}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
-import { Settings, GitGraph, X, Search } from "lucide-react";
+import { Settings, GitGraph, X, Search, HeartPulse } from "lucide-react";
 import { useAppStore } from "../stores/appStore";
 import SearchDialog from "./Search/SearchDialog";
+import VaultHealthDialog from "./VaultHealthDialog";
 
 export default function TitleBar() {
   const {
@@ -12,6 +13,7 @@ export default function TitleBar() {
     setShowSettings,
   } = useAppStore();
   const [showSearch, setShowSearch] = useState(false);
+  const [showHealth, setShowHealth] = useState(false);
 
   const handleCloseProject = () => {
     setCurrentProject(null);
@@ -74,6 +76,15 @@ export default function TitleBar() {
 
         {/* Right: Actions */}
         <div className="flex items-center gap-1">
+          {currentProject && (
+            <button
+              onClick={() => setShowHealth(true)}
+              className="p-2 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+              title="Vault-Zustand"
+            >
+              <HeartPulse className="w-4 h-4" />
+            </button>
+          )}
           <button
             onClick={() => setShowGraphView(!showGraphView)}
             className={`p-2 rounded transition-colors ${
@@ -97,6 +108,9 @@ export default function TitleBar() {
 
       {/* Search Dialog */}
       <SearchDialog isOpen={showSearch} onClose={() => setShowSearch(false)} />
+
+      {/* Vault Health Dialog */}
+      <VaultHealthDialog isOpen={showHealth} onClose={() => setShowHealth(false)} />
     </>
   );
 }
@@ -0,0 +1,56 @@
+import { ShieldAlert } from "lucide-react";
+import { useAppStore } from "../stores/appStore";
+
+// Shown when a tool with the "ask" policy is called by the chat or an MCP client
+export default function ToolConfirmDialog() {
+  const { toolConfirmation, resolveToolConfirmation, setToolPermission } = useAppStore();
+
+  if (!toolConfirmation) return null;
+
+  const { toolName, args } = toolConfirmation;
+
+  const handleAlwaysAllow = () => {
+    setToolPermission(toolName, "allow");
+    resolveToolConfirmation(true);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-dark-sidebar border border-dark-border rounded-lg shadow-2xl w-full max-w-md mx-4">
+        <div className="flex items-center gap-2 p-4 border-b border-dark-border">
+          <ShieldAlert className="w-5 h-5 text-yellow-400" />
+          <h2 className="text-lg font-medium text-white">KI-Aktion bestätigen</h2>
+        </div>
+        <div className="p-4 space-y-3">
+          <p className="text-dark-text">
+            Die KI möchte das Tool <span className="font-mono text-dark-accent">{toolName}</span> ausführen.
+          </p>
+          <pre className="p-2 bg-dark-bg rounded text-xs text-dark-text-muted font-mono max-h-[200px] overflow-auto whitespace-pre-wrap break-all">
+            {JSON.stringify(args, null, 2)}
+          </pre>
+        </div>
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-dark-border">
+          <button
+            onClick={() => resolveToolConfirmation(false)}
+            className="px-4 py-2 text-sm text-dark-text-muted hover:text-dark-text transition-colors"
+          >
+            Ablehnen
+          </button>
+          <button
+            onClick={handleAlwaysAllow}
+            className="px-4 py-2 text-sm text-dark-text-muted hover:text-dark-text transition-colors"
+            title="Dieses Tool künftig ohne Nachfrage ausführen"
+          >
+            Immer erlauben
+          </button>
+          <button
+            onClick={() => resolveToolConfirmation(true)}
+            className="px-4 py-2 text-white text-sm rounded-lg bg-dark-accent hover:bg-dark-accent-hover transition-colors"
+          >
+            Erlauben
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
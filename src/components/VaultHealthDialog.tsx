@@ -0,0 +1,315 @@
+import { useState, useEffect, type ReactNode } from "react";
+import {
+  X,
+  HeartPulse,
+  Loader2,
+  RefreshCw,
+  FileText,
+  File,
+  Unlink,
+  Trash2,
+  RotateCcw,
+  FilePlus,
+  CornerDownRight,
+} from "lucide-react";
+import { useAppStore } from "../stores/appStore";
+import { buildHealthReport, type LinkProblem, type VaultHealthReport } from "../services/vaultHealth";
+import { getNoteTitle, subscribeToLinkIndex } from "../services/linkIndex";
+import { moveToTrash, restoreFromTrash } from "../services/trash";
+import ConfirmDialog from "./ConfirmDialog";
+
+interface VaultHealthDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface SectionProps {
+  title: string;
+  count: number;
+  emptyText: string;
+  children: ReactNode;
+}
+
+function Section({ title, count, emptyText, children }: SectionProps) {
+  return (
+    <div>
+      <h3 className="flex items-center gap-2 text-sm font-medium text-dark-text mb-2">
+        {title}
+        <span className={`text-xs ${count > 0 ? "text-yellow-400" : "text-dark-text-muted"}`}>({count})</span>
+      </h3>
+      {count === 0 ? (
+        <p className="text-xs text-dark-text-muted mb-2">{emptyText}</p>
+      ) : (
+        <div className="space-y-1">{children}</div>
+      )}
+    </div>
+  );
+}
+
+const actionClass =
+  "flex items-center gap-1 px-2 py-1 text-xs rounded text-dark-text-muted hover:text-dark-text hover:bg-dark-active transition-colors";
+
+// Broken links, links into the trash, orphan notes and unused attachments
+// of the vault, each with quick fixes
+export default function VaultHealthDialog({ isOpen, onClose }: VaultHealthDialogProps) {
+  const {
+    currentProject,
+    openFile,
+    openFileAt,
+    closeFile,
+    refreshFileTree,
+    retargetLink,
+    createLinkedNote,
+  } = useAppStore();
+  const [report, setReport] = useState<VaultHealthReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fileToDelete, setFileToDelete] = useState<string | null>(null);
+
+  const projectPath = currentProject?.path;
+  const toRelative = (path: string) =>
+    projectPath && path.startsWith(`${projectPath}/`) ? path.slice(projectPath.length + 1) : path;
+
+  const loadReport = async () => {
+    if (!projectPath) return;
+    setIsLoading(true);
+    try {
+      setReport(await buildHealthReport(projectPath));
+    } catch (err) {
+      console.error("Failed to build vault health report:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    loadReport();
+    // Fixes update the index, the report follows
+    return subscribeToLinkIndex(() => {
+      if (projectPath) buildHealthReport(projectPath).then(setReport).catch(() => {});
+    });
+  }, [isOpen, projectPath]);
+
+  // Run a quick fix and reload the report, errors are shown in the dialog
+  const runFix = async (fix: () => Promise<void>) => {
+    setError(null);
+    try {
+      await fix();
+      await loadReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRetarget = (problem: LinkProblem, targetPath: string) =>
+    runFix(() => retargetLink(problem, targetPath));
+
+  const handleCreate = (path: string) =>
+    runFix(async () => {
+      await createLinkedNote(path);
+    });
+
+  // The trash is flat, so the file goes back to where the link expects it
+  const handleRestore = (problem: LinkProblem) =>
+    runFix(async () => {
+      if (!projectPath || !problem.trashedPath) return;
+      const folder = problem.expectedPath
+        ? problem.expectedPath.substring(0, problem.expectedPath.lastIndexOf("/"))
+        : projectPath;
+      const { createDirectory } = await import("../services/fileSystem");
+      await createDirectory(folder);
+      await restoreFromTrash(problem.trashedPath, projectPath, folder);
+      await refreshFileTree();
+    });
+
+  const handleDelete = async () => {
+    const path = fileToDelete;
+    setFileToDelete(null);
+    if (!path || !projectPath) return;
+    await runFix(async () => {
+      await moveToTrash(path, projectPath);
+      closeFile(path);
+      await refreshFileTree();
+    });
+  };
+
+  const openProblem = (problem: LinkProblem) => {
+    openFileAt(problem.sourcePath, problem.link.line);
+    onClose();
+  };
+
+  const openPath = (path: string) => {
+    openFile(path);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  if (fileToDelete) {
+    return (
+      <ConfirmDialog
+        isOpen={true}
+        title="In den Papierkorb verschieben"
+        message={`Möchtest du "${toRelative(fileToDelete)}" in den Papierkorb verschieben?`}
+        confirmText="Löschen"
+        danger={true}
+        onConfirm={handleDelete}
+        onCancel={() => setFileToDelete(null)}
+      />
+    );
+  }
+
+  const renderProblem = (problem: LinkProblem, inTrash: boolean) => (
+    <div
+      key={`${problem.sourcePath}-${problem.link.from}`}
+      className="p-2 bg-dark-panel rounded-lg hover:bg-dark-hover transition-colors"
+    >
+      <button
+        type="button"
+        onClick={() => openProblem(problem)}
+        className="w-full text-left"
+        title={`Zeile ${problem.link.line} öffnen`}
+      >
+        <div className="flex items-center gap-2 text-sm text-dark-text">
+          <FileText className="w-4 h-4 text-blue-400 flex-shrink-0" />
+          <span className="truncate">{getNoteTitle(problem.sourcePath)}</span>
+          <span className="text-xs text-dark-text-muted flex-shrink-0">Zeile {problem.link.line}</span>
+          <span className="ml-auto font-mono text-xs text-red-400 truncate max-w-[45%]">{problem.text}</span>
+        </div>
+        <p className="mt-1 ml-6 text-xs text-dark-text-muted line-clamp-2">{problem.context}</p>
+      </button>
+      <div className="flex flex-wrap items-center gap-1 mt-1 ml-5">
+        {inTrash && (
+          <button
+            onClick={() => handleRestore(problem)}
+            className={actionClass}
+            title={`"${toRelative(problem.trashedPath!)}" wiederherstellen`}
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Wiederherstellen
+          </button>
+        )}
+        {problem.suggestion && (
+          <button
+            onClick={() => handleRetarget(problem, problem.suggestion!)}
+            className={actionClass}
+            title={`Link auf "${toRelative(problem.suggestion)}" ändern`}
+          >
+            <CornerDownRight className="w-3.5 h-3.5" />
+            {getNoteTitle(problem.suggestion)}
+          </button>
+        )}
+        {!inTrash && problem.expectedPath?.toLowerCase().endsWith(".md") && (
+          <button
+            onClick={() => handleCreate(problem.expectedPath!)}
+            className={actionClass}
+            title={`"${toRelative(problem.expectedPath)}" anlegen`}
+          >
+            <FilePlus className="w-3.5 h-3.5" />
+            Notiz anlegen
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderFile = (path: string, isNote: boolean) => (
+    <div
+      key={path}
+      className="flex items-center gap-2 p-2 bg-dark-panel rounded-lg hover:bg-dark-hover transition-colors group"
+    >
+      <button
+        type="button"
+        onClick={() => openPath(path)}
+        className="flex-1 min-w-0 flex items-center gap-2 text-left text-sm text-dark-text"
+        title={toRelative(path)}
+      >
+        {isNote ? (
+          <FileText className="w-4 h-4 text-blue-400 flex-shrink-0" />
+        ) : (
+          <File className="w-4 h-4 text-dark-text-muted flex-shrink-0" />
+        )}
+        <span className="truncate">{toRelative(path)}</span>
+      </button>
+      <button
+        onClick={() => setFileToDelete(path)}
+        className="p-1 rounded text-dark-text-muted hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+        title="In den Papierkorb verschieben"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-dark-sidebar border border-dark-border rounded-lg shadow-2xl w-[640px] max-w-[90vw] max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-dark-border">
+          <div className="flex items-center gap-3">
+            <HeartPulse className="w-5 h-5 text-dark-accent" />
+            <h2 className="text-lg font-medium text-white">Vault-Zustand</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={loadReport}
+              disabled={isLoading}
+              className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors disabled:opacity-50"
+              title="Aktualisieren"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded hover:bg-dark-hover text-dark-text-muted hover:text-dark-text transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {error && <div className="text-sm text-red-400">{error}</div>}
+          {!report ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-dark-text-muted" />
+            </div>
+          ) : (
+            <>
+              <Section title="Defekte Links" count={report.brokenLinks.length} emptyText="Alle Links führen zu einer Datei.">
+                {report.brokenLinks.map((problem) => renderProblem(problem, false))}
+              </Section>
+              <Section title="Links in den Papierkorb" count={report.trashLinks.length} emptyText="Kein Link zeigt auf eine gelöschte Datei.">
+                {report.trashLinks.map((problem) => renderProblem(problem, true))}
+              </Section>
+              <Section title="Verwaiste Notizen" count={report.orphans.length} emptyText="Jede Notiz ist mit einer anderen verknüpft.">
+                {report.orphans.map((path) => renderFile(path, true))}
+              </Section>
+              <Section title="Unbenutzte Anhänge" count={report.unusedAttachments.length} emptyText="Jeder Anhang wird in einer Notiz verwendet.">
+                {report.unusedAttachments.map((path) => renderFile(path, false))}
+              </Section>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-dark-border flex items-center justify-between">
+          <span className="flex items-center gap-2 text-xs text-dark-text-muted">
+            <Unlink className="w-3.5 h-3.5" />
+            Links in Codeblöcken und im Frontmatter werden nicht geprüft.
+          </span>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-dark-text-muted hover:text-dark-text transition-colors"
+          >
+            Schließen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
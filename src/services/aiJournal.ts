@@ -0,0 +1,157 @@
+/**
+ * Journal of the file operations the assistant made directly (without
+ * diff mode), stored per project in `.typegodmd/journal.json`.
+ * Every entry keeps what is needed to revert it: the previous content,
+ * the old path or the location in the trash.
+ */
+
+import {
+  readTextFile,
+  writeTextFile,
+  fileExists,
+  createDirectory,
+  renameFile,
+  readDirectory,
+  deleteDirectory,
+} from "./fileSystem";
+import { moveToTrash } from "./trash";
+import type { FileOperation } from "./openai";
+
+const JOURNAL_FOLDER = ".typegodmd";
+const JOURNAL_FILE = "journal.json";
+// Older entries are dropped so the file doesn't grow forever
+const MAX_ENTRIES = 500;
+
+export interface JournalEntry extends FileOperation {
+  id: string;
+  // Chat turn (or external MCP call) the operation belongs to
+  turnId: string;
+  timestamp: string;
+  undone?: boolean;
+}
+
+function getJournalPath(projectPath: string): string {
+  return `${projectPath}/${JOURNAL_FOLDER}/${JOURNAL_FILE}`;
+}
+
+export async function loadJournal(projectPath: string): Promise<JournalEntry[]> {
+  const journalPath = getJournalPath(projectPath);
+  if (!(await fileExists(journalPath))) return [];
+
+  try {
+    return JSON.parse(await readTextFile(journalPath)) as JournalEntry[];
+  } catch (error) {
+    console.error("Failed to load AI journal:", error);
+    return [];
+  }
+}
+
+export async function saveJournal(projectPath: string, entries: JournalEntry[]): Promise<void> {
+  await createDirectory(`${projectPath}/${JOURNAL_FOLDER}`);
+  await writeTextFile(getJournalPath(projectPath), JSON.stringify(entries.slice(-MAX_ENTRIES), null, 2));
+}
+
+export function createJournalEntry(turnId: string, operation: FileOperation): JournalEntry {
+  return {
+    ...operation,
+    id: crypto.randomUUID(),
+    turnId,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+function relative(path: string, projectPath: string): string {
+  return path.startsWith(`${projectPath}/`) ? path.slice(projectPath.length + 1) : path;
+}
+
+// Reason why an entry can't be reverted anymore, null if it can
+async function checkRevertible(entry: JournalEntry, projectPath: string): Promise<string | null> {
+  const path = relative(entry.path, projectPath);
+
+  switch (entry.kind) {
+    case "create":
+    case "update": {
+      if (!(await fileExists(entry.path))) return `"${path}" existiert nicht mehr`;
+      const content = await readTextFile(entry.path);
+      return content === entry.newContent ? null : `"${path}" wurde seitdem geändert`;
+    }
+    case "create_folder": {
+      if (!(await fileExists(entry.path))) return null;
+      const children = await readDirectory(entry.path);
+      return children.length === 0 ? null : `Ordner "${path}" ist nicht mehr leer`;
+    }
+    case "rename":
+    case "move": {
+      if (!entry.newPath || !(await fileExists(entry.newPath))) {
+        return `"${relative(entry.newPath || "", projectPath)}" existiert nicht mehr`;
+      }
+      return (await fileExists(entry.path)) ? `"${path}" ist wieder belegt` : null;
+    }
+    case "delete": {
+      if (!entry.trashPath || !(await fileExists(entry.trashPath))) {
+        return `"${path}" ist nicht mehr im Papierkorb`;
+      }
+      return (await fileExists(entry.path)) ? `"${path}" ist wieder belegt` : null;
+    }
+  }
+}
+
+async function revertEntry(entry: JournalEntry, projectPath: string): Promise<void> {
+  switch (entry.kind) {
+    case "create":
+      // Created files go to the trash instead of being deleted for good
+      await moveToTrash(entry.path, projectPath);
+      return;
+    case "update":
+      await writeTextFile(entry.path, entry.previousContent ?? "");
+      return;
+    case "create_folder":
+      if (await fileExists(entry.path)) {
+        await deleteDirectory(entry.path);
+      }
+      return;
+    case "rename":
+    case "move":
+      await renameFile(entry.newPath!, entry.path);
+      return;
+    case "delete":
+      await renameFile(entry.trashPath!, entry.path);
+      return;
+  }
+}
+
+function touches(entry: JournalEntry, path: string): boolean {
+  return [entry.path, entry.newPath].some(p => p && (p === path || p.startsWith(`${path}/`)));
+}
+
+/**
+ * Revert the given entries (in journal order), newest first. All entries
+ * are checked before anything is touched, so a conflict leaves the vault
+ * as is. A write that fails midway stops the undo; `onReverted` is called
+ * for every entry reverted until then, so the caller can mark it.
+ */
+export async function undoEntries(
+  entries: JournalEntry[],
+  projectPath: string,
+  onReverted?: (entry: JournalEntry) => void
+): Promise<void> {
+  const ordered = entries.filter(entry => !entry.undone).reverse();
+
+  // An entry whose path a newer entry touched (e.g. create, then rename) is
+  // only valid after that one is reverted, so the newer check covers it
+  const conflicts: string[] = [];
+  for (const entry of ordered) {
+    const newer = ordered.slice(0, ordered.indexOf(entry));
+    if (newer.some(n => touches(n, entry.path) || (entry.newPath && touches(n, entry.newPath)))) continue;
+    const conflict = await checkRevertible(entry, projectPath);
+    if (conflict) conflicts.push(conflict);
+  }
+  if (conflicts.length > 0) {
+    throw new Error(`Rückgängig nicht möglich: ${conflicts.join(", ")}.`);
+  }
+
+  for (const entry of ordered) {
+    await revertEntry(entry, projectPath);
+    onReverted?.(entry);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Persistent chat threads, stored per project as JSON files in
+ * `.typegodmd/chats/` so the history travels with the vault.
+ * The folder is hidden from the file explorer like all dot-folders.
+ */
+
+import { readTextFile, writeTextFile, fileExists, createDirectory, readDirectory, deleteFile } from "./fileSystem";
+import type { ChangeSet, ChatMessage } from "../stores/appStore";
+
+const CHATS_FOLDER = ".typegodmd/chats";
+const CHANGE_SETS_FILE = ".typegodmd/change-sets.json";
+const MAX_TITLE_LENGTH = 60;
+// Older replies lose their review list, their messages stay
+const MAX_CHANGE_SETS = 200;
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+  forkedFrom?: string;
+}
+
+function getChatsPath(projectPath: string): string {
+  return `${projectPath}/${CHATS_FOLDER}`;
+}
+
+function getThreadPath(projectPath: string, threadId: string): string {
+  return `${getChatsPath(projectPath)}/${threadId}.json`;
+}
+
+// Timestamps are stored as ISO strings and revived on load
+function parseThread(json: string): ChatThread {
+  const thread = JSON.parse(json) as ChatThread;
+  return {
+    ...thread,
+    messages: thread.messages.map(message => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+    })),
+  };
+}
+
+/**
+ * Load all threads of a project, most recently updated first
+ */
+export async function loadThreads(projectPath: string): Promise<ChatThread[]> {
+  const chatsPath = getChatsPath(projectPath);
+  if (!(await fileExists(chatsPath))) return [];
+
+  const threads: ChatThread[] = [];
+  const entries = await readDirectory(chatsPath);
+
+  for (const entry of entries) {
+    if (entry.isDirectory || !entry.name.endsWith(".json")) continue;
+    try {
+      threads.push(parseThread(await readTextFile(entry.path)));
+    } catch (error) {
+      console.error(`Failed to load chat thread ${entry.name}:`, error);
+    }
+  }
+
+  return threads.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function saveThread(projectPath: string, thread: ChatThread): Promise<void> {
+  await createDirectory(getChatsPath(projectPath));
+  await writeTextFile(getThreadPath(projectPath, thread.id), JSON.stringify(thread, null, 2));
+}
+
+export async function deleteThread(projectPath: string, threadId: string): Promise<void> {
+  const threadPath = getThreadPath(projectPath, threadId);
+  if (await fileExists(threadPath)) {
+    await deleteFile(threadPath);
+  }
+}
+
+/**
+ * Review state of the change sets the saved messages refer to. The
+ * proposed edits themselves are not stored.
+ */
+export async function loadChangeSets(projectPath: string): Promise<ChangeSet[]> {
+  const path = `${projectPath}/${CHANGE_SETS_FILE}`;
+  if (!(await fileExists(path))) return [];
+
+  const changeSets = JSON.parse(await readTextFile(path)) as ChangeSet[];
+  return changeSets.map(cs => ({ ...cs, createdAt: new Date(cs.createdAt) }));
+}
+
+export async function saveChangeSets(projectPath: string, changeSets: ChangeSet[]): Promise<void> {
+  await createDirectory(`${projectPath}/.typegodmd`);
+  const kept = changeSets.filter(cs => cs.files.length > 0).slice(-MAX_CHANGE_SETS);
+  await writeTextFile(`${projectPath}/${CHANGE_SETS_FILE}`, JSON.stringify(kept, null, 2));
+}
+
+/**
+ * Title from the first user message
+ */
+export function createThreadTitle(messages: ChatMessage[]): string {
+  const firstUserMessage = messages.find(m => m.role === "user");
+  const text = firstUserMessage?.content.replace(/\s+/g, " ").trim() || "Neuer Chat";
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH)}…` : text;
+}
+
+/**
+ * Find threads whose title or messages contain the query.
+ * Returns the thread together with a short snippet around the first match.
+ */
+export function searchThreads(
+  threads: ChatThread[],
+  query: string
+): { thread: ChatThread; snippet?: string }[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return threads.map(thread => ({ thread }));
+
+  const results: { thread: ChatThread; snippet?: string }[] = [];
+  for (const thread of threads) {
+    if (thread.title.toLowerCase().includes(needle)) {
+      results.push({ thread });
+      continue;
+    }
+
+    for (const message of thread.messages) {
+      const index = message.content.toLowerCase().indexOf(needle);
+      if (index === -1) continue;
+
+      const start = Math.max(0, index - 30);
+      const end = Math.min(message.content.length, index + needle.length + 50);
+      const snippet = `${start > 0 ? "…" : ""}${message.content.slice(start, end).replace(/\s+/g, " ")}${end < message.content.length ? "…" : ""}`;
+      results.push({ thread, snippet });
+      break;
+    }
+  }
+  return results;
+}
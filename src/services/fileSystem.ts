@@ -131,6 +131,19 @@ export async function readDirectoryRecursive(dirPath: string): Promise<FileNode[
   return readDirectory(dirPath);
 }
 
+// Markdown files of a recursively read tree, flattened
+export function collectMarkdownFiles(nodes: FileNode[]): FileNode[] {
+  const files: FileNode[] = [];
+  for (const node of nodes) {
+    if (node.isDirectory && node.children) {
+      files.push(...collectMarkdownFiles(node.children));
+    } else if (node.name.endsWith(".md")) {
+      files.push(node);
+    }
+  }
+  return files;
+}
+
 export async function loadDirectoryChildren(dirPath: string): Promise<FileNode[]> {
   return readDirectory(dirPath);
 }
@@ -239,6 +252,16 @@ export async function fileExists(filePath: string): Promise<boolean> {
   return false;
 }
 
+export async function isSymlink(filePath: string): Promise<boolean> {
+  if (isTauri()) {
+    const { lstat } = await import("@tauri-apps/plugin-fs");
+    const info = await lstat(filePath);
+    return info.isSymlink;
+  }
+  
+  return false;
+}
+
 export async function selectDirectory(): Promise<string | null> {
   if (isTauri()) {
     try {
@@ -0,0 +1,307 @@
+/**
+ * YAML frontmatter of notes as typed properties. Only the flat subset
+ * notes use is understood: scalars, inline and block lists. Changing a
+ * property rewrites just its own lines, everything else in the block is
+ * kept as written.
+ */
+
+export type PropertyType = "text" | "list" | "date" | "number" | "link";
+
+export type PropertyValue = string | number | string[];
+
+export interface NoteProperty {
+  key: string;
+  type: PropertyType;
+  // Lists hold strings, dates stay ISO strings like in the file
+  value: PropertyValue;
+}
+
+// key:value in a search query, e.g. status:draft or tags:"zwei Wörter"
+export interface PropertyFilter {
+  key: string;
+  value: string;
+}
+
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  text: "Text",
+  list: "Liste",
+  date: "Datum",
+  number: "Zahl",
+  link: "Link",
+};
+
+const FRONTMATTER_REGEX = /^---\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+const KEY_REGEX = /^([^\s#\-:][^:]*?):(?:[ \t]+(.*))?$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2})?)?$/;
+const NUMBER_REGEX = /^-?\d+(?:\.\d+)?$/;
+const FILTER_REGEX = /(^|\s)(\p{L}[\p{L}\p{N}_-]*):("[^"]*"|(?!\/\/)\S+)/gu;
+
+interface Entry {
+  key: string;
+  // Line range inside the YAML block, end exclusive
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a note into its frontmatter block (with the `---` lines) and the
+ * rest. `block` is empty if the note has no frontmatter.
+ */
+export function splitFrontmatter(content: string): { block: string; yaml: string | null; body: string } {
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) return { block: "", yaml: null, body: content };
+  return { block: match[0], yaml: match[1] ?? "", body: content.slice(match[0].length) };
+}
+
+function parseEntries(lines: string[]): Entry[] {
+  const entries: Entry[] = [];
+  lines.forEach((line, index) => {
+    const match = line.match(KEY_REGEX);
+    if (!match) return;
+    if (entries.length > 0) entries[entries.length - 1].end = index;
+    entries.push({ key: match[1].trim(), start: index, end: lines.length });
+  });
+  return entries;
+}
+
+function stripComment(text: string): string {
+  return text.replace(/\s+#.*$/, "").trim();
+}
+
+function unquote(text: string): { value: string; quoted: boolean } {
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    try {
+      return { value: JSON.parse(text), quoted: true };
+    } catch {
+      return { value: text.slice(1, -1), quoted: true };
+    }
+  }
+  if (text.length >= 2 && text.startsWith("'") && text.endsWith("'")) {
+    return { value: text.slice(1, -1).replace(/''/g, "'"), quoted: true };
+  }
+  return { value: stripComment(text), quoted: false };
+}
+
+// Items of an inline list like [a, "b, c"]
+function splitInlineList(text: string): string[] {
+  const items: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ",") {
+      items.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items.map(item => unquote(item).value).filter(item => item !== "");
+}
+
+function isLinkValue(value: string): boolean {
+  return /^\[\[[^\]]+\]\]$/.test(value) || /^https?:\/\/\S+$/.test(value);
+}
+
+function parseScalar(text: string): { type: PropertyType; value: PropertyValue } {
+  const { value, quoted } = unquote(text.trim());
+  if (isLinkValue(value)) return { type: "link", value };
+  if (!quoted && NUMBER_REGEX.test(value)) return { type: "number", value: Number(value) };
+  if (!quoted && DATE_REGEX.test(value)) return { type: "date", value };
+  return { type: "text", value };
+}
+
+function parseEntry(lines: string[], entry: Entry): NoteProperty {
+  const inline = (lines[entry.start].match(KEY_REGEX)?.[2] ?? "").trim();
+  const rest = lines.slice(entry.start + 1, entry.end).filter(line => line.trim() && !line.trim().startsWith("#"));
+
+  if (inline.startsWith("[") && stripComment(inline).endsWith("]")) {
+    return { key: entry.key, type: "list", value: splitInlineList(stripComment(inline).slice(1, -1)) };
+  }
+  if (!inline && rest.length > 0 && rest.every(line => /^\s*-(\s|$)/.test(line))) {
+    const items = rest.map(line => unquote(line.replace(/^\s*-\s*/, "")).value).filter(item => item !== "");
+    return { key: entry.key, type: "list", value: items };
+  }
+  // Block scalars and nested values are shown as text
+  if (/^[|>][+-]?$/.test(inline) || (!inline && rest.length > 0)) {
+    const separator = inline.startsWith(">") ? " " : "\n";
+    return { key: entry.key, type: "text", value: rest.map(line => line.trim()).join(separator) };
+  }
+  return { key: entry.key, ...parseScalar(inline) };
+}
+
+/**
+ * Properties from the frontmatter of a note, in the order they are written.
+ */
+export function parseProperties(content: string): NoteProperty[] {
+  const { yaml } = splitFrontmatter(content);
+  if (!yaml) return [];
+  const lines = yaml.split(/\r?\n/);
+  return parseEntries(lines).map(entry => parseEntry(lines, entry));
+}
+
+// A text that YAML would read as something else gets quoted
+function formatScalar(text: string): string {
+  const needsQuotes =
+    text === "" ||
+    text !== text.trim() ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /:(\s|$)|\s#|\n/.test(text) ||
+    /^(true|false|yes|no|null|~)$/i.test(text) ||
+    NUMBER_REGEX.test(text) ||
+    DATE_REGEX.test(text);
+  return needsQuotes ? JSON.stringify(text) : text;
+}
+
+function formatEntry(property: NoteProperty): string[] {
+  const { key, type, value } = property;
+  if (type === "list") {
+    const items = Array.isArray(value) ? value : [String(value)];
+    return items.length === 0 ? [`${key}: []`] : [`${key}:`, ...items.map(item => `  - ${formatScalar(item)}`)];
+  }
+  if (type === "number" && typeof value === "number" && Number.isFinite(value)) {
+    return [`${key}: ${value}`];
+  }
+  if (type === "date" && DATE_REGEX.test(String(value))) {
+    return [`${key}: ${value}`];
+  }
+  // Links are quoted like Obsidian does, [[...]] would be a YAML list
+  const text = Array.isArray(value) ? value.join(", ") : String(value);
+  return [`${key}: ${type === "link" ? JSON.stringify(text) : formatScalar(text)}`];
+}
+
+function replaceFrontmatter(content: string, lines: string[]): string {
+  const { block, body } = splitFrontmatter(content);
+  const newline = content.includes("\r\n") ? "\r\n" : "\n";
+  const kept = lines.join(newline).trim() ? lines : [];
+  if (kept.length === 0) return block ? body.replace(/^\r?\n/, "") : content;
+  return `---${newline}${kept.join(newline)}${newline}---${newline}${body}`;
+}
+
+function validateKey(key: string): string {
+  const name = key.trim();
+  if (!name || name.includes(":") || /^[#-]/.test(name)) {
+    throw new Error(`"${key}" ist kein gültiger Name für eine Eigenschaft.`);
+  }
+  return name;
+}
+
+/**
+ * Set or remove (`null`) a property. A note without frontmatter gets one;
+ * an emptied frontmatter is removed.
+ */
+export function setProperty(content: string, key: string, property: Omit<NoteProperty, "key"> | null): string {
+  const name = validateKey(key);
+  const { yaml } = splitFrontmatter(content);
+  const lines = yaml ? yaml.split(/\r?\n/) : [];
+  const entry = parseEntries(lines).find(e => e.key === name);
+  const replacement = property ? formatEntry({ key: name, ...property }) : [];
+
+  if (entry) {
+    // Blank lines after the entry are kept as separators
+    let end = entry.end;
+    while (end > entry.start + 1 && !lines[end - 1].trim()) end--;
+    lines.splice(entry.start, end - entry.start, ...replacement);
+  } else if (property) {
+    while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+    lines.push(...replacement);
+  } else {
+    return content;
+  }
+  return replaceFrontmatter(content, lines);
+}
+
+/**
+ * Rename a property, its value lines stay as written.
+ */
+export function renameProperty(content: string, oldKey: string, newKey: string): string {
+  const name = validateKey(newKey);
+  const { yaml } = splitFrontmatter(content);
+  const lines = yaml ? yaml.split(/\r?\n/) : [];
+  const entries = parseEntries(lines);
+  const entry = entries.find(e => e.key === oldKey);
+  if (!entry || name === oldKey) return content;
+  if (entries.some(e => e.key === name)) {
+    throw new Error(`Die Eigenschaft "${name}" gibt es schon.`);
+  }
+
+  lines[entry.start] = lines[entry.start].replace(/^[^:]*:/, `${name}:`);
+  return replaceFrontmatter(content, lines);
+}
+
+/**
+ * Property from a value given by a tool call or typed in the panel: arrays
+ * become lists, numbers stay numbers and text is typed like in a file.
+ */
+export function toProperty(value: unknown): Omit<NoteProperty, "key"> {
+  if (Array.isArray(value)) return { type: "list", value: value.map(item => String(item)) };
+  if (typeof value === "number" && Number.isFinite(value)) return { type: "number", value };
+  const text = String(value ?? "").trim();
+  if (isLinkValue(text)) return { type: "link", value: text };
+  if (NUMBER_REGEX.test(text)) return { type: "number", value: Number(text) };
+  if (DATE_REGEX.test(text)) return { type: "date", value: text };
+  return { type: "text", value: text };
+}
+
+/**
+ * Value converted for another property type, e.g. when the type is
+ * changed in the panel. Text that doesn't fit falls back to empty.
+ */
+export function convertPropertyValue(value: PropertyValue, type: PropertyType): PropertyValue {
+  const items = Array.isArray(value) ? value : String(value).split(",").map(item => item.trim()).filter(Boolean);
+  const text = Array.isArray(value) ? value.join(", ") : String(value);
+  switch (type) {
+    case "list":
+      return items;
+    case "number":
+      return NUMBER_REGEX.test(text.trim()) ? Number(text) : 0;
+    case "date":
+      return DATE_REGEX.test(text.trim()) ? text.trim() : new Date().toISOString().slice(0, 10);
+    default:
+      return text;
+  }
+}
+
+export function getPropertyText(property: NoteProperty): string {
+  return Array.isArray(property.value) ? property.value.join(", ") : String(property.value);
+}
+
+/**
+ * Take key:value filters out of a search query. The rest is searched as
+ * text; URLs like https://… are not filters.
+ */
+export function parsePropertyFilters(query: string): { filters: PropertyFilter[]; text: string } {
+  const filters: PropertyFilter[] = [];
+  const text = query.replace(FILTER_REGEX, (_match, space: string, key: string, value: string) => {
+    filters.push({ key: key.toLowerCase(), value: value.replace(/^"|"$/g, "").toLowerCase() });
+    return space;
+  });
+  return { filters, text: text.replace(/\s+/g, " ").trim() };
+}
+
+// Links match by their name, [[Projekt]] is found with projekt:…
+function normalizeValue(value: string): string {
+  return value.replace(/^\[\[([^\]|#]*)[^\]]*\]\]$/, "$1").trim().toLowerCase();
+}
+
+/**
+ * Whether the properties fulfil all filters. Lists match if one item
+ * does, dates also by prefix (date:2024-05 for a month).
+ */
+export function matchesPropertyFilters(properties: NoteProperty[], filters: PropertyFilter[]): boolean {
+  return filters.every(filter =>
+    properties.some(property => {
+      if (property.key.toLowerCase() !== filter.key) return false;
+      const values = Array.isArray(property.value) ? property.value : [String(property.value)];
+      const wanted = normalizeValue(filter.value);
+      return values.some(value => {
+        const normalized = normalizeValue(value);
+        return normalized === wanted || (property.type === "date" && normalized.startsWith(wanted));
+      });
+    })
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * AI edits of a single region of a document, started from the editor.
+ * The model only returns the new text for the region; the caller turns
+ * it into a pending change so it is reviewed like any other edit.
+ */
+
+import { createClient, type ModelSelection } from "./llm";
+
+// Text around the region sent as context, long notes are cut
+const CONTEXT_CHARS = 3000;
+
+const INLINE_EDIT_PROMPT = `Du überarbeitest einen Ausschnitt eines Markdown-Dokuments direkt im Editor.
+Der Bereich ist mit <<<AUSWAHL>>> und <<<ENDE>>> markiert, eine Einfügeposition mit <<<CURSOR>>>.
+Antworte NUR mit dem neuen Markdown-Text für diesen Bereich bzw. mit dem einzufügenden Text.
+Keine Erklärungen, keine Markierungen, keinen umschließenden Codeblock. Behalte Sprache und Stil des Dokuments bei.`;
+
+export interface InlineEditRequest {
+  content: string;
+  from: number;
+  to: number;
+  instruction: string;
+  selection: ModelSelection;
+  customPrompt?: string;
+  projectInstructions?: string;
+  signal?: AbortSignal;
+}
+
+export function replaceRange(content: string, from: number, to: number, text: string): string {
+  return content.slice(0, from) + text + content.slice(to);
+}
+
+// Markdown line without block markers and inline formatting, roughly what
+// the WYSIWYG editor renders
+function toPlainText(line: string): string {
+  return line
+    .replace(/^\s*(#{1,6}\s+|>\s?|[-*+]\s+(\[[ xX]\]\s+)?|\d+\.\s+)/, "")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__|~~|`|\*|_)/g, "")
+    .trim();
+}
+
+// Start offsets of all non-overlapping occurrences
+function findAll(text: string, search: string): number[] {
+  const positions: number[] = [];
+  let index = text.indexOf(search);
+  while (index !== -1) {
+    positions.push(index);
+    index = text.indexOf(search, index + search.length);
+  }
+  return positions;
+}
+
+/**
+ * Find rendered text (e.g. a WYSIWYG selection) in the Markdown source.
+ * `renderedBefore` is the rendered text in front of the selection: if the
+ * text occurs several times, the occurrence with the same index is used.
+ * Falls back to whole lines when formatting makes an exact match impossible.
+ */
+export function findTextRange(
+  markdown: string,
+  text: string,
+  renderedBefore = ""
+): { from: number; to: number } | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const positions = findAll(markdown, trimmed);
+  if (positions.length > 0) {
+    const index = positions[Math.min(findAll(renderedBefore, trimmed).length, positions.length - 1)];
+    return { from: index, to: index + trimmed.length };
+  }
+
+  const wanted = trimmed.split("\n").map(toPlainText).filter(Boolean);
+  if (wanted.length === 0) return null;
+
+  const lines = markdown.split("\n");
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    offsets.push(offset);
+    offset += line.length + 1;
+  }
+
+  const first = wanted[0].slice(0, 60);
+  const last = wanted[wanted.length - 1].slice(-60);
+  // Lines that start a match, one entry per occurrence of the first line
+  const starts = lines.flatMap((line, index) => findAll(toPlainText(line), first).map(() => index));
+  const skip = findAll(renderedBefore, first).length;
+  for (const start of [...starts.slice(skip), ...starts.slice(0, skip).reverse()]) {
+    for (let end = start; end < lines.length; end++) {
+      if (toPlainText(lines[end]).includes(last)) {
+        return { from: offsets[start], to: offsets[end] + lines[end].length };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Map a cursor in a rendered block (its text and the offset in it) to an
+ * offset in the Markdown source, so text can be inserted there.
+ */
+export function findCursorOffset(
+  markdown: string,
+  blockText: string,
+  offset: number,
+  renderedBefore = ""
+): number | null {
+  const region = findTextRange(markdown, blockText, renderedBefore);
+  if (!region) return null;
+  if (offset >= blockText.trimEnd().length) return region.to;
+
+  // Longest piece of text before the cursor that is also in the source,
+  // formatting marks may split longer ones
+  const source = markdown.slice(region.from, region.to);
+  const before = blockText.slice(0, offset);
+  for (let length = Math.min(before.length, 40); length > 0; length = Math.floor(length / 2)) {
+    const tail = before.slice(-length);
+    const positions = findAll(source, tail);
+    const index = findAll(before, tail).length - 1;
+    if (index >= 0 && index < positions.length) {
+      return region.from + positions[index] + tail.length;
+    }
+  }
+  return region.from;
+}
+
+// Models sometimes wrap the answer in a code block anyway
+function unwrapCodeBlock(text: string): string {
+  const match = text.match(/^```[\w-]*\n([\s\S]*?)\n```\s*$/);
+  return match ? match[1] : text;
+}
+
+/**
+ * Ask the model for the replacement of content[from, to), or for text to
+ * insert at `from` when the range is empty.
+ */
+export async function generateInlineEdit(request: InlineEditRequest): Promise<string> {
+  const { content, from, to, instruction, selection, customPrompt, projectInstructions, signal } = request;
+
+  const before = content.slice(Math.max(0, from - CONTEXT_CHARS), from);
+  const after = content.slice(to, to + CONTEXT_CHARS);
+  const marked = from === to
+    ? `${before}<<<CURSOR>>>${after}`
+    : `${before}<<<AUSWAHL>>>${content.slice(from, to)}<<<ENDE>>>${after}`;
+
+  const sections = [INLINE_EDIT_PROMPT];
+  if (customPrompt?.trim()) {
+    sections.push(`ANWEISUNGEN DES BENUTZERS:\n${customPrompt.trim()}`);
+  }
+  if (projectInstructions?.trim()) {
+    sections.push(`PROJEKTANWEISUNGEN:\n${projectInstructions.trim()}`);
+  }
+
+  const result = await createClient(selection).complete({
+    messages: [
+      { role: "system", content: sections.join("\n\n") },
+      { role: "user", content: `Dokument:\n\n${marked}\n\nAnweisung: ${instruction}` },
+    ],
+    signal,
+  });
+
+  const text = unwrapCodeBlock(result.content.trim());
+  if (from === to) {
+    if (!text) throw new Error("Die KI hat keinen Text geliefert.");
+    return text;
+  }
+
+  // Keep the whitespace around the selection, e.g. a trailing line break
+  const original = content.slice(from, to);
+  const leading = original.match(/^\s*/)![0];
+  const trailing = original.slice(leading.length).match(/\s*$/)![0];
+  return leading + text + trailing;
+}
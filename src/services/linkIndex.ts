@@ -0,0 +1,454 @@
+/**
+ * Shared index of the links between notes, used for backlinks, unlinked
+ * mentions, the graph, the vault health report and property filters. The
+ * cached note contents make it cheap to query. A note is only read
+ * again when its modification time changed; saving a note updates its
+ * entry right away. Attachments are tracked by path so links to them
+ * resolve too.
+ */
+
+import { readTextFile, readDirectoryRecursive, getFileMetadata, collectMarkdownFiles } from "./fileSystem";
+import { isInTrash } from "./trash";
+import type { FileNode } from "../stores/appStore";
+import { createWikilinkRegex, parseWikilink, resolveWikilinkTarget } from "./wikilinks";
+import { matchesPropertyFilters, parseProperties, type NoteProperty, type PropertyFilter } from "./frontmatter";
+
+export interface NoteLink {
+  kind: "wikilink" | "markdown";
+  // Target as written: note name for wikilinks, href for Markdown links
+  raw: string;
+  heading?: string;
+  // Resolved note or attachment, null if it doesn't exist
+  target: string | null;
+  // 1-based line and offsets of the whole link in the note
+  line: number;
+  from: number;
+  to: number;
+}
+
+// A place in a note that refers to another note
+export interface NoteReference {
+  sourcePath: string;
+  line: number;
+  // Line around the reference, trimmed
+  context: string;
+  from: number;
+  to: number;
+  text: string;
+}
+
+interface IndexedNote {
+  mtime: number;
+  content: string;
+  links: NoteLink[];
+}
+
+// Local Markdown links and embeds: [text](path.md#heading), ![alt](image.png)
+const MARKDOWN_LINK_REGEX = /!?\[([^\]]*)\]\(<?([^)<>\s#]+)(?:#([^)>\s]*))?>?\)/g;
+const ATTACHMENT_EXTENSIONS = new Set([
+  "jpg", "jpeg", "png", "gif", "webp", "svg", "bmp", "ico",
+  "pdf",
+  "doc", "docx", "xls", "xlsx", "ppt", "pptx", "odt", "ods", "odp",
+  "mp3", "wav", "ogg", "m4a", "mp4", "webm", "mov",
+]);
+const MAX_CONTEXT_CHARS = 200;
+
+let indexedProject: string | null = null;
+const notes = new Map<string, IndexedNote>();
+const attachments = new Set<string>();
+// Everything in the trash, to tell links to deleted files from typos
+const trashedFiles = new Set<string>();
+const listeners = new Set<() => void>();
+// Running builds, so panels opened at the same time share one scan
+const runningBuilds = new Map<string, Promise<void>>();
+
+/**
+ * Subscribe to index updates. Returns an unsubscribe function.
+ */
+export function subscribeToLinkIndex(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function decode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+function notifyListeners(): void {
+  for (const listener of listeners) listener();
+}
+
+export function getNoteTitle(path: string): string {
+  return path.split("/").pop()!.replace(/\.md$/i, "");
+}
+
+export function isAttachment(path: string): boolean {
+  const name = path.split("/").pop() || "";
+  return name.includes(".") && ATTACHMENT_EXTENSIONS.has(name.split(".").pop()!.toLowerCase());
+}
+
+// Only links to notes and attachments are tracked, not to source files etc.
+function isLinkableHref(href: string): boolean {
+  const path = decode(href);
+  return /\.md$/i.test(path) || isAttachment(path);
+}
+
+/**
+ * Lines of a note with code blocks and the frontmatter left out. Inline
+ * code is blanked with spaces so offsets stay valid.
+ */
+function* scanLines(content: string): Generator<{ text: string; line: number; offset: number }> {
+  const lines = content.split("\n");
+  let offset = 0;
+  let fence: string | null = null;
+  let inFrontmatter = lines[0]?.trim() === "---";
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineOffset = offset;
+    offset += line.length + 1;
+
+    if (inFrontmatter) {
+      if (i > 0 && line.trim() === "---") inFrontmatter = false;
+      continue;
+    }
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = null;
+      continue;
+    }
+    if (fence) continue;
+
+    yield {
+      text: line.replace(/`[^`]*`/g, (code) => " ".repeat(code.length)),
+      line: i + 1,
+      offset: lineOffset,
+    };
+  }
+}
+
+/**
+ * Links of a note with unresolved targets, see resolveNoteLink.
+ */
+export function parseNoteLinks(content: string): NoteLink[] {
+  const links: NoteLink[] = [];
+  for (const { text, line, offset } of scanLines(content)) {
+    const wikilinkRegex = createWikilinkRegex();
+    let match;
+    while ((match = wikilinkRegex.exec(text)) !== null) {
+      const link = parseWikilink(match);
+      if (!link) continue;
+      links.push({
+        kind: "wikilink",
+        raw: link.target,
+        heading: link.heading,
+        target: null,
+        line,
+        from: offset + match.index,
+        to: offset + match.index + match[0].length,
+      });
+    }
+
+    MARKDOWN_LINK_REGEX.lastIndex = 0;
+    while ((match = MARKDOWN_LINK_REGEX.exec(text)) !== null) {
+      if (/^[a-z][\w+.-]*:/i.test(match[2]) || !isLinkableHref(match[2])) continue;
+      links.push({
+        kind: "markdown",
+        raw: match[2],
+        heading: match[3] ? decode(match[3]) : undefined,
+        target: null,
+        line,
+        from: offset + match.index,
+        to: offset + match.index + match[0].length,
+      });
+    }
+  }
+  return links;
+}
+
+/**
+ * Absolute path a Markdown link points to, whether it exists or not.
+ */
+export function resolveMarkdownLink(href: string, fromPath: string, projectPath: string): string {
+  let path = decode(href);
+  if (path.startsWith("/")) {
+    path = projectPath + path;
+  } else {
+    path = `${fromPath.substring(0, fromPath.lastIndexOf("/"))}/${path}`;
+  }
+
+  const segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (segment === "." || (segment === "" && segments.length > 0)) continue;
+    if (segment === "..") segments.pop();
+    else segments.push(segment);
+  }
+  return segments.join("/");
+}
+
+/**
+ * Note or attachment a link points to among the indexed files, null if it
+ * doesn't exist. Wikilinks can be resolved against a narrower list of
+ * candidates.
+ */
+export function resolveNoteLink(
+  link: NoteLink,
+  sourcePath: string,
+  projectPath: string,
+  candidates: string[] = [...notes.keys(), ...attachments]
+): string | null {
+  if (link.kind === "markdown") {
+    const resolved = resolveMarkdownLink(link.raw, sourcePath, projectPath);
+    return notes.has(resolved) || attachments.has(resolved) ? resolved : null;
+  }
+  return resolveWikilinkTarget(link.raw, candidates, sourcePath);
+}
+
+/**
+ * File in the trash an unresolved link most likely meant. The trash is
+ * flat, so only the file name is compared.
+ */
+export function findTrashedTarget(link: NoteLink, sourcePath: string, projectPath: string): string | null {
+  if (link.kind === "markdown") {
+    const resolved = resolveMarkdownLink(link.raw, sourcePath, projectPath);
+    if (trashedFiles.has(resolved)) return resolved;
+    const name = resolved.split("/").pop()!.toLowerCase();
+    return [...trashedFiles].find(path => path.split("/").pop()!.toLowerCase() === name) ?? null;
+  }
+  const name = link.raw.replace(/\\/g, "/").split("/").pop() || "";
+  return name ? resolveWikilinkTarget(name, [...trashedFiles], sourcePath) : null;
+}
+
+// Targets depend on which files exist, so they are resolved for all notes
+// after every change
+function resolveAllLinks(projectPath: string): void {
+  const byName = new Map<string, string[]>();
+  for (const path of [...notes.keys(), ...attachments]) {
+    const name = getNoteTitle(path).toLowerCase();
+    byName.set(name, [...(byName.get(name) || []), path]);
+  }
+
+  for (const [path, note] of notes) {
+    for (const link of note.links) {
+      const name = getNoteTitle(link.raw.replace(/\\/g, "/")).trim().toLowerCase();
+      link.target = resolveNoteLink(link, path, projectPath, name ? byName.get(name) || [] : []);
+    }
+  }
+}
+
+function switchProject(projectPath: string): void {
+  if (indexedProject !== projectPath) {
+    notes.clear();
+    attachments.clear();
+    trashedFiles.clear();
+    indexedProject = projectPath;
+  }
+}
+
+function collectFilePaths(nodes: FileNode[]): string[] {
+  return nodes.flatMap(node => (node.isDirectory ? collectFilePaths(node.children || []) : [node.path]));
+}
+
+// Replace the contents of a set, true if they differ
+function replaceSet(set: Set<string>, paths: string[]): boolean {
+  const changed = paths.length !== set.size || paths.some(path => !set.has(path));
+  set.clear();
+  for (const path of paths) set.add(path);
+  return changed;
+}
+
+async function runBuild(projectPath: string): Promise<void> {
+  switchProject(projectPath);
+  const tree = await readDirectoryRecursive(projectPath);
+  const files = collectMarkdownFiles(tree).filter(file => !isInTrash(file.path, projectPath));
+  const allPaths = collectFilePaths(tree);
+  if (indexedProject !== projectPath) return;
+
+  let changed = replaceSet(attachments, allPaths.filter(path => isAttachment(path) && !isInTrash(path, projectPath)));
+  if (replaceSet(trashedFiles, allPaths.filter(path => isInTrash(path, projectPath)))) changed = true;
+
+  const existing = new Set(files.map(file => file.path));
+  for (const path of [...notes.keys()]) {
+    if (!existing.has(path)) {
+      notes.delete(path);
+      changed = true;
+    }
+  }
+
+  for (const file of files) {
+    const mtime = file.metadata?.modified ?? 0;
+    const known = notes.get(file.path);
+    if (known && known.mtime === mtime && mtime !== 0) continue;
+    try {
+      const content = await readTextFile(file.path);
+      if (indexedProject !== projectPath) return;
+      notes.set(file.path, { mtime, content, links: parseNoteLinks(content) });
+      changed = true;
+    } catch (error) {
+      console.error(`Failed to index links of ${file.path}:`, error);
+    }
+  }
+
+  if (changed && indexedProject === projectPath) {
+    resolveAllLinks(projectPath);
+    notifyListeners();
+  }
+}
+
+/**
+ * Bring the index up to date with the notes on disk.
+ */
+export async function buildLinkIndex(projectPath: string): Promise<void> {
+  const running = runningBuilds.get(projectPath);
+  if (running) return running;
+
+  const build = runBuild(projectPath).finally(() => {
+    runningBuilds.delete(projectPath);
+  });
+  runningBuilds.set(projectPath, build);
+  return build;
+}
+
+/**
+ * Update a single note after it was written, e.g. on save.
+ */
+export async function updateLinkIndex(projectPath: string, path: string, content: string): Promise<void> {
+  if (indexedProject !== projectPath || !path.toLowerCase().endsWith(".md") || isInTrash(path, projectPath)) return;
+
+  const mtime = (await getFileMetadata(path))?.modified ?? 0;
+  notes.set(path, { mtime, content, links: parseNoteLinks(content) });
+  resolveAllLinks(projectPath);
+  notifyListeners();
+}
+
+export function getIndexedNotes(): string[] {
+  return [...notes.keys()];
+}
+
+export function getIndexedAttachments(): string[] {
+  return [...attachments];
+}
+
+export function getNoteContent(path: string): string | undefined {
+  return notes.get(path)?.content;
+}
+
+export function getOutgoingLinks(path: string): NoteLink[] {
+  return notes.get(path)?.links || [];
+}
+
+/**
+ * Indexed notes whose frontmatter properties match all filters.
+ */
+export function findNotesByProperties(filters: PropertyFilter[]): { path: string; properties: NoteProperty[] }[] {
+  const results: { path: string; properties: NoteProperty[] }[] = [];
+  for (const [path, note] of notes) {
+    const properties = parseProperties(note.content);
+    if (properties.length > 0 && matchesPropertyFilters(properties, filters)) {
+      results.push({ path, properties });
+    }
+  }
+  return results.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Line around a reference, cut to a readable length
+export function getContext(content: string, from: number, to: number): string {
+  const lineStart = content.lastIndexOf("\n", from - 1) + 1;
+  const lineEnd = content.indexOf("\n", to);
+  const line = content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).trim();
+  if (line.length <= MAX_CONTEXT_CHARS) return line;
+
+  // Long lines are cut around the reference
+  const start = Math.max(0, from - lineStart - MAX_CONTEXT_CHARS / 2);
+  const snippet = line.slice(start, start + MAX_CONTEXT_CHARS);
+  return `${start > 0 ? "…" : ""}${snippet}${start + MAX_CONTEXT_CHARS < line.length ? "…" : ""}`;
+}
+
+/**
+ * Notes linking to the given note, with the line of each link.
+ */
+export function getBacklinks(path: string): NoteReference[] {
+  const references: NoteReference[] = [];
+  for (const [sourcePath, note] of notes) {
+    if (sourcePath === path) continue;
+    for (const link of note.links) {
+      if (link.target !== path) continue;
+      references.push({
+        sourcePath,
+        line: link.line,
+        context: getContext(note.content, link.from, link.to),
+        from: link.from,
+        to: link.to,
+        text: note.content.slice(link.from, link.to),
+      });
+    }
+  }
+  return references;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Places where the title of the note appears as plain text in other notes.
+ * Existing links, code and URLs are not counted.
+ */
+export function getUnlinkedMentions(path: string): NoteReference[] {
+  const title = getNoteTitle(path);
+  if (title.trim().length < 2) return [];
+
+  const titleRegex = new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(title)}(?![\\p{L}\\p{N}_])`, "giu");
+  const references: NoteReference[] = [];
+  for (const [sourcePath, note] of notes) {
+    if (sourcePath === path) continue;
+    for (const { text, line, offset } of scanLines(note.content)) {
+      const masked = text
+        .replace(createWikilinkRegex(), (link) => " ".repeat(link.length))
+        .replace(/!?\[[^\]]*\]\([^)]*\)/g, (link) => " ".repeat(link.length))
+        .replace(/\bhttps?:\/\/\S+/g, (url) => " ".repeat(url.length));
+
+      titleRegex.lastIndex = 0;
+      let match;
+      while ((match = titleRegex.exec(masked)) !== null) {
+        const from = offset + match.index;
+        const to = from + match[0].length;
+        references.push({
+          sourcePath,
+          line,
+          context: getContext(note.content, from, to),
+          from,
+          to,
+          text: match[0],
+        });
+      }
+    }
+  }
+  return references;
+}
+
+/**
+ * Replace an unlinked mention with a wikilink to the note. The written
+ * text is kept as alias if it differs from the title; a path is used when
+ * the title alone would resolve to another note.
+ */
+export function linkMention(content: string, mention: NoteReference, notePath: string, projectPath: string): string {
+  if (content.slice(mention.from, mention.to) !== mention.text) {
+    throw new Error("Die Stelle wurde inzwischen geändert. Bitte die Liste aktualisieren.");
+  }
+
+  const title = getNoteTitle(notePath);
+  const resolved = resolveWikilinkTarget(title, getIndexedNotes(), mention.sourcePath);
+  const target = resolved === notePath
+    ? title
+    : notePath.slice(projectPath.length + 1).replace(/\.md$/i, "");
+  const link = mention.text === target ? `[[${target}]]` : `[[${target}|${mention.text}]]`;
+  return content.slice(0, mention.from) + link + content.slice(mention.to);
+}
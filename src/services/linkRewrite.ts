@@ -0,0 +1,168 @@
+/**
+ * Keeps links intact when a note or folder is renamed or moved. The plan is
+ * computed from the link index before the rename; the rewritten contents
+ * belong to the paths after it. Also used to point a broken link to
+ * another file.
+ */
+
+import {
+  buildLinkIndex,
+  getIndexedAttachments,
+  getIndexedNotes,
+  getNoteContent,
+  getNoteTitle,
+  getOutgoingLinks,
+  parseNoteLinks,
+  resolveNoteLink,
+  type NoteLink,
+} from "./linkIndex";
+import { resolveWikilinkTarget } from "./wikilinks";
+
+export interface LinkRewrite {
+  // Path before and after the rename, they differ for notes that move along
+  filePath: string;
+  newFilePath: string;
+  fileName: string;
+  originalContent: string;
+  newContent: string;
+  // Number of rewritten links
+  count: number;
+}
+
+// Path after a rename/move of `from`, also for notes inside a moved folder
+function remapPath(path: string, from: string, to: string): string {
+  if (path === from) return to;
+  return path.startsWith(`${from}/`) ? `${to}${path.slice(from.length)}` : path;
+}
+
+function isWithin(path: string, folder: string): boolean {
+  return path === folder || path.startsWith(`${folder}/`);
+}
+
+function relativePath(fromDir: string, to: string): string {
+  const from = fromDir.split("/");
+  const target = to.split("/");
+  let common = 0;
+  while (common < from.length && common < target.length - 1 && from[common] === target[common]) common++;
+  return [...from.slice(common).map(() => ".."), ...target.slice(common)].join("/");
+}
+
+function toVaultPath(path: string, projectPath: string): string {
+  return path.slice(projectPath.length + 1);
+}
+
+// New href of a Markdown link, in the style of the old one
+function rewriteMarkdownHref(raw: string, sourcePath: string, targetPath: string, projectPath: string): string {
+  const href = raw.startsWith("/")
+    ? `/${toVaultPath(targetPath, projectPath)}`
+    : relativePath(sourcePath.substring(0, sourcePath.lastIndexOf("/")), targetPath);
+  return raw.includes("%") ? encodeURI(href) : href;
+}
+
+// New target of a wikilink: the note name, or the vault path if the name
+// alone would point to another note or the old link used a path
+function rewriteWikilinkTarget(raw: string, sourcePath: string, targetPath: string, filesAfter: string[], projectPath: string): string {
+  const path = toVaultPath(targetPath, projectPath).replace(/\.md$/i, "");
+  const name = raw.includes("/") ? path : getNoteTitle(targetPath);
+  return resolveWikilinkTarget(name, filesAfter, sourcePath) === targetPath ? name : path;
+}
+
+function replaceLink(content: string, link: NoteLink, replacement: string): string {
+  const text = content.slice(link.from, link.to);
+  let rewritten: string;
+  if (link.kind === "wikilink") {
+    rewritten = text.replace(/^\[\[[^\]|#]*/, `[[${replacement}`);
+  } else {
+    // The href is the last occurrence, the link text may contain the same words
+    const index = text.lastIndexOf(link.raw);
+    rewritten = text.slice(0, index) + replacement + text.slice(index + link.raw.length);
+  }
+  return content.slice(0, link.from) + rewritten + content.slice(link.to);
+}
+
+/**
+ * Point a single link in `content` to `targetPath`, keeping its heading,
+ * alias and link style. Throws if the link isn't where the index saw it.
+ */
+export function retargetLink(
+  content: string,
+  link: NoteLink,
+  text: string,
+  sourcePath: string,
+  targetPath: string,
+  projectPath: string
+): string {
+  if (content.slice(link.from, link.to) !== text) {
+    throw new Error("Die Stelle wurde inzwischen geändert. Bitte den Bericht aktualisieren.");
+  }
+
+  const replacement = link.kind === "markdown"
+    ? rewriteMarkdownHref(link.raw, sourcePath, targetPath, projectPath)
+    : rewriteWikilinkTarget(link.raw, sourcePath, targetPath, [...getIndexedNotes(), ...getIndexedAttachments()], projectPath);
+  return replaceLink(content, link, replacement);
+}
+
+/**
+ * Rewrites needed so that links to `oldPath` (a note or a folder) keep
+ * working after it is renamed to `newPath`. Relative Markdown links inside
+ * moved notes are adjusted too. `getContent` can supply newer content than
+ * on disk, e.g. unsaved editor content or a pending change.
+ */
+export async function planLinkRewrites(
+  projectPath: string,
+  oldPath: string,
+  newPath: string,
+  getContent?: (path: string) => string | undefined
+): Promise<LinkRewrite[]> {
+  await buildLinkIndex(projectPath);
+  const notes = getIndexedNotes();
+  const filesAfter = [...notes, ...getIndexedAttachments()].map(path => remapPath(path, oldPath, newPath));
+
+  const sources = notes.filter(path =>
+    isWithin(path, oldPath) || getOutgoingLinks(path).some(link => link.target && isWithin(link.target, oldPath))
+  );
+
+  const rewrites: LinkRewrite[] = [];
+  for (const sourcePath of sources) {
+    const originalContent = getContent?.(sourcePath) ?? getNoteContent(sourcePath);
+    if (originalContent === undefined) continue;
+
+    const sourceAfter = remapPath(sourcePath, oldPath, newPath);
+    const sourceMoves = sourceAfter !== sourcePath;
+    const edits: { link: NoteLink; replacement: string }[] = [];
+
+    for (const link of parseNoteLinks(originalContent)) {
+      const target = resolveNoteLink(link, sourcePath, projectPath);
+      if (!target) continue;
+      const targetAfter = remapPath(target, oldPath, newPath);
+      const targetMoves = targetAfter !== target;
+
+      if (link.kind === "markdown") {
+        if (!targetMoves && (!sourceMoves || link.raw.startsWith("/"))) continue;
+        const href = rewriteMarkdownHref(link.raw, sourceAfter, targetAfter, projectPath);
+        if (href !== link.raw) edits.push({ link, replacement: href });
+      } else {
+        // Wikilinks don't depend on where the linking note is
+        if (!targetMoves || !link.raw) continue;
+        const replacement = rewriteWikilinkTarget(link.raw, sourceAfter, targetAfter, filesAfter, projectPath);
+        if (replacement.toLowerCase() !== link.raw.toLowerCase()) edits.push({ link, replacement });
+      }
+    }
+    if (edits.length === 0) continue;
+
+    // From the end, so earlier offsets stay valid
+    let newContent = originalContent;
+    for (const { link, replacement } of [...edits].sort((a, b) => b.link.from - a.link.from)) {
+      newContent = replaceLink(newContent, link, replacement);
+    }
+    rewrites.push({
+      filePath: sourcePath,
+      newFilePath: sourceAfter,
+      fileName: sourceAfter.split("/").pop() || sourceAfter,
+      originalContent,
+      newContent,
+      count: edits.length,
+    });
+  }
+  return rewrites;
+}
@@ -0,0 +1,565 @@
+/**
+ * Provider layer for language models.
+ * Chat, tool loop and embeddings talk to this module instead of a
+ * specific SDK, so OpenAI, OpenAI-compatible servers (Ollama, llama.cpp)
+ * and Anthropic can be used interchangeably.
+ */
+
+import OpenAI from "openai";
+
+export type ProviderType = "openai" | "openai-compatible" | "anthropic";
+
+export interface ModelConfig {
+  id: string;
+  name: string;
+  description?: string;
+  supportsTools: boolean;
+  // Reasoning models only accept the default temperature
+  supportsTemperature?: boolean;
+  // Newer OpenAI models expect max_completion_tokens instead of max_tokens
+  usesMaxCompletionTokens?: boolean;
+}
+
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  type: ProviderType;
+  baseUrl?: string;
+  models: ModelConfig[];
+  embeddingModel?: string;
+}
+
+export interface ModelSelection {
+  provider: ProviderConfig;
+  model: ModelConfig;
+  apiKey: string;
+}
+
+// Provider independent message and tool shapes
+export interface LlmToolDefinition {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export type LlmMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: LlmToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string };
+
+export interface CompletionRequest {
+  messages: LlmMessage[];
+  tools?: LlmToolDefinition[];
+  // "none" keeps the tools known to the model but forbids new calls
+  toolChoice?: "auto" | "none";
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  toolCalls: LlmToolCall[];
+  // Not every OpenAI-compatible server reports usage
+  usage?: TokenUsage;
+}
+
+export interface LlmClient {
+  complete: (request: CompletionRequest) => Promise<CompletionResult>;
+  // Streams text tokens and assembles tool calls from their deltas
+  stream: (request: CompletionRequest, onToken: (token: string) => void) => Promise<CompletionResult>;
+  embed: (text: string) => Promise<number[]>;
+}
+
+const DEFAULT_MAX_TOKENS = 2000;
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export const PROVIDER_TYPE_LABELS: Record<ProviderType, string> = {
+  "openai": "OpenAI",
+  "openai-compatible": "OpenAI-kompatibel",
+  "anthropic": "Anthropic",
+};
+
+export const DEFAULT_PROVIDERS: ProviderConfig[] = [
+  {
+    id: "openai",
+    name: "OpenAI",
+    type: "openai",
+    embeddingModel: "text-embedding-3-small",
+    models: [
+      // GPT-5 Modelle (Neu)
+      { id: "gpt-5.2", name: "GPT-5.2", description: "Neuestes Modell", supportsTools: true, supportsTemperature: false, usesMaxCompletionTokens: true },
+      { id: "gpt-5.1", name: "GPT-5.1", description: "Sehr leistungsstark", supportsTools: true, supportsTemperature: false, usesMaxCompletionTokens: true },
+      { id: "gpt-5", name: "GPT-5", description: "GPT-5 Basis", supportsTools: true, supportsTemperature: false, usesMaxCompletionTokens: true },
+      // GPT-4o Modelle
+      { id: "gpt-4o", name: "GPT-4o", description: "Bewährt & stabil", supportsTools: true },
+      { id: "gpt-4o-mini", name: "GPT-4o Mini", description: "Schnell & günstig", supportsTools: true },
+      // Reasoning Modelle ohne Tools
+      { id: "o1-mini", name: "o1 Mini", description: "Reasoning, ohne Tools", supportsTools: false, supportsTemperature: false, usesMaxCompletionTokens: true },
+    ],
+  },
+  {
+    id: "anthropic",
+    name: "Anthropic",
+    type: "anthropic",
+    baseUrl: "https://api.anthropic.com",
+    models: [
+      { id: "claude-sonnet-4-5", name: "Claude Sonnet 4.5", description: "Ausgewogen", supportsTools: true },
+      { id: "claude-opus-4-1", name: "Claude Opus 4.1", description: "Sehr leistungsstark", supportsTools: true },
+      { id: "claude-haiku-4-5", name: "Claude Haiku 4.5", description: "Schnell & günstig", supportsTools: true },
+    ],
+  },
+  {
+    id: "ollama",
+    name: "Ollama (lokal)",
+    type: "openai-compatible",
+    baseUrl: "http://localhost:11434/v1",
+    embeddingModel: "nomic-embed-text",
+    models: [
+      { id: "llama3.1", name: "Llama 3.1", description: "Lokal", supportsTools: true },
+    ],
+  },
+];
+
+/**
+ * Local OpenAI-compatible servers usually don't need a key
+ */
+export function requiresApiKey(provider: ProviderConfig): boolean {
+  return provider.type !== "openai-compatible";
+}
+
+export function isProviderReady(provider: ProviderConfig, apiKey: string | undefined): boolean {
+  return !requiresApiKey(provider) || !!apiKey;
+}
+
+/**
+ * Key under which the API key of a provider is kept in the secret store
+ */
+export function getProviderSecretKey(providerId: string): string {
+  return `provider:${providerId}:api-key`;
+}
+
+/**
+ * Resolve a provider and model id to a usable selection.
+ * Unknown model ids (e.g. from older settings) are treated as tool-capable.
+ */
+export function resolveModelSelection(
+  providers: ProviderConfig[],
+  apiKeys: Record<string, string>,
+  providerId: string,
+  modelId: string
+): ModelSelection | null {
+  const provider = providers.find(p => p.id === providerId);
+  if (!provider || !isProviderReady(provider, apiKeys[provider.id])) {
+    return null;
+  }
+
+  const model = provider.models.find(m => m.id === modelId)
+    || { id: modelId, name: modelId, supportsTools: true };
+
+  return { provider, model, apiKey: apiKeys[provider.id] || "" };
+}
+
+/**
+ * Pick the provider used for embeddings: the active one if it offers
+ * embeddings, otherwise the first configured provider that does.
+ */
+export function resolveEmbeddingSelection(
+  providers: ProviderConfig[],
+  apiKeys: Record<string, string>,
+  preferredProviderId?: string
+): ModelSelection | null {
+  const candidates = providers.filter(p =>
+    p.type !== "anthropic" && p.embeddingModel && isProviderReady(p, apiKeys[p.id])
+  );
+  const provider = candidates.find(p => p.id === preferredProviderId) || candidates[0];
+  if (!provider) return null;
+
+  const model: ModelConfig = { id: provider.embeddingModel!, name: provider.embeddingModel!, supportsTools: false };
+  return { provider, model, apiKey: apiKeys[provider.id] || "" };
+}
+
+export function createClient(selection: ModelSelection): LlmClient {
+  if (selection.provider.type === "anthropic") {
+    return createAnthropicClient(selection);
+  }
+  return createOpenAIClient(selection);
+}
+
+// ============================================================================
+// OpenAI and OpenAI-compatible servers
+// ============================================================================
+
+function createOpenAIClient({ provider, model, apiKey }: ModelSelection): LlmClient {
+  const openai = new OpenAI({
+    // The SDK refuses to start without a key, local servers ignore it
+    apiKey: apiKey || "not-needed",
+    baseURL: provider.baseUrl || undefined,
+    dangerouslyAllowBrowser: true,
+  });
+
+  const buildParams = (request: CompletionRequest) => {
+    const params: Record<string, unknown> = {
+      model: model.id,
+      messages: request.messages.map(toOpenAIMessage),
+    };
+
+    const maxTokens = request.maxTokens ?? DEFAULT_MAX_TOKENS;
+    if (model.usesMaxCompletionTokens) {
+      params.max_completion_tokens = maxTokens;
+    } else {
+      params.max_tokens = maxTokens;
+    }
+
+    if (model.supportsTemperature !== false) {
+      params.temperature = 0.7;
+    }
+
+    if (model.supportsTools && request.tools && request.tools.length > 0) {
+      params.tools = request.tools.map(tool => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters || { type: "object", properties: {} },
+        },
+      }));
+      params.tool_choice = request.toolChoice || "auto";
+    }
+
+    return params;
+  };
+
+  return {
+    complete: async (request) => {
+      const response = await openai.chat.completions.create(
+        buildParams(request) as unknown as OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
+        { signal: request.signal }
+      );
+
+      const message = response.choices[0]?.message;
+      return {
+        content: message?.content || "",
+        toolCalls: (message?.tool_calls || []).map(toolCall => ({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: toolCall.function.arguments,
+        })),
+        usage: response.usage
+          ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+          : undefined,
+      };
+    },
+
+    stream: async (request, onToken) => {
+      const params: Record<string, unknown> = { ...buildParams(request), stream: true };
+      // Usage in the last chunk is an OpenAI extension
+      if (provider.type === "openai") {
+        params.stream_options = { include_usage: true };
+      }
+
+      const stream = await openai.chat.completions.create(
+        params as unknown as OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming,
+        { signal: request.signal }
+      );
+
+      let content = "";
+      let usage: TokenUsage | undefined;
+      const toolCalls: LlmToolCall[] = [];
+
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+
+        if (delta.content) {
+          content += delta.content;
+          onToken(delta.content);
+        }
+
+        // Tool calls arrive in fragments, keyed by their index
+        for (const toolDelta of delta.tool_calls || []) {
+          const index = toolDelta.index ?? toolCalls.length;
+          const toolCall = toolCalls[index] || (toolCalls[index] = { id: "", name: "", arguments: "" });
+          if (toolDelta.id) toolCall.id = toolDelta.id;
+          if (toolDelta.function?.name) toolCall.name += toolDelta.function.name;
+          if (toolDelta.function?.arguments) toolCall.arguments += toolDelta.function.arguments;
+        }
+      }
+
+      return {
+        content,
+        // Some compatible servers omit ids
+        toolCalls: toolCalls
+          .filter(Boolean)
+          .map((toolCall, i) => ({ ...toolCall, id: toolCall.id || `call_${i}` })),
+        usage,
+      };
+    },
+
+    embed: async (text) => {
+      if (!provider.embeddingModel) {
+        throw new Error(`${provider.name} hat kein Embedding-Modell konfiguriert`);
+      }
+
+      const response = await openai.embeddings.create({
+        model: provider.embeddingModel,
+        input: text,
+      });
+      return response.data[0].embedding;
+    },
+  };
+}
+
+function toOpenAIMessage(message: LlmMessage): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+  switch (message.role) {
+    case "assistant":
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls && message.toolCalls.length > 0
+          ? message.toolCalls.map(toolCall => ({
+              id: toolCall.id,
+              type: "function" as const,
+              function: { name: toolCall.name, arguments: toolCall.arguments },
+            }))
+          : undefined,
+      };
+    case "tool":
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+// ============================================================================
+// Anthropic Messages API
+// ============================================================================
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+function createAnthropicClient({ provider, model, apiKey }: ModelSelection): LlmClient {
+  const baseUrl = (provider.baseUrl || "https://api.anthropic.com").replace(/\/$/, "");
+
+  const buildBody = (request: CompletionRequest) => {
+    const system = request.messages
+      .filter(message => message.role === "system")
+      .map(message => message.content)
+      .join("\n\n");
+
+    const body: Record<string, unknown> = {
+      model: model.id,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      messages: toAnthropicMessages(request.messages),
+    };
+
+    if (system) {
+      body.system = system;
+    }
+
+    if (model.supportsTemperature !== false) {
+      body.temperature = 0.7;
+    }
+
+    if (model.supportsTools && request.tools && request.tools.length > 0) {
+      body.tools = request.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters || { type: "object", properties: {} },
+      }));
+      body.tool_choice = { type: request.toolChoice || "auto" };
+    }
+
+    return body;
+  };
+
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        "anthropic-dangerous-direct-browser-access": "true",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      let message = text;
+      try {
+        message = JSON.parse(text).error?.message || text;
+      } catch { /* not JSON */ }
+      throw new Error(`Anthropic-Fehler ${response.status}: ${message || response.statusText}`);
+    }
+
+    return response;
+  };
+
+  return {
+    complete: async (request) => {
+      const response = await post(buildBody(request), request.signal);
+      const data = await response.json() as {
+        content: AnthropicContentBlock[];
+        usage?: { input_tokens: number; output_tokens: number };
+      };
+
+      let content = "";
+      const toolCalls: LlmToolCall[] = [];
+      for (const block of data.content || []) {
+        if (block.type === "text") {
+          content += block.text;
+        } else if (block.type === "tool_use") {
+          toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) });
+        }
+      }
+
+      const usage = data.usage
+        ? { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+        : undefined;
+      return { content, toolCalls, usage };
+    },
+
+    stream: async (request, onToken) => {
+      const response = await post({ ...buildBody(request), stream: true }, request.signal);
+      if (!response.body) {
+        throw new Error("Anthropic-Fehler: Keine Antwort erhalten");
+      }
+
+      let content = "";
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      // Content blocks by index, tool input arrives as partial JSON
+      const toolBlocks = new Map<number, LlmToolCall>();
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          if (!line.startsWith("data:")) continue;
+
+          let event;
+          try {
+            event = JSON.parse(line.slice(5).trim());
+          } catch {
+            continue;
+          }
+
+          switch (event.type) {
+            case "message_start":
+              usage.inputTokens = event.message?.usage?.input_tokens || 0;
+              break;
+            case "message_delta":
+              usage.outputTokens = event.usage?.output_tokens || usage.outputTokens;
+              break;
+            case "content_block_start":
+              if (event.content_block?.type === "tool_use") {
+                toolBlocks.set(event.index, {
+                  id: event.content_block.id,
+                  name: event.content_block.name,
+                  arguments: "",
+                });
+              }
+              break;
+            case "content_block_delta":
+              if (event.delta?.type === "text_delta") {
+                content += event.delta.text;
+                onToken(event.delta.text);
+              } else if (event.delta?.type === "input_json_delta") {
+                const toolCall = toolBlocks.get(event.index);
+                if (toolCall) toolCall.arguments += event.delta.partial_json;
+              }
+              break;
+            case "error":
+              throw new Error(`Anthropic-Fehler: ${event.error?.message || "Unbekannter Fehler"}`);
+          }
+        }
+      }
+
+      const toolCalls = [...toolBlocks.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, toolCall]) => ({ ...toolCall, arguments: toolCall.arguments || "{}" }));
+
+      return { content, toolCalls, usage };
+    },
+
+    embed: async () => {
+      throw new Error("Anthropic bietet keine Embeddings an");
+    },
+  };
+}
+
+// Anthropic expects alternating user/assistant turns with tool results as user content
+function toAnthropicMessages(messages: LlmMessage[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = [];
+
+  const append = (role: "user" | "assistant", blocks: AnthropicContentBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case "system":
+        break;
+      case "user":
+        append("user", [{ type: "text", text: message.content }]);
+        break;
+      case "assistant": {
+        const blocks: AnthropicContentBlock[] = [];
+        if (message.content) {
+          blocks.push({ type: "text", text: message.content });
+        }
+        for (const toolCall of message.toolCalls || []) {
+          let input: unknown = {};
+          try {
+            input = JSON.parse(toolCall.arguments || "{}");
+          } catch { /* keep empty input */ }
+          blocks.push({ type: "tool_use", id: toolCall.id, name: toolCall.name, input });
+        }
+        append("assistant", blocks);
+        break;
+      }
+      case "tool":
+        append("user", [{ type: "tool_result", tool_use_id: message.toolCallId, content: message.content }]);
+        break;
+    }
+  }
+
+  return result;
+}
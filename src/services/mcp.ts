@@ -3,17 +3,41 @@
  * Allows connecting to MCP servers and using their tools
  */
 
-import { Command } from "@tauri-apps/plugin-shell";
+import { Command, type Child } from "@tauri-apps/plugin-shell";
+import { getSecret, deleteSecret } from "./secrets";
+
+// MCP protocol constants
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+const CLIENT_INFO = { name: "TypeGodMD", version: "0.1.0" };
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+// npx may have to download the server package before it answers
+const INITIALIZE_TIMEOUT_MS = 120_000;
+const TOOL_CALL_TIMEOUT_MS = 120_000;
+// Reconnect backoff for dropped HTTP event streams
+const RECONNECT_BASE_DELAY_MS = 1_000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+// Number of stderr/log lines kept per server
+const MAX_LOG_LINES = 200;
+
+// Programs the shell scope in src-tauri/capabilities/default.json lets us
+// spawn; keep both lists in sync
+export const STDIO_COMMANDS = ["npx", "node", "bunx", "bun", "deno", "uvx", "uv", "python", "python3", "docker"];
 
 // MCP Types
 export interface McpServerConfig {
   id: string;
   name: string;
-  type: "stdio" | "sse";
+  type: "stdio" | "sse" | "http";
   command?: string;  // For stdio: command to run
   args?: string[];   // For stdio: command arguments
-  url?: string;      // For SSE: server URL
+  env?: Record<string, string>;  // For stdio: extra environment variables
+  secretEnv?: string[];  // For stdio: variables whose values live in the secret store
+  cwd?: string;      // For stdio: working directory
+  url?: string;      // For SSE/HTTP: server URL
+  headers?: Record<string, string>;  // For SSE/HTTP: extra headers, e.g. Authorization
   enabled: boolean;
+  disabledTools?: string[];  // Tools hidden from the model
 }
 
 export interface McpTool {
@@ -33,17 +57,155 @@ export interface McpResource {
   mimeType?: string;
 }
 
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+// A message returned by prompts/get, flattened to text
+export interface McpPromptMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Capabilities announced by the server during initialize
+interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+}
+
+// Content item as used in tool results and prompt messages
+interface McpContent {
+  type: string;
+  text?: string;
+  resource?: { uri: string; mimeType?: string; text?: string; blob?: string };
+  [key: string]: unknown;
+}
+
+// Result of a tools/call request
+interface McpToolResult {
+  content?: McpContent[];
+  isError?: boolean;
+}
+
+// JSON-RPC 2.0 message shapes
+interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 interface McpServerConnection {
   config: McpServerConfig;
   tools: McpTool[];
   resources: McpResource[];
-  process?: ReturnType<typeof Command.create> extends Promise<infer T> ? T : never;
+  prompts: McpPrompt[];
+  process?: Child;
   isConnected: boolean;
+  serverInfo?: { name: string; version: string };
+  protocolVersion?: string;
+  capabilities?: McpServerCapabilities;
+  // JSON-RPC session state
+  nextRequestId: number;
+  pendingRequests: Map<number, PendingRequest>;
+  // HTTP transport state
+  sessionId?: string;        // Mcp-Session-Id assigned by a streamable HTTP server
+  messageEndpoint?: string;  // POST endpoint announced by a legacy SSE server
+  lastEventId?: string;
+  streamAbort?: AbortController;
+}
+
+export type McpConnectionState = "connecting" | "connected" | "reconnecting" | "disconnected" | "error";
+
+// Live status of a server as shown in the settings
+export interface McpServerStatus {
+  id: string;
+  name: string;
+  connected: boolean;
+  state: McpConnectionState;
+  lastError?: string;
+  tools: McpTool[];
+  logs: string[];
+}
+
+// A single Server-Sent Event
+interface SseEvent {
+  event: string;
+  data: string;
+  id?: string;
 }
 
 // Store for active connections
 const connections = new Map<string, McpServerConnection>();
 
+// Connections that are currently being established
+const pendingConnections = new Map<string, Promise<McpTool[]>>();
+
+// Status of every server we tried to connect, kept across reconnects
+const serverStatus = new Map<string, McpServerStatus>();
+const statusListeners = new Set<() => void>();
+
+// Latest config per server and pending automatic restarts of crashed processes
+const knownConfigs = new Map<string, McpServerConfig>();
+const restartTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Subscribe to status changes of any server. Returns an unsubscribe function.
+ */
+export function subscribeToStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+function updateStatus(config: McpServerConfig, updates: Partial<McpServerStatus>): void {
+  const current = serverStatus.get(config.id) || {
+    id: config.id,
+    name: config.name,
+    connected: false,
+    state: "disconnected" as McpConnectionState,
+    tools: [],
+    logs: [],
+  };
+  const next = { ...current, name: config.name, ...updates };
+  next.connected = next.state === "connected";
+  serverStatus.set(config.id, next);
+  statusListeners.forEach(listener => listener());
+}
+
+function appendLog(config: McpServerConfig, line: string): void {
+  const logs = serverStatus.get(config.id)?.logs || [];
+  const timestamp = new Date().toLocaleTimeString("de-DE");
+  updateStatus(config, {
+    logs: [...logs, `[${timestamp}] ${line.trimEnd()}`].slice(-MAX_LOG_LINES),
+  });
+}
+
 /**
  * Connect to an MCP server
  */
@@ -52,13 +214,253 @@ export async function connectToServer(config: McpServerConfig): Promise<McpTool[
     throw new Error("Server ist deaktiviert");
   }
 
+  const pending = pendingConnections.get(config.id);
+  if (pending) {
+    return pending;
+  }
+
+  knownConfigs.set(config.id, config);
+  updateStatus(config, { state: "connecting" });
+
+  let connect: Promise<McpTool[]>;
   if (config.type === "stdio") {
-    return connectStdioServer(config);
-  } else if (config.type === "sse") {
-    return connectSseServer(config);
+    connect = connectStdioServer(config);
+  } else if (config.type === "sse" || config.type === "http") {
+    connect = connectHttpServer(config);
+  } else {
+    throw new Error(`Unbekannter Server-Typ: ${config.type}`);
   }
 
-  throw new Error(`Unbekannter Server-Typ: ${config.type}`);
+  pendingConnections.set(config.id, connect);
+  try {
+    const tools = await connect;
+    updateStatus(config, { state: "connected", lastError: undefined });
+    return tools;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    updateStatus(config, { state: "error", lastError: message });
+    appendLog(config, message);
+    throw error;
+  } finally {
+    pendingConnections.delete(config.id);
+  }
+}
+
+/**
+ * Drop the current connection (if any) and connect again with the latest config
+ */
+export async function reconnectServer(serverId: string): Promise<McpTool[]> {
+  const config = knownConfigs.get(serverId);
+  if (!config) {
+    throw new Error(`Server ${serverId} ist nicht konfiguriert`);
+  }
+
+  await disconnectFromServer(serverId);
+  return connectToServer(config);
+}
+
+/**
+ * Restart a crashed stdio server with exponential backoff
+ */
+function scheduleRestart(config: McpServerConfig, attempt: number): void {
+  if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+    updateStatus(config, { state: "error" });
+    appendLog(config, "Automatischer Neustart aufgegeben");
+    return;
+  }
+
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+  updateStatus(config, { state: "reconnecting" });
+  appendLog(config, `Neustart in ${Math.round(delay / 1000)}s (Versuch ${attempt + 1}/${MAX_RECONNECT_ATTEMPTS})`);
+
+  const timer = setTimeout(async () => {
+    restartTimers.delete(config.id);
+    const latest = knownConfigs.get(config.id);
+    if (!latest || !latest.enabled) return;
+
+    try {
+      await connectToServer(latest);
+    } catch {
+      scheduleRestart(latest, attempt + 1);
+    }
+  }, delay);
+  restartTimers.set(config.id, timer);
+}
+
+function cancelRestart(serverId: string): void {
+  const timer = restartTimers.get(serverId);
+  if (timer) {
+    clearTimeout(timer);
+    restartTimers.delete(serverId);
+  }
+}
+
+// Settings that require a new connection when they change
+function connectionKey(config: McpServerConfig): string {
+  const { type, command, args, env, secretEnv, cwd, url, headers } = config;
+  return JSON.stringify({ type, command, args, env, secretEnv, cwd, url, headers });
+}
+
+/**
+ * Key under which a secret environment variable of a server is stored
+ */
+export function getSecretKey(serverId: string, name: string): string {
+  return `mcp:${serverId}:${name}`;
+}
+
+/**
+ * Remove all stored secrets of a server
+ */
+export async function deleteServerSecrets(config: McpServerConfig): Promise<void> {
+  for (const name of config.secretEnv || []) {
+    await deleteSecret(getSecretKey(config.id, name));
+  }
+}
+
+/**
+ * Combine plain and secret environment variables for a stdio server
+ */
+async function resolveEnvironment(config: McpServerConfig): Promise<Record<string, string> | undefined> {
+  const env: Record<string, string> = { ...config.env };
+
+  const missing: string[] = [];
+  for (const name of config.secretEnv || []) {
+    const value = await getSecret(getSecretKey(config.id, name));
+    if (value) {
+      env[name] = value;
+    } else {
+      missing.push(name);
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Fehlende Geheimnisse: ${missing.join(", ")}`);
+  }
+
+  return Object.keys(env).length > 0 ? env : undefined;
+}
+
+/**
+ * Error for a stdio command that can't be spawned, null if it can. Only
+ * the commands of the shell scope are allowed, called by their name.
+ */
+export function validateStdioCommand(command: string): string | null {
+  if (STDIO_COMMANDS.includes(command.trim())) return null;
+  return `Der Befehl "${command.trim()}" ist nicht erlaubt. Erlaubt sind: ${STDIO_COMMANDS.join(", ")}. ` +
+    "Programme werden über ihren Namen aus dem PATH gestartet, nicht über einen Pfad.";
+}
+
+/**
+ * Split a command line into arguments, honouring single and double quotes.
+ * A backslash escapes quotes, backslashes and whitespace; elsewhere it is
+ * kept as is so Windows paths work unquoted.
+ */
+export function parseCommandLine(text: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inArg = false;
+  let quote: "\"" | "'" | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const next = text[i + 1];
+
+    if (quote) {
+      if (ch === quote) {
+        quote = null;
+      } else if (ch === "\\" && quote === "\"" && (next === "\"" || next === "\\")) {
+        current += next;
+        i++;
+      } else {
+        current += ch;
+      }
+      continue;
+    }
+
+    if (ch === "\"" || ch === "'") {
+      quote = ch;
+      inArg = true;
+    } else if (ch === "\\" && next !== undefined && /["'\\\s]/.test(next)) {
+      current += next;
+      inArg = true;
+      i++;
+    } else if (/\s/.test(ch)) {
+      if (inArg) {
+        args.push(current);
+        current = "";
+        inArg = false;
+      }
+    } else {
+      current += ch;
+      inArg = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error("Nicht geschlossenes Anführungszeichen");
+  }
+  if (inArg) {
+    args.push(current);
+  }
+
+  return args;
+}
+
+/**
+ * Join arguments into a command line that parseCommandLine splits back
+ */
+export function formatCommandLine(args: string[]): string {
+  return args
+    .map(arg => {
+      if (arg === "") return "\"\"";
+      if (!/["'\s]/.test(arg)) return arg;
+      return `"${arg.replace(/(["\\])/g, "\\$1")}"`;
+    })
+    .join(" ");
+}
+
+/**
+ * Bring the active connections in line with the configured servers:
+ * connect enabled servers and disconnect removed or disabled ones
+ */
+export async function syncServers(configs: McpServerConfig[]): Promise<void> {
+  const enabled = configs.filter(c => c.enabled);
+  const enabledIds = new Set(enabled.map(c => c.id));
+
+  for (const [id, connection] of connections) {
+    const config = enabled.find(c => c.id === id);
+    if (!config || connectionKey(config) !== connectionKey(connection.config)) {
+      await disconnectFromServer(id);
+    } else {
+      // Name or tool selection changed - no reconnect needed
+      connection.config = config;
+    }
+  }
+
+  // Forget servers that were removed or disabled
+  for (const id of [...knownConfigs.keys()]) {
+    if (!enabledIds.has(id)) {
+      cancelRestart(id);
+      knownConfigs.delete(id);
+      serverStatus.delete(id);
+    }
+  }
+  for (const config of enabled) {
+    knownConfigs.set(config.id, config);
+  }
+  statusListeners.forEach(listener => listener());
+
+  await Promise.all(
+    enabled
+      .filter(config => !connections.has(config.id) && !restartTimers.has(config.id))
+      .map(async (config) => {
+        try {
+          await connectToServer(config);
+        } catch (error) {
+          console.error(`Failed to connect to MCP server ${config.name}:`, error);
+        }
+      })
+  );
 }
 
 /**
@@ -68,111 +470,738 @@ async function connectStdioServer(config: McpServerConfig): Promise<McpTool[]> {
   if (!config.command) {
     throw new Error("Kein Befehl für stdio-Server angegeben");
   }
+  const commandError = validateStdioCommand(config.command);
+  if (commandError) {
+    throw new Error(commandError);
+  }
+
+  const connection: McpServerConnection = {
+    config,
+    tools: [],
+    resources: [],
+    prompts: [],
+    isConnected: false,
+    nextRequestId: 1,
+    pendingRequests: new Map(),
+  };
 
   try {
-    // Create the command
-    const command = Command.create(config.command, config.args || []);
-    
-    // Track the connection
-    const connection: McpServerConnection = {
-      config,
-      tools: [],
-      resources: [],
-      isConnected: false,
-    };
+    // Create the command and wire up its output before spawning
+    const command = Command.create(config.command.trim(), config.args || [], {
+      cwd: config.cwd || undefined,
+      env: await resolveEnvironment(config),
+    });
+
+    command.stdout.on("data", (data) => handleStdout(connection, data));
+    command.stderr.on("data", (line) => appendLog(config, line));
+    command.on("error", (error) => {
+      console.error(`MCP server ${config.name} error:`, error);
+      appendLog(config, `Fehler: ${error}`);
+    });
+    command.on("close", ({ code, signal }) => {
+      appendLog(config, `Prozess beendet (Code ${code}, Signal ${signal})`);
+
+      // An exit we didn't ask for after a successful handshake is a crash
+      const crashed = isActive(connection) && connection.isConnected;
+      closeConnection(connection, new Error(`Server-Prozess wurde beendet (Code ${code})`));
+      if (crashed) {
+        scheduleRestart(connection.config, 0);
+      }
+    });
 
     // Spawn the process
-    const process = await command.spawn();
-    
-    // Set up communication
-    // Note: Full MCP protocol implementation would require JSON-RPC over stdio
-    // For now, we'll use a simplified approach
-    
-    connection.isConnected = true;
+    connection.process = await command.spawn();
     connections.set(config.id, connection);
 
     // Initialize the server and get tools
-    const tools = await initializeServer(config.id);
-    connection.tools = tools;
+    await initializeServer(connection);
+    await loadServerFeatures(connection);
 
-    return tools;
+    return connection.tools;
   } catch (error) {
     console.error("Failed to connect to stdio server:", error);
-    throw new Error(`Verbindung zu ${config.name} fehlgeschlagen: ${error}`);
+    await disconnectFromServer(config.id);
+    throw new Error(`Verbindung zu ${config.name} fehlgeschlagen: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Parse newline-delimited JSON-RPC messages from the process output. The
+ * shell plugin emits every line as its own event without the newline, so
+ * nothing is buffered: a line that isn't JSON is dropped right away and
+ * can't block the messages after it.
+ */
+function handleStdout(connection: McpServerConnection, data: string): void {
+  for (const line of data.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(trimmed);
+    } catch {
+      // Servers sometimes print log output to stdout - ignore it
+      console.warn(`[MCP ${connection.config.name}] Ignored output:`, trimmed);
+      continue;
+    }
+    handleMessage(connection, message);
+  }
+}
+
+/**
+ * Dispatch an incoming JSON-RPC message (response, request or notification)
+ */
+function handleMessage(connection: McpServerConnection, message: JsonRpcMessage): void {
+  // Response to one of our requests
+  if (message.id !== undefined && !message.method) {
+    const pending = connection.pendingRequests.get(Number(message.id));
+    if (!pending) {
+      console.warn(`[MCP ${connection.config.name}] Response for unknown request ${message.id}`);
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    connection.pendingRequests.delete(Number(message.id));
+
+    if (message.error) {
+      pending.reject(new Error(`${message.error.message} (Code ${message.error.code})`));
+    } else {
+      pending.resolve(message.result);
+    }
+    return;
+  }
+
+  // Request from the server
+  if (message.id !== undefined && message.method) {
+    if (message.method === "ping") {
+      writeMessage(connection, { jsonrpc: "2.0", id: message.id, result: {} });
+    } else {
+      writeMessage(connection, {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: { code: -32601, message: `Method not found: ${message.method}` },
+      });
+    }
+    return;
+  }
+
+  // Notification from the server
+  switch (message.method) {
+    case "notifications/tools/list_changed":
+      listAll<McpTool>(connection, "tools/list", "tools")
+        .then(tools => {
+          connection.tools = tools;
+          updateStatus(connection.config, { tools });
+        })
+        .catch(error => console.error("Failed to refresh MCP tools:", error));
+      break;
+    case "notifications/resources/list_changed":
+      listAll<McpResource>(connection, "resources/list", "resources")
+        .then(resources => { connection.resources = resources; })
+        .catch(error => console.error("Failed to refresh MCP resources:", error));
+      break;
+    case "notifications/prompts/list_changed":
+      listAll<McpPrompt>(connection, "prompts/list", "prompts")
+        .then(prompts => { connection.prompts = prompts; })
+        .catch(error => console.error("Failed to refresh MCP prompts:", error));
+      break;
+    case "notifications/message": {
+      const params = message.params as { level?: string; data?: unknown } | undefined;
+      const data = typeof params?.data === "string" ? params.data : JSON.stringify(params?.data);
+      appendLog(connection.config, `${params?.level || "info"}: ${data}`);
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+/**
+ * Write a single JSON-RPC message using the connection's transport
+ */
+async function writeMessage(connection: McpServerConnection, message: JsonRpcMessage): Promise<void> {
+  if (connection.config.type === "http") {
+    return postStreamableHttp(connection, message);
+  }
+  if (connection.config.type === "sse") {
+    return postLegacySse(connection, message);
+  }
+
+  if (!connection.process) {
+    throw new Error("Server-Prozess läuft nicht");
+  }
+  await connection.process.write(JSON.stringify(message) + "\n");
+}
+
+/**
+ * Send a JSON-RPC request and wait for the matching response
+ */
+function sendRequest<T>(
+  connection: McpServerConnection,
+  method: string,
+  params?: unknown,
+  timeoutMs: number = DEFAULT_REQUEST_TIMEOUT_MS
+): Promise<T> {
+  const id = connection.nextRequestId++;
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      connection.pendingRequests.delete(id);
+      // Let the server know we gave up on this request
+      sendNotification(connection, "notifications/cancelled", {
+        requestId: id,
+        reason: "Timeout",
+      }).catch(() => { /* ignore */ });
+      reject(new Error(`Zeitüberschreitung bei "${method}" nach ${timeoutMs / 1000}s`));
+    }, timeoutMs);
+
+    connection.pendingRequests.set(id, {
+      method,
+      resolve: resolve as (result: unknown) => void,
+      reject,
+      timer,
+    });
+
+    writeMessage(connection, { jsonrpc: "2.0", id, method, params }).catch((error) => {
+      clearTimeout(timer);
+      connection.pendingRequests.delete(id);
+      reject(error instanceof Error ? error : new Error(String(error)));
+    });
+  });
+}
+
+/**
+ * Send a JSON-RPC notification (no response expected)
+ */
+function sendNotification(connection: McpServerConnection, method: string, params?: unknown): Promise<void> {
+  return writeMessage(connection, { jsonrpc: "2.0", method, params });
+}
+
+/**
+ * Reject all requests still waiting for an answer
+ */
+function failPendingRequests(connection: McpServerConnection, reason: Error): void {
+  for (const pending of connection.pendingRequests.values()) {
+    clearTimeout(pending.timer);
+    pending.reject(reason);
+  }
+  connection.pendingRequests.clear();
+}
+
+/**
+ * Whether the connection is still the active one for its server
+ */
+function isActive(connection: McpServerConnection): boolean {
+  return connections.get(connection.config.id) === connection;
+}
+
+/**
+ * Mark a connection as closed and fail all requests still waiting for an answer
+ */
+function closeConnection(connection: McpServerConnection, reason: Error): void {
+  connection.isConnected = false;
+  connection.streamAbort?.abort();
+  failPendingRequests(connection, reason);
+
+  if (isActive(connection)) {
+    connections.delete(connection.config.id);
+    updateStatus(connection.config, { state: "error", lastError: reason.message });
   }
 }
 
 /**
- * Connect to an SSE-based MCP server
+ * Connect to an HTTP-based MCP server (streamable HTTP or legacy HTTP+SSE)
  */
-async function connectSseServer(config: McpServerConfig): Promise<McpTool[]> {
+async function connectHttpServer(config: McpServerConfig): Promise<McpTool[]> {
   if (!config.url) {
-    throw new Error("Keine URL für SSE-Server angegeben");
+    throw new Error("Keine URL für HTTP-Server angegeben");
+  }
+
+  const connection: McpServerConnection = {
+    config,
+    tools: [],
+    resources: [],
+    prompts: [],
+    isConnected: false,
+    nextRequestId: 1,
+    pendingRequests: new Map(),
+  };
+  connections.set(config.id, connection);
+
+  try {
+    if (config.type === "sse") {
+      // Legacy transport: the event stream announces where to POST messages
+      await openLegacySseStream(connection);
+    }
+
+    await initializeServer(connection);
+
+    if (config.type === "http") {
+      // Optional stream for server-initiated messages
+      openStreamableHttpListener(connection, 0);
+    }
+
+    await loadServerFeatures(connection);
+    return connection.tools;
+  } catch (error) {
+    console.error("Failed to connect to HTTP server:", error);
+    await disconnectFromServer(config.id);
+    throw new Error(`Verbindung zu ${config.name} fehlgeschlagen: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Build request headers including custom auth headers and the session ID
+ */
+function buildHeaders(connection: McpServerConnection, extra: Record<string, string>): Record<string, string> {
+  const headers: Record<string, string> = { ...connection.config.headers, ...extra };
+  if (connection.sessionId) {
+    headers["Mcp-Session-Id"] = connection.sessionId;
+  }
+  if (connection.protocolVersion) {
+    headers["MCP-Protocol-Version"] = connection.protocolVersion;
+  }
+  return headers;
+}
+
+/**
+ * Send a message to a streamable HTTP endpoint and handle the answer,
+ * which is either plain JSON or an event stream
+ */
+async function postStreamableHttp(
+  connection: McpServerConnection,
+  message: JsonRpcMessage,
+  isRetry = false
+): Promise<void> {
+  const hadSession = Boolean(connection.sessionId);
+
+  const response = await fetch(connection.config.url!, {
+    method: "POST",
+    headers: buildHeaders(connection, {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+    }),
+    body: JSON.stringify(message),
+  });
+
+  // The session expired - start a new one and send the message again
+  if (response.status === 404 && hadSession && message.method !== "initialize" && !isRetry) {
+    console.warn(`[MCP ${connection.config.name}] Session expired, reinitializing`);
+    appendLog(connection.config, "Sitzung abgelaufen, initialisiere neu");
+    connection.sessionId = undefined;
+    await initializeServer(connection);
+    return postStreamableHttp(connection, message, true);
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const sessionId = response.headers.get("Mcp-Session-Id");
+  if (sessionId) {
+    connection.sessionId = sessionId;
+  }
+
+  // Notifications and responses are acknowledged with 202 and no body
+  if (response.status === 202 || !response.body) {
+    return;
+  }
+
+  const contentType = response.headers.get("Content-Type") || "";
+  if (contentType.includes("text/event-stream")) {
+    // Responses arrive on the stream - read it in the background
+    readEventStream(response.body, (event) => handleSseMessage(connection, event))
+      .catch(error => console.error(`[MCP ${connection.config.name}] Stream error:`, error));
+    return;
   }
 
+  const text = await response.text();
+  if (!text.trim()) {
+    return;
+  }
+
+  const data = JSON.parse(text) as JsonRpcMessage | JsonRpcMessage[];
+  for (const item of Array.isArray(data) ? data : [data]) {
+    handleMessage(connection, item);
+  }
+}
+
+/**
+ * Listen for server-initiated messages on a streamable HTTP server.
+ * Servers that don't offer a stream answer with 405.
+ */
+async function openStreamableHttpListener(connection: McpServerConnection, attempt: number): Promise<void> {
+  const abort = new AbortController();
+  connection.streamAbort = abort;
+
   try {
-    // For SSE servers, we make HTTP requests
-    const response = await fetch(`${config.url}/tools`, {
+    const headers = buildHeaders(connection, { Accept: "text/event-stream" });
+    if (connection.lastEventId) {
+      headers["Last-Event-ID"] = connection.lastEventId;
+    }
+
+    const response = await fetch(connection.config.url!, {
       method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
+      headers,
+      signal: abort.signal,
     });
 
-    if (!response.ok) {
+    if (response.status === 405) {
+      return;
+    }
+    if (!response.ok || !response.body) {
       throw new Error(`HTTP ${response.status}`);
     }
 
-    const data = await response.json();
-    const tools: McpTool[] = data.tools || [];
+    attempt = 0;
+    await readEventStream(response.body, (event) => handleSseMessage(connection, event));
+  } catch (error) {
+    if (abort.signal.aborted) {
+      return;
+    }
+    console.warn(`[MCP ${connection.config.name}] Event stream failed:`, error);
+  }
+
+  // The stream ended - reconnect unless we disconnected in the meantime
+  scheduleReconnect(connection, attempt, () => openStreamableHttpListener(connection, attempt + 1));
+}
+
+/**
+ * Open the event stream of a legacy HTTP+SSE server and wait for the
+ * endpoint event that tells us where to POST messages
+ */
+function openLegacySseStream(connection: McpServerConnection, attempt = 0): Promise<void> {
+  const abort = new AbortController();
+  connection.streamAbort = abort;
+  connection.messageEndpoint = undefined;
+
+  return new Promise<void>((resolve, reject) => {
+    let settled = false;
+    let receivedEndpoint = false;
+
+    const timer = setTimeout(() => {
+      if (settled) return;
+      settled = true;
+      abort.abort();
+      reject(new Error("Server hat keinen Nachrichten-Endpunkt gesendet"));
+    }, DEFAULT_REQUEST_TIMEOUT_MS);
+
+    const run = async () => {
+      const headers = buildHeaders(connection, { Accept: "text/event-stream" });
+      if (connection.lastEventId) {
+        headers["Last-Event-ID"] = connection.lastEventId;
+      }
+
+      const response = await fetch(connection.config.url!, {
+        method: "GET",
+        headers,
+        signal: abort.signal,
+      });
 
-    const connection: McpServerConnection = {
-      config,
-      tools,
-      resources: [],
-      isConnected: true,
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      await readEventStream(response.body, (event) => {
+        if (event.event === "endpoint") {
+          connection.messageEndpoint = new URL(event.data.trim(), connection.config.url).toString();
+          receivedEndpoint = true;
+          if (!settled) {
+            settled = true;
+            clearTimeout(timer);
+            resolve();
+          }
+          return;
+        }
+        handleSseMessage(connection, event);
+      });
     };
 
-    connections.set(config.id, connection);
-    return tools;
+    run()
+      .catch((error) => {
+        if (!settled) {
+          settled = true;
+          clearTimeout(timer);
+          reject(error);
+          return;
+        }
+        if (!abort.signal.aborted) {
+          console.warn(`[MCP ${connection.config.name}] Event stream failed:`, error);
+        }
+      })
+      .finally(() => {
+        // A dropped stream after a successful connect ends the session - start a new one
+        if (receivedEndpoint && !abort.signal.aborted && connection.isConnected) {
+          failPendingRequests(connection, new Error("Verbindung zum Server unterbrochen"));
+          scheduleReconnect(connection, attempt, () => reconnectLegacySse(connection, attempt + 1));
+        }
+      });
+  });
+}
+
+/**
+ * Re-open a legacy SSE stream and run the handshake again
+ */
+async function reconnectLegacySse(connection: McpServerConnection, attempt: number): Promise<void> {
+  try {
+    await openLegacySseStream(connection, attempt);
+    await initializeServer(connection);
+    await loadServerFeatures(connection);
+    updateStatus(connection.config, { state: "connected", lastError: undefined });
   } catch (error) {
-    console.error("Failed to connect to SSE server:", error);
-    throw new Error(`Verbindung zu ${config.name} fehlgeschlagen: ${error}`);
+    console.warn(`[MCP ${connection.config.name}] Reconnect failed:`, error);
+    scheduleReconnect(connection, attempt, () => reconnectLegacySse(connection, attempt + 1));
   }
 }
 
 /**
- * Initialize an MCP server and get available tools
+ * Retry with exponential backoff; give up after MAX_RECONNECT_ATTEMPTS
  */
-async function initializeServer(serverId: string): Promise<McpTool[]> {
-  const connection = connections.get(serverId);
-  if (!connection) {
-    return [];
+function scheduleReconnect(connection: McpServerConnection, attempt: number, reconnect: () => Promise<void>): void {
+  if (!isActive(connection)) {
+    return;
+  }
+
+  if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+    closeConnection(connection, new Error("Verbindung zum Server verloren"));
+    return;
+  }
+
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+  if (connection.config.type === "sse") {
+    // Without the stream the legacy transport can't receive anything
+    updateStatus(connection.config, { state: "reconnecting" });
+  }
+  appendLog(connection.config, `Event-Stream getrennt, neuer Versuch in ${Math.round(delay / 1000)}s`);
+  setTimeout(() => {
+    if (isActive(connection)) {
+      reconnect();
+    }
+  }, delay);
+}
+
+/**
+ * Send a message to the endpoint announced by a legacy SSE server.
+ * The answer arrives on the event stream.
+ */
+async function postLegacySse(connection: McpServerConnection, message: JsonRpcMessage): Promise<void> {
+  if (!connection.messageEndpoint) {
+    throw new Error("Kein Nachrichten-Endpunkt verfügbar");
+  }
+
+  const response = await fetch(connection.messageEndpoint, {
+    method: "POST",
+    headers: buildHeaders(connection, { "Content-Type": "application/json" }),
+    body: JSON.stringify(message),
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
   }
+}
 
-  // For stdio servers, send initialize request via JSON-RPC
-  // This is a simplified implementation
-  // Full MCP would use proper JSON-RPC over stdin/stdout
+/**
+ * Handle a "message" event carrying one or more JSON-RPC messages
+ */
+function handleSseMessage(connection: McpServerConnection, event: SseEvent): void {
+  if (event.id) {
+    connection.lastEventId = event.id;
+  }
+  if (event.event !== "message" || !event.data.trim()) {
+    return;
+  }
 
-  return connection.tools;
+  try {
+    const data = JSON.parse(event.data) as JsonRpcMessage | JsonRpcMessage[];
+    for (const item of Array.isArray(data) ? data : [data]) {
+      handleMessage(connection, item);
+    }
+  } catch {
+    console.warn(`[MCP ${connection.config.name}] Invalid event data:`, event.data);
+  }
+}
+
+/**
+ * Parse a Server-Sent Events stream and call onEvent for every event
+ */
+async function readEventStream(body: ReadableStream<Uint8Array>, onEvent: (event: SseEvent) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let current: SseEvent = { event: "message", data: "" };
+  let hasData = false;
+
+  const dispatch = () => {
+    if (hasData) {
+      // The spec strips the final newline of the data buffer
+      onEvent({ ...current, data: current.data.replace(/\n$/, "") });
+    }
+    current = { event: "message", data: "" };
+    hasData = false;
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r\n|\r|\n/);
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line === "") {
+        dispatch();
+        continue;
+      }
+      if (line.startsWith(":")) continue;  // Comment / keep-alive
+
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? "" : line.slice(colon + 1);
+      if (value.startsWith(" ")) value = value.slice(1);
+
+      switch (field) {
+        case "event":
+          current.event = value;
+          break;
+        case "data":
+          current.data += value + "\n";
+          hasData = true;
+          break;
+        case "id":
+          current.id = value;
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  dispatch();
+}
+
+/**
+ * Perform the MCP initialize handshake
+ */
+async function initializeServer(connection: McpServerConnection): Promise<void> {
+  const result = await sendRequest<{
+    protocolVersion: string;
+    capabilities?: McpServerCapabilities;
+    serverInfo?: { name: string; version: string };
+  }>(
+    connection,
+    "initialize",
+    {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    },
+    INITIALIZE_TIMEOUT_MS
+  );
+
+  connection.serverInfo = result.serverInfo;
+  connection.protocolVersion = result.protocolVersion;
+  connection.capabilities = result.capabilities || {};
+  connection.isConnected = true;
+
+  await sendNotification(connection, "notifications/initialized");
+}
+
+/**
+ * Fetch tools, resources and prompts the server announced in its capabilities
+ */
+async function loadServerFeatures(connection: McpServerConnection): Promise<void> {
+  const capabilities = connection.capabilities || {};
+
+  connection.tools = capabilities.tools
+    ? await listAll<McpTool>(connection, "tools/list", "tools")
+    : [];
+
+  // Resources and prompts are optional extras - a failure here shouldn't break the tools
+  try {
+    connection.resources = capabilities.resources
+      ? await listAll<McpResource>(connection, "resources/list", "resources")
+      : [];
+    connection.prompts = capabilities.prompts
+      ? await listAll<McpPrompt>(connection, "prompts/list", "prompts")
+      : [];
+  } catch (error) {
+    console.warn(`[MCP ${connection.config.name}] Could not load resources/prompts:`, error);
+  }
+
+  updateStatus(connection.config, { tools: connection.tools });
+}
+
+/**
+ * Run a paginated list request, following nextCursor until the end
+ */
+async function listAll<T>(connection: McpServerConnection, method: string, key: string): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await sendRequest<Record<string, unknown> & { nextCursor?: string }>(
+      connection,
+      method,
+      cursor ? { cursor } : {}
+    );
+    items.push(...((result[key] as T[] | undefined) || []));
+    cursor = result.nextCursor;
+  } while (cursor);
+
+  return items;
+}
+
+/**
+ * Turn a tools/call result into text for the model
+ */
+function formatToolResult(result: McpToolResult): string {
+  const content = result.content || [];
+  return content.map(formatContent).join("\n\n");
+}
+
+/**
+ * Turn a single content item into text
+ */
+function formatContent(item: McpContent): string {
+  if (item.type === "text" && typeof item.text === "string") {
+    return item.text;
+  }
+  if (item.type === "resource" && item.resource) {
+    return item.resource.text ?? `[Binärinhalt: ${item.resource.uri}]`;
+  }
+  return JSON.stringify(item, null, 2);
 }
 
 /**
  * Disconnect from an MCP server
  */
 export async function disconnectFromServer(serverId: string): Promise<void> {
+  cancelRestart(serverId);
+
   const connection = connections.get(serverId);
   if (!connection) {
     return;
   }
 
+  closeConnection(connection, new Error("Verbindung wurde getrennt"));
+  updateStatus(connection.config, { state: "disconnected" });
+
   try {
     // For stdio servers, kill the process
     if (connection.config.type === "stdio" && connection.process) {
-      // Kill process
+      const process = connection.process;
+      connection.process = undefined;
+      await process.kill();
     }
 
-    connections.delete(serverId);
+    // For streamable HTTP servers, end the session
+    if (connection.config.type === "http" && connection.sessionId) {
+      await fetch(connection.config.url!, {
+        method: "DELETE",
+        headers: buildHeaders(connection, {}),
+      });
+    }
   } catch (error) {
     console.error("Failed to disconnect from server:", error);
   }
@@ -186,7 +1215,9 @@ export function getAllTools(): { serverId: string; serverName: string; tool: Mcp
 
   for (const [serverId, connection] of connections) {
     if (connection.isConnected) {
+      const disabledTools = connection.config.disabledTools || [];
       for (const tool of connection.tools) {
+        if (disabledTools.includes(tool.name)) continue;
         allTools.push({
           serverId,
           serverName: connection.config.name,
@@ -211,27 +1242,104 @@ export async function callTool(
   if (!connection || !connection.isConnected) {
     throw new Error(`Server ${serverId} ist nicht verbunden`);
   }
+  // The model may still call a tool it saw before it was disabled
+  if (connection.config.disabledTools?.includes(toolName)) {
+    throw new Error(`Das Tool "${toolName}" ist für ${connection.config.name} deaktiviert`);
+  }
 
-  if (connection.config.type === "sse") {
-    // For SSE servers, make HTTP request
-    const response = await fetch(`${connection.config.url}/tools/${toolName}`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ arguments: args }),
-    });
+  const result = await sendRequest<McpToolResult>(connection, "tools/call", {
+    name: toolName,
+    arguments: args,
+  }, TOOL_CALL_TIMEOUT_MS);
+
+  const text = formatToolResult(result);
+  if (result.isError) {
+    throw new Error(text || "Unbekannter Fehler");
+  }
+  return text;
+}
+
+/**
+ * Get all resources from all connected servers
+ */
+export function getAllResources(): { serverId: string; serverName: string; resource: McpResource }[] {
+  const allResources: { serverId: string; serverName: string; resource: McpResource }[] = [];
+
+  for (const [serverId, connection] of connections) {
+    if (connection.isConnected) {
+      for (const resource of connection.resources) {
+        allResources.push({
+          serverId,
+          serverName: connection.config.name,
+          resource,
+        });
+      }
+    }
+  }
+
+  return allResources;
+}
+
+/**
+ * Read a resource and return its contents as text
+ */
+export async function readResource(serverId: string, uri: string): Promise<string> {
+  const connection = connections.get(serverId);
+  if (!connection || !connection.isConnected) {
+    throw new Error(`Server ${serverId} ist nicht verbunden`);
+  }
 
-    if (!response.ok) {
-      throw new Error(`Tool-Aufruf fehlgeschlagen: HTTP ${response.status}`);
+  const result = await sendRequest<{
+    contents: Array<{ uri: string; mimeType?: string; text?: string; blob?: string }>;
+  }>(connection, "resources/read", { uri });
+
+  return (result.contents || [])
+    .map(item => item.text ?? `[Binärinhalt: ${item.uri}${item.mimeType ? ` (${item.mimeType})` : ""}]`)
+    .join("\n\n");
+}
+
+/**
+ * Get all prompts from all connected servers
+ */
+export function getAllPrompts(): { serverId: string; serverName: string; prompt: McpPrompt }[] {
+  const allPrompts: { serverId: string; serverName: string; prompt: McpPrompt }[] = [];
+
+  for (const [serverId, connection] of connections) {
+    if (connection.isConnected) {
+      for (const prompt of connection.prompts) {
+        allPrompts.push({
+          serverId,
+          serverName: connection.config.name,
+          prompt,
+        });
+      }
     }
+  }
 
-    return response.json();
-  } else {
-    // For stdio servers, send JSON-RPC request
-    // This would require proper stdin/stdout communication
-    throw new Error("Stdio-Tool-Aufrufe sind noch nicht implementiert");
+  return allPrompts;
+}
+
+/**
+ * Render a prompt with the given arguments into chat messages
+ */
+export async function getPrompt(
+  serverId: string,
+  promptName: string,
+  args: Record<string, string>
+): Promise<McpPromptMessage[]> {
+  const connection = connections.get(serverId);
+  if (!connection || !connection.isConnected) {
+    throw new Error(`Server ${serverId} ist nicht verbunden`);
   }
+
+  const result = await sendRequest<{
+    messages: Array<{ role: "user" | "assistant"; content: McpContent }>;
+  }>(connection, "prompts/get", { name: promptName, arguments: args });
+
+  return (result.messages || []).map(message => ({
+    role: message.role,
+    content: formatContent(message.content),
+  }));
 }
 
 /**
@@ -249,18 +1357,15 @@ export function hasConnectedServers(): boolean {
 /**
  * Get connection status for all servers
  */
-export function getConnectionStatus(): { id: string; name: string; connected: boolean }[] {
-  const status: { id: string; name: string; connected: boolean }[] = [];
-  
-  for (const [id, connection] of connections) {
-    status.push({
-      id,
-      name: connection.config.name,
-      connected: connection.isConnected,
-    });
-  }
+export function getConnectionStatus(): McpServerStatus[] {
+  return [...serverStatus.values()];
+}
 
-  return status;
+/**
+ * Get the status of a single server
+ */
+export function getServerStatus(serverId: string): McpServerStatus | undefined {
+  return serverStatus.get(serverId);
 }
 
 /**
@@ -293,36 +1398,36 @@ export function mcpToolsToOpenAI(tools: { serverId: string; serverName: string;
 }
 
 /**
- * Parse MCP tool call from OpenAI function name
+ * Parse MCP tool call from OpenAI function name. Server ids and tool names
+ * may contain "_" themselves, so the name is looked up in the tools of the
+ * connected servers instead of being split.
  */
 export function parseMcpToolCall(functionName: string): { serverId: string; toolName: string } | null {
   if (!functionName.startsWith("mcp_")) {
     return null;
   }
 
-  const parts = functionName.slice(4).split("_");
-  if (parts.length < 2) {
-    return null;
+  for (const [serverId, connection] of connections) {
+    if (!connection.isConnected) continue;
+    const tool = connection.tools.find(t => `mcp_${serverId}_${t.name}` === functionName);
+    if (tool) return { serverId, toolName: tool.name };
   }
-
-  const serverId = parts[0];
-  const toolName = parts.slice(1).join("_");
-
-  return { serverId, toolName };
+  return null;
 }
 
 // Example MCP server configurations
 // These are examples that users can add manually in settings
 export const EXAMPLE_MCP_SERVERS: McpServerConfig[] = [
-  // SSE (HTTP) based servers
+  // Stdio (process) based servers
   {
     id: "brave-search",
     name: "Brave Search",
-    type: "sse",
-    url: "http://localhost:3001",
+    type: "stdio",
+    command: "npx",
+    args: ["-y", "@modelcontextprotocol/server-brave-search"],
+    secretEnv: ["BRAVE_API_KEY"],
     enabled: false,
   },
-  // Stdio (process) based servers
   {
     id: "mcp-filesystem",
     name: "MCP Filesystem",
@@ -337,6 +1442,7 @@ export const EXAMPLE_MCP_SERVERS: McpServerConfig[] = [
     type: "stdio",
     command: "npx",
     args: ["-y", "@modelcontextprotocol/server-github"],
+    secretEnv: ["GITHUB_PERSONAL_ACCESS_TOKEN"],
     enabled: false,
   },
   {
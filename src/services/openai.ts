@@ -1,8 +1,14 @@
-import OpenAI from "openai";
 import { invoke } from "@tauri-apps/api/core";
-import { readTextFile, writeTextFile, fileExists, readDirectory, renameFile, createDirectory } from "./fileSystem";
+import { readTextFile, writeTextFile, fileExists, readDirectory, renameFile, createDirectory, isSymlink } from "./fileSystem";
 import { moveToTrash } from "./trash";
+import { applyEdits, applyUnifiedDiff, type TextEdit } from "./patch";
+import { sanitizeVaultPath } from "./vaultPath";
+import { parseProperties, parsePropertyFilters, setProperty, toProperty } from "./frontmatter";
+import { loadProjectInstructions, INSTRUCTIONS_FILE } from "./projectInstructions";
+import type { LinkRewrite } from "./linkRewrite";
+import type { ToolPermission } from "./toolPermissions";
 import { getAllTools, callTool, parseMcpToolCall, mcpToolsToOpenAI, type McpServerConfig } from "./mcp";
+import { createClient, type LlmMessage, type LlmToolCall, type LlmToolDefinition, type ModelSelection } from "./llm";
 
 // Types for web search
 interface WebSearchResult {
@@ -16,214 +22,348 @@ interface WebSearchResponse {
   error: string | null;
 }
 
-interface ProposedChange {
+// Structural operations are staged like content edits when diff mode is on
+export type ProposedChangeKind = "update" | "create" | "create_folder" | "rename" | "move" | "delete";
+
+export interface ProposedChange {
   filePath: string;
   fileName: string;
   originalContent: string;
   newContent: string;
+  // Missing means "update"
+  kind?: ProposedChangeKind;
+  // Target path of a rename or move
+  newPath?: string;
+}
+
+// File operation a tool carried out directly, recorded so it can be undone
+export interface FileOperation {
+  tool: string;
+  kind: ProposedChangeKind;
+  path: string;
+  newPath?: string;
+  previousContent?: string;
+  newContent?: string;
+  trashPath?: string;
 }
 
 interface ChatOptions {
   messages: Array<{ role: "user" | "assistant" | "system"; content: string }>;
-  apiKey: string;
-  model: string;
+  selection: ModelSelection;
   projectPath?: string;
   mcpServers?: McpServerConfig[];
+  // Global instructions from the settings, project instructions are read from the vault
+  customPrompt?: string;
   onFileCreated?: (path: string) => void;
   onFileUpdated?: (path: string, newContent: string) => void;
   onProposedChange?: (change: ProposedChange) => void;
+  // Content of a change that is still waiting for review, edits build on it
+  getPendingChange?: (filePath: string) => ProposedChange | undefined;
+  onFileOperation?: (operation: FileOperation) => void;
+  // Permission policy: "deny" blocks a tool, "ask" waits for confirmToolCall
+  getToolPermission?: (toolName: string) => ToolPermission;
+  confirmToolCall?: (toolName: string, args: Record<string, unknown>) => Promise<boolean>;
+  // Agent budget: tool rounds and total tokens before the model has to answer
+  maxSteps?: number;
+  tokenBudget?: number;
+  onToolStep?: (step: ToolStep) => void;
+}
+
+export interface ToolStep {
+  id: string;
+  name: string;
+  arguments: string;
+  result?: string;
+  status: "running" | "done" | "error";
 }
 
+export const DEFAULT_MAX_STEPS = 10;
+export const DEFAULT_TOKEN_BUDGET = 100_000;
+
+const BUDGET_NOTE = "Das Budget für Arbeitsschritte ist aufgebraucht. Rufe keine weiteren Tools auf. Fasse kurz zusammen, was du erledigt hast und was noch offen ist.";
+
+type ToolCallOptions = Pick<
+  ChatOptions,
+  | "onFileUpdated"
+  | "onFileCreated"
+  | "onProposedChange"
+  | "getPendingChange"
+  | "onFileOperation"
+  | "getToolPermission"
+  | "confirmToolCall"
+>;
+
+// Arguments of the built-in tools that are paths inside the vault
+const PATH_ARGUMENTS: Record<string, string[]> = {
+  read_file: ["file_path"],
+  create_file: ["file_path"],
+  update_file: ["file_path"],
+  edit_file: ["file_path"],
+  get_properties: ["file_path"],
+  set_properties: ["file_path"],
+  list_files: ["directory"],
+  rename_file: ["old_path"],
+  delete_file: ["file_path"],
+  create_folder: ["folder_path"],
+  move_file: ["source_path", "destination_folder"],
+};
+
+// Only the listing and the move target may point to the vault root
+const ROOT_ARGUMENTS = ["directory", "destination_folder"];
+
 interface StreamingChatOptions extends ChatOptions {
   onToken: (token: string, fullText: string) => void;
-  onToolCall?: (toolName: string) => void;
   abortSignal?: AbortSignal;
 }
 
 // Define the tools/functions the AI can use
-const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+const tools: LlmToolDefinition[] = [
   {
-    type: "function",
-    function: {
-      name: "read_file",
-      description: "Liest den Inhalt einer Markdown-Datei aus dem Projekt",
-      parameters: {
-        type: "object",
-        properties: {
-          file_path: {
-            type: "string",
-            description: "Der relative Pfad zur Datei (z.B. 'notizen/ideen.md' oder 'README.md')",
-          },
+    name: "read_file",
+    description: "Liest den Inhalt einer Markdown-Datei aus dem Projekt",
+    parameters: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "Der relative Pfad zur Datei (z.B. 'notizen/ideen.md' oder 'README.md')",
         },
-        required: ["file_path"],
       },
+      required: ["file_path"],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "create_file",
-      description: "Erstellt eine neue Markdown-Datei im Projekt",
-      parameters: {
-        type: "object",
-        properties: {
-          file_path: {
-            type: "string",
-            description: "Der relative Pfad für die neue Datei (z.B. 'notizen/neue-idee.md')",
-          },
-          content: {
-            type: "string",
-            description: "Der Markdown-Inhalt der Datei",
-          },
+    name: "create_file",
+    description: "Erstellt eine neue Markdown-Datei im Projekt",
+    parameters: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "Der relative Pfad für die neue Datei (z.B. 'notizen/neue-idee.md')",
+        },
+        content: {
+          type: "string",
+          description: "Der Markdown-Inhalt der Datei",
         },
-        required: ["file_path", "content"],
       },
+      required: ["file_path", "content"],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "update_file",
-      description: "Aktualisiert den Inhalt einer bestehenden Markdown-Datei",
-      parameters: {
-        type: "object",
-        properties: {
-          file_path: {
-            type: "string",
-            description: "Der relative Pfad zur Datei",
-          },
-          content: {
-            type: "string",
-            description: "Der neue Markdown-Inhalt der Datei",
-          },
+    name: "update_file",
+    description: "Aktualisiert den Inhalt einer bestehenden Markdown-Datei",
+    parameters: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "Der relative Pfad zur Datei",
+        },
+        content: {
+          type: "string",
+          description: "Der neue Markdown-Inhalt der Datei",
         },
-        required: ["file_path", "content"],
       },
+      required: ["file_path", "content"],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "list_files",
-      description: "Listet alle Dateien und Ordner im Projekt oder einem Unterordner auf",
-      parameters: {
-        type: "object",
-        properties: {
-          directory: {
-            type: "string",
-            description: "Optionaler relativer Pfad zum Unterordner. Leer lassen für Projekt-Root.",
+    name: "edit_file",
+    description: "Ändert gezielte Stellen einer bestehenden Datei, ohne den ganzen Inhalt neu zu senden. Entweder edits (Suchen/Ersetzen oder Zeilenbereiche) oder diff (Unified Diff) angeben.",
+    parameters: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "Der relative Pfad zur Datei",
+        },
+        edits: {
+          type: "array",
+          description: "Änderungen, alle beziehen sich auf den aktuellen Inhalt der Datei",
+          items: {
+            type: "object",
+            properties: {
+              old_text: {
+                type: "string",
+                description: "Exakter Text, der ersetzt wird (muss eindeutig sein). Bei Zeilenbereichen optional als Kontrolle.",
+              },
+              new_text: {
+                type: "string",
+                description: "Der neue Text",
+              },
+              replace_all: {
+                type: "boolean",
+                description: "Alle Vorkommen von old_text ersetzen",
+              },
+              start_line: {
+                type: "number",
+                description: "Erste zu ersetzende Zeile (1-basiert) statt old_text",
+              },
+              end_line: {
+                type: "number",
+                description: "Letzte zu ersetzende Zeile (inklusive)",
+              },
+            },
+            required: ["new_text"],
           },
         },
-        required: [],
+        diff: {
+          type: "string",
+          description: "Unified Diff mit @@-Hunks als Alternative zu edits",
+        },
       },
+      required: ["file_path"],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "search_content",
-      description: "Durchsucht alle Markdown-Dateien nach einem Suchbegriff",
-      parameters: {
-        type: "object",
-        properties: {
-          query: {
-            type: "string",
-            description: "Der Suchbegriff",
-          },
+    name: "get_properties",
+    description: "Liest die Eigenschaften (YAML-Frontmatter) einer Notiz als JSON mit Name, Typ (text, list, date, number, link) und Wert",
+    parameters: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "Der relative Pfad zur Notiz",
         },
-        required: ["query"],
       },
+      required: ["file_path"],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "rename_file",
-      description: "Benennt eine Datei oder einen Ordner um (ändert nur den Namen, nicht den Inhalt)",
-      parameters: {
-        type: "object",
+    name: "set_properties",
+    description: "Setzt oder entfernt Eigenschaften im Frontmatter einer Notiz, der restliche Inhalt bleibt unverändert",
+    parameters: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "Der relative Pfad zur Notiz",
+        },
         properties: {
-          old_path: {
-            type: "string",
-            description: "Der aktuelle relative Pfad zur Datei (z.B. 'notizen/alte-notiz.md')",
-          },
-          new_name: {
-            type: "string",
-            description: "Der neue Dateiname (nur der Name, nicht der ganze Pfad, z.B. 'neue-notiz.md')",
-          },
+          type: "object",
+          description: "Eigenschaften als Name → Wert. Listen als Array, Datum als 'JJJJ-MM-TT', Links als '[[Notiz]]', null entfernt die Eigenschaft.",
         },
-        required: ["old_path", "new_name"],
       },
+      required: ["file_path", "properties"],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "delete_file",
-      description: "Löscht eine Datei (verschiebt sie in den Papierkorb)",
-      parameters: {
-        type: "object",
-        properties: {
-          file_path: {
-            type: "string",
-            description: "Der relative Pfad zur Datei die gelöscht werden soll",
-          },
+    name: "find_notes_by_properties",
+    description: "Findet Notizen anhand ihrer Eigenschaften und gibt sie mit allen Eigenschaften als JSON zurück",
+    parameters: {
+      type: "object",
+      properties: {
+        filter: {
+          type: "string",
+          description: "Filter als name:wert, mehrere mit Leerzeichen getrennt (z.B. 'status:entwurf tags:projekt'). Werte mit Leerzeichen in Anführungszeichen.",
         },
-        required: ["file_path"],
       },
+      required: ["filter"],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "create_folder",
-      description: "Erstellt einen neuen Ordner im Projekt",
-      parameters: {
-        type: "object",
-        properties: {
-          folder_path: {
-            type: "string",
-            description: "Der relative Pfad für den neuen Ordner (z.B. 'notizen/archiv' oder 'projekte')",
-          },
+    name: "list_files",
+    description: "Listet alle Dateien und Ordner im Projekt oder einem Unterordner auf",
+    parameters: {
+      type: "object",
+      properties: {
+        directory: {
+          type: "string",
+          description: "Optionaler relativer Pfad zum Unterordner. Leer lassen für Projekt-Root.",
         },
-        required: ["folder_path"],
       },
+      required: [],
     },
   },
   {
-    type: "function",
-    function: {
-      name: "move_file",
-      description: "Verschiebt eine Datei oder einen Ordner an einen anderen Ort",
-      parameters: {
-        type: "object",
-        properties: {
-          source_path: {
-            type: "string",
-            description: "Der aktuelle relative Pfad zur Datei/Ordner (z.B. 'alte-notiz.md')",
-          },
-          destination_folder: {
-            type: "string",
-            description: "Der Zielordner (z.B. 'archiv' oder 'notizen/alt'). Leer lassen für Projekt-Root.",
-          },
+    name: "search_content",
+    description: "Durchsucht alle Markdown-Dateien nach einem Suchbegriff",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Der Suchbegriff",
         },
-        required: ["source_path", "destination_folder"],
       },
+      required: ["query"],
+    },
+  },
+  {
+    name: "rename_file",
+    description: "Benennt eine Datei oder einen Ordner um (ändert nur den Namen, nicht den Inhalt)",
+    parameters: {
+      type: "object",
+      properties: {
+        old_path: {
+          type: "string",
+          description: "Der aktuelle relative Pfad zur Datei (z.B. 'notizen/alte-notiz.md')",
+        },
+        new_name: {
+          type: "string",
+          description: "Der neue Dateiname (nur der Name, nicht der ganze Pfad, z.B. 'neue-notiz.md')",
+        },
+      },
+      required: ["old_path", "new_name"],
+    },
+  },
+  {
+    name: "delete_file",
+    description: "Löscht eine Datei (verschiebt sie in den Papierkorb)",
+    parameters: {
+      type: "object",
+      properties: {
+        file_path: {
+          type: "string",
+          description: "Der relative Pfad zur Datei die gelöscht werden soll",
+        },
+      },
+      required: ["file_path"],
+    },
+  },
+  {
+    name: "create_folder",
+    description: "Erstellt einen neuen Ordner im Projekt",
+    parameters: {
+      type: "object",
+      properties: {
+        folder_path: {
+          type: "string",
+          description: "Der relative Pfad für den neuen Ordner (z.B. 'notizen/archiv' oder 'projekte')",
+        },
+      },
+      required: ["folder_path"],
+    },
+  },
+  {
+    name: "move_file",
+    description: "Verschiebt eine Datei oder einen Ordner an einen anderen Ort",
+    parameters: {
+      type: "object",
+      properties: {
+        source_path: {
+          type: "string",
+          description: "Der aktuelle relative Pfad zur Datei/Ordner (z.B. 'alte-notiz.md')",
+        },
+        destination_folder: {
+          type: "string",
+          description: "Der Zielordner (z.B. 'archiv' oder 'notizen/alt'). Leer lassen für Projekt-Root.",
+        },
+      },
+      required: ["source_path", "destination_folder"],
     },
   },
   // Web-Suche temporär deaktiviert
   // {
-  //   type: "function",
-  //   function: {
-  //     name: "web_search",
-  //     description: "Sucht im Internet nach Informationen.",
-  //     parameters: {
-  //       type: "object",
-  //       properties: {
-  //         query: { type: "string", description: "Der Suchbegriff" },
-  //       },
-  //       required: ["query"],
+  //   name: "web_search",
+  //   description: "Sucht im Internet nach Informationen.",
+  //   parameters: {
+  //     type: "object",
+  //     properties: {
+  //       query: { type: "string", description: "Der Suchbegriff" },
   //     },
+  //     required: ["query"],
   //   },
   // },
 ];
@@ -234,7 +374,10 @@ Du hast Zugriff auf folgende Funktionen:
 - read_file: Liest den Inhalt einer Datei
 - create_file: Erstellt eine neue Markdown-Datei
 - create_folder: Erstellt einen neuen Ordner
-- update_file: Aktualisiert eine bestehende Datei (Inhalt ändern)
+- edit_file: Ändert gezielte Stellen einer Datei (Suchen/Ersetzen, Zeilenbereich oder Diff)
+- get_properties / set_properties: Liest oder ändert die Eigenschaften (Frontmatter) einer Notiz
+- find_notes_by_properties: Findet Notizen anhand ihrer Eigenschaften (z.B. status:entwurf)
+- update_file: Ersetzt den kompletten Inhalt einer bestehenden Datei
 - rename_file: Benennt eine Datei um (nur Name ändern, nicht Inhalt)
 - move_file: Verschiebt eine Datei/Ordner an einen anderen Ort
 - delete_file: Löscht eine Datei (verschiebt in Papierkorb)
@@ -246,10 +389,10 @@ WICHTIG FÜR AKTIONEN:
 - Wenn der Benutzer einen ORDNER erstellen will, nutze create_folder
 - Wenn der Benutzer eine Datei UMBENENNEN will, nutze rename_file (NICHT update_file!)
 - Wenn der Benutzer eine Datei VERSCHIEBEN will, nutze move_file
-- Wenn der Benutzer den INHALT einer Datei ändern will, nutze update_file
+- Wenn der Benutzer den INHALT einer Datei ändern will, nutze edit_file mit kleinen, eindeutigen Suchtexten
+- Nutze update_file nur, wenn sich fast der ganze Inhalt ändert
+- Für Eigenschaften im Frontmatter (Status, Tags, Datum usw.) nutze set_properties statt edit_file
 - Wenn der Benutzer nach Dateien fragt, nutze list_files oder read_file
-- Verwende aussagekräftige Dateinamen in kebab-case (z.B. meine-notiz.md)
-- Beginne jede neue Datei mit einem H1-Titel
 
 WICHTIG FÜR ANTWORTEN:
 - Halte deine Antworten KURZ und PRÄGNANT
@@ -262,7 +405,12 @@ WICHTIG FÜR ANTWORTEN:
 ANTWORTSTIL:
 - Kurz und freundlich
 - Bestätige erledigte Aufgaben mit einem Satz
-- Bei Fragen: Antworte direkt und hilfreich
+- Bei Fragen: Antworte direkt und hilfreich`;
+
+// Style rules that user and project instructions may override
+const DEFAULT_CONVENTIONS = `STANDARD-KONVENTIONEN (gelten, solange die Anweisungen unten nichts anderes festlegen):
+- Verwende aussagekräftige Dateinamen in kebab-case (z.B. meine-notiz.md)
+- Beginne jede neue Datei mit einem H1-Titel
 - Antworte auf Deutsch, es sei denn, der Benutzer schreibt in einer anderen Sprache`;
 
 // Helper to get all files recursively
@@ -271,6 +419,8 @@ async function getAllFiles(dirPath: string, basePath: string = ""): Promise<stri
   try {
     const entries = await readDirectory(dirPath);
     for (const entry of entries) {
+      // Linked files and folders may point outside the vault
+      if (await isSymlink(entry.path)) continue;
       const relativePath = basePath ? `${basePath}/${entry.name}` : entry.name;
       if (entry.isDirectory && entry.children !== undefined) {
         const subFiles = await getAllFiles(entry.path, relativePath);
@@ -285,40 +435,151 @@ async function getAllFiles(dirPath: string, basePath: string = ""): Promise<stri
   return files;
 }
 
+// Links to a renamed or moved note, computed before the rename. Edits
+// that are still under review are taken into account.
+async function planRenameLinkRewrites(
+  projectPath: string,
+  oldPath: string,
+  newPath: string,
+  options: ToolCallOptions
+): Promise<LinkRewrite[]> {
+  try {
+    const { planLinkRewrites } = await import("./linkRewrite");
+    return await planLinkRewrites(projectPath, oldPath, newPath, (path) => options.getPendingChange?.(path)?.newContent);
+  } catch (error) {
+    console.error("Failed to plan link rewrites:", error);
+    return [];
+  }
+}
+
+// Propose the link rewrites for review or write them right away; returns
+// a note for the tool result
+async function applyRenameLinkRewrites(
+  toolName: string,
+  rewrites: LinkRewrite[],
+  options: ToolCallOptions
+): Promise<string> {
+  if (rewrites.length === 0) return "";
+  const count = rewrites.reduce((sum, rewrite) => sum + rewrite.count, 0);
+
+  if (options.onProposedChange) {
+    // Proposed under the current path, content updates are applied before renames
+    for (const rewrite of rewrites) {
+      const pending = options.getPendingChange?.(rewrite.filePath);
+      options.onProposedChange({
+        filePath: rewrite.filePath,
+        fileName: rewrite.filePath.split("/").pop() || rewrite.filePath,
+        originalContent: pending?.originalContent ?? rewrite.originalContent,
+        newContent: rewrite.newContent,
+        kind: pending?.kind,
+      });
+    }
+    return ` Anpassung von ${count} Links in ${rewrites.length} Dateien wurde vorgeschlagen.`;
+  }
+
+  for (const rewrite of rewrites) {
+    await writeTextFile(rewrite.newFilePath, rewrite.newContent);
+    options.onFileOperation?.({
+      tool: toolName,
+      kind: "update",
+      path: rewrite.newFilePath,
+      previousContent: rewrite.originalContent,
+      newContent: rewrite.newContent,
+    });
+    options.onFileUpdated?.(rewrite.newFilePath, rewrite.newContent);
+  }
+  return ` ${count} Links in ${rewrites.length} Dateien wurden angepasst.`;
+}
+
+// Result of a tool call, failures are flagged for the UI and MCP clients
+export interface ToolResult {
+  content: string;
+  isError: boolean;
+}
+
+function toolResult(content: string): ToolResult {
+  return { content, isError: false };
+}
+
+function toolError(content: string): ToolResult {
+  return { content, isError: true };
+}
+
 // Process function calls
 async function processToolCall(
-  toolCall: OpenAI.Chat.Completions.ChatCompletionMessageToolCall,
+  toolCall: LlmToolCall,
   projectPath: string,
-  options: ChatOptions
-): Promise<string> {
-  const { name, arguments: argsString } = toolCall.function;
-  const args = JSON.parse(argsString);
+  options: ToolCallOptions
+): Promise<ToolResult> {
+  const { name, arguments: argsString } = toolCall;
+  let args;
+  try {
+    args = JSON.parse(argsString || "{}");
+  } catch {
+    return toolError(`Fehler: Ungültige Argumente für ${name} (kein gültiges JSON).`);
+  }
 
   console.log(`Processing tool call: ${name}`, args);
 
+  // Paths are resolved centrally so no tool can reach outside the vault
+  for (const key of PATH_ARGUMENTS[name] || []) {
+    if (args[key] === undefined || args[key] === null) continue;
+    try {
+      args[key] = await sanitizeVaultPath(projectPath, String(args[key]));
+    } catch (error) {
+      return toolError(`Fehler: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!args[key] && !ROOT_ARGUMENTS.includes(key)) {
+      return toolError(`Fehler: Für ${key} wurde kein Pfad angegeben.`);
+    }
+  }
+  if (name === "rename_file" && (typeof args.new_name !== "string" || /[/\\]/.test(args.new_name) || [".", ".."].includes(args.new_name.trim()))) {
+    return toolError("Fehler: new_name muss ein einfacher Dateiname ohne Pfad sein. Verwende move_file zum Verschieben.");
+  }
+
+  // Permission policy, covers MCP tools as well
+  const permission = options.getToolPermission?.(name) ?? "allow";
+  if (permission === "deny") {
+    return toolError(`Fehler: Das Tool "${name}" ist in den Einstellungen gesperrt.`);
+  }
+  if (permission === "ask") {
+    const allowed = options.confirmToolCall ? await options.confirmToolCall(name, args) : false;
+    if (!allowed) {
+      return toolError(`Fehler: Der Benutzer hat den Aufruf von "${name}" abgelehnt.`);
+    }
+  }
+
   // Check if this is an MCP tool call
   const mcpCall = parseMcpToolCall(name);
   if (mcpCall) {
     try {
       const result = await callTool(mcpCall.serverId, mcpCall.toolName, args);
-      return typeof result === "string" ? result : JSON.stringify(result, null, 2);
+      return toolResult(typeof result === "string" ? result : JSON.stringify(result, null, 2));
     } catch (error) {
-      return `MCP-Tool Fehler: ${error instanceof Error ? error.message : String(error)}`;
+      return toolError(`MCP-Tool Fehler: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
+  if (name.startsWith("mcp_")) {
+    return toolError(`MCP-Tool Fehler: Kein verbundener Server bietet "${name}" an.`);
+  }
 
   switch (name) {
     case "read_file": {
       const filePath = `${projectPath}/${args.file_path}`;
       try {
+        // Edits apply to the reviewed version, so the model has to see it too
+        const pending = options.getPendingChange?.(filePath);
         const exists = await fileExists(filePath);
-        if (!exists) {
-          return `Fehler: Datei "${args.file_path}" nicht gefunden.`;
+        if (!exists && pending?.kind !== "create") {
+          return toolError(`Fehler: Datei "${args.file_path}" nicht gefunden.`);
+        }
+        if (pending) {
+          return toolResult(`Inhalt von "${args.file_path}" (mit noch nicht bestätigten Änderungen):\n\n${pending.newContent}`);
         }
         const content = await readTextFile(filePath);
-        return `Inhalt von "${args.file_path}":\n\n${content}`;
+        return toolResult(`Inhalt von "${args.file_path}":\n\n${content}`);
       } catch (error) {
-        return `Fehler beim Lesen der Datei: ${error}`;
+        return toolError(`Fehler beim Lesen der Datei: ${error}`);
       }
     }
 
@@ -327,25 +588,41 @@ async function processToolCall(
       try {
         const exists = await fileExists(filePath);
         if (exists) {
-          return `Fehler: Datei "${args.file_path}" existiert bereits. Verwende update_file zum Aktualisieren.`;
+          return toolError(`Fehler: Datei "${args.file_path}" existiert bereits. Verwende update_file zum Aktualisieren.`);
+        }
+
+        if (options.onProposedChange) {
+          options.onProposedChange({
+            filePath,
+            fileName: args.file_path.split("/").pop() || args.file_path,
+            originalContent: "",
+            newContent: args.content,
+            kind: "create",
+          });
+          return toolResult(`Neue Datei "${args.file_path}" wurde vorgeschlagen. Der Benutzer muss die Erstellung bestätigen.`);
         }
+
         await writeTextFile(filePath, args.content);
-        return `Datei "${args.file_path}" wurde erfolgreich erstellt.`;
+        options.onFileOperation?.({ tool: name, kind: "create", path: filePath, newContent: args.content });
+        options.onFileCreated?.(filePath);
+        return toolResult(`Datei "${args.file_path}" wurde erfolgreich erstellt.`);
       } catch (error) {
-        return `Fehler beim Erstellen der Datei: ${error}`;
+        return toolError(`Fehler beim Erstellen der Datei: ${error}`);
       }
     }
 
     case "update_file": {
       const filePath = `${projectPath}/${args.file_path}`;
       try {
+        // A file that is only staged for creation can be updated as well
+        const pending = options.getPendingChange?.(filePath);
         const exists = await fileExists(filePath);
-        if (!exists) {
-          return `Fehler: Datei "${args.file_path}" nicht gefunden. Verwende create_file zum Erstellen.`;
+        if (!exists && pending?.kind !== "create") {
+          return toolError(`Fehler: Datei "${args.file_path}" nicht gefunden. Verwende create_file zum Erstellen.`);
         }
         
         // Read original content for diff
-        const originalContent = await readTextFile(filePath);
+        const originalContent = pending?.originalContent ?? await readTextFile(filePath);
         const fileName = args.file_path.split("/").pop() || args.file_path;
         
         // If callback provided, propose change instead of writing directly
@@ -355,21 +632,179 @@ async function processToolCall(
             fileName,
             originalContent,
             newContent: args.content,
+            kind: pending?.kind,
           });
-          return `Änderungen für "${args.file_path}" wurden vorgeschlagen. Der Benutzer muss die Änderungen bestätigen.`;
+          return toolResult(`Änderungen für "${args.file_path}" wurden vorgeschlagen. Der Benutzer muss die Änderungen bestätigen.`);
         }
         
         // Direct mode: write and notify
         await writeTextFile(filePath, args.content);
+        options.onFileOperation?.({
+          tool: name,
+          kind: "update",
+          path: filePath,
+          previousContent: originalContent,
+          newContent: args.content,
+        });
         
         // Notify that file was updated so UI can refresh
         if (options.onFileUpdated) {
           options.onFileUpdated(filePath, args.content);
         }
         
-        return `Datei "${args.file_path}" wurde erfolgreich aktualisiert.`;
+        return toolResult(`Datei "${args.file_path}" wurde erfolgreich aktualisiert.`);
+      } catch (error) {
+        return toolError(`Fehler beim Aktualisieren der Datei: ${error}`);
+      }
+    }
+
+    case "edit_file": {
+      const filePath = `${projectPath}/${args.file_path}`;
+      try {
+        // Build on a change that is still under review so earlier edits aren't lost
+        const pending = options.getPendingChange?.(filePath);
+        const exists = await fileExists(filePath);
+        if (!exists && pending?.kind !== "create") {
+          return toolError(`Fehler: Datei "${args.file_path}" nicht gefunden. Verwende create_file zum Erstellen.`);
+        }
+
+        const originalContent = pending?.originalContent ?? await readTextFile(filePath);
+        const currentContent = pending?.newContent ?? originalContent;
+        const fileName = args.file_path.split("/").pop() || args.file_path;
+
+        let newContent: string;
+        try {
+          if (typeof args.diff === "string" && args.diff.trim()) {
+            newContent = applyUnifiedDiff(currentContent, args.diff);
+          } else if (Array.isArray(args.edits)) {
+            newContent = applyEdits(currentContent, args.edits as TextEdit[]);
+          } else {
+            return toolError("Fehler: Entweder edits oder diff angeben.");
+          }
+        } catch (error) {
+          return toolError(`Fehler in "${args.file_path}": ${error instanceof Error ? error.message : String(error)} Es wurde nichts geändert.`);
+        }
+
+        if (newContent === currentContent) {
+          return toolResult(`Keine Änderung: Der Inhalt von "${args.file_path}" bleibt gleich.`);
+        }
+
+        if (options.onProposedChange) {
+          options.onProposedChange({
+            filePath,
+            fileName,
+            originalContent,
+            newContent,
+            kind: pending?.kind,
+          });
+          return toolResult(`Änderungen für "${args.file_path}" wurden vorgeschlagen. Der Benutzer muss die Änderungen bestätigen.`);
+        }
+
+        await writeTextFile(filePath, newContent);
+        options.onFileOperation?.({
+          tool: name,
+          kind: "update",
+          path: filePath,
+          previousContent: originalContent,
+          newContent,
+        });
+        if (options.onFileUpdated) {
+          options.onFileUpdated(filePath, newContent);
+        }
+
+        return toolResult(`Datei "${args.file_path}" wurde erfolgreich bearbeitet.`);
+      } catch (error) {
+        return toolError(`Fehler beim Bearbeiten der Datei: ${error}`);
+      }
+    }
+
+    case "get_properties": {
+      const filePath = `${projectPath}/${args.file_path}`;
+      try {
+        const pending = options.getPendingChange?.(filePath);
+        if (!pending && !(await fileExists(filePath))) {
+          return toolError(`Fehler: Datei "${args.file_path}" nicht gefunden.`);
+        }
+        const content = pending?.newContent ?? await readTextFile(filePath);
+        return toolResult(JSON.stringify({ file: args.file_path, properties: parseProperties(content) }, null, 2));
+      } catch (error) {
+        return toolError(`Fehler beim Lesen der Eigenschaften: ${error}`);
+      }
+    }
+
+    case "set_properties": {
+      const filePath = `${projectPath}/${args.file_path}`;
+      if (!args.properties || typeof args.properties !== "object" || Array.isArray(args.properties)) {
+        return toolError("Fehler: properties muss ein Objekt mit Name → Wert sein.");
+      }
+      try {
+        // Build on a change that is still under review, like edit_file
+        const pending = options.getPendingChange?.(filePath);
+        const exists = await fileExists(filePath);
+        if (!exists && pending?.kind !== "create") {
+          return toolError(`Fehler: Datei "${args.file_path}" nicht gefunden.`);
+        }
+
+        const originalContent = pending?.originalContent ?? await readTextFile(filePath);
+        const currentContent = pending?.newContent ?? originalContent;
+        let newContent = currentContent;
+        try {
+          for (const [key, value] of Object.entries(args.properties as Record<string, unknown>)) {
+            newContent = setProperty(newContent, key, value === null ? null : toProperty(value));
+          }
+        } catch (error) {
+          return toolError(`Fehler in "${args.file_path}": ${error instanceof Error ? error.message : String(error)} Es wurde nichts geändert.`);
+        }
+
+        if (newContent === currentContent) {
+          return toolResult(`Keine Änderung: Die Eigenschaften von "${args.file_path}" bleiben gleich.`);
+        }
+
+        if (options.onProposedChange) {
+          options.onProposedChange({
+            filePath,
+            fileName: args.file_path.split("/").pop() || args.file_path,
+            originalContent,
+            newContent,
+            kind: pending?.kind,
+          });
+          return toolResult(`Änderung der Eigenschaften von "${args.file_path}" wurde vorgeschlagen. Der Benutzer muss sie bestätigen.`);
+        }
+
+        await writeTextFile(filePath, newContent);
+        options.onFileOperation?.({
+          tool: name,
+          kind: "update",
+          path: filePath,
+          previousContent: originalContent,
+          newContent,
+        });
+        options.onFileUpdated?.(filePath, newContent);
+        return toolResult(`Eigenschaften von "${args.file_path}" wurden aktualisiert.`);
+      } catch (error) {
+        return toolError(`Fehler beim Setzen der Eigenschaften: ${error}`);
+      }
+    }
+
+    case "find_notes_by_properties": {
+      const { filters } = parsePropertyFilters(String(args.filter ?? ""));
+      if (filters.length === 0) {
+        return toolError("Fehler: Kein Filter angegeben. Erwartet wird name:wert, z.B. status:entwurf.");
+      }
+      try {
+        // Imported on demand, the link index depends on this module
+        const { buildLinkIndex, findNotesByProperties } = await import("./linkIndex");
+        await buildLinkIndex(projectPath);
+        const notes = findNotesByProperties(filters).map(note => ({
+          file: note.path.slice(projectPath.length + 1),
+          properties: note.properties,
+        }));
+        if (notes.length === 0) {
+          return toolResult(`Keine Notizen mit ${args.filter} gefunden.`);
+        }
+        return toolResult(JSON.stringify(notes, null, 2));
       } catch (error) {
-        return `Fehler beim Aktualisieren der Datei: ${error}`;
+        return toolError(`Fehler bei der Suche nach Eigenschaften: ${error}`);
       }
     }
 
@@ -380,11 +815,11 @@ async function processToolCall(
       try {
         const files = await getAllFiles(dirPath, args.directory || "");
         if (files.length === 0) {
-          return "Keine Markdown-Dateien gefunden.";
+          return toolResult("Keine Markdown-Dateien gefunden.");
         }
-        return `Gefundene Dateien:\n${files.map(f => `- ${f}`).join("\n")}`;
+        return toolResult(`Gefundene Dateien:\n${files.map(f => `- ${f}`).join("\n")}`);
       } catch (error) {
-        return `Fehler beim Auflisten der Dateien: ${error}`;
+        return toolError(`Fehler beim Auflisten der Dateien: ${error}`);
       }
     }
 
@@ -411,11 +846,11 @@ async function processToolCall(
         }
 
         if (results.length === 0) {
-          return `Keine Treffer für "${args.query}" gefunden.`;
+          return toolResult(`Keine Treffer für "${args.query}" gefunden.`);
         }
-        return `Suchergebnisse für "${args.query}":\n\n${results.join("\n\n")}`;
+        return toolResult(`Suchergebnisse für "${args.query}":\n\n${results.join("\n\n")}`);
       } catch (error) {
-        return `Fehler bei der Suche: ${error}`;
+        return toolError(`Fehler bei der Suche: ${error}`);
       }
     }
 
@@ -424,7 +859,7 @@ async function processToolCall(
       try {
         const exists = await fileExists(oldFilePath);
         if (!exists) {
-          return `Fehler: Datei "${args.old_path}" nicht gefunden.`;
+          return toolError(`Fehler: Datei "${args.old_path}" nicht gefunden.`);
         }
         
         // Build new path: keep directory, change name
@@ -436,13 +871,30 @@ async function processToolCall(
         // Check if target already exists
         const targetExists = await fileExists(newFilePath);
         if (targetExists) {
-          return `Fehler: Eine Datei mit dem Namen "${args.new_name}" existiert bereits an dieser Stelle.`;
+          return toolError(`Fehler: Eine Datei mit dem Namen "${args.new_name}" existiert bereits an dieser Stelle.`);
+        }
+        
+        const rewrites = await planRenameLinkRewrites(projectPath, oldFilePath, newFilePath, options);
+
+        if (options.onProposedChange) {
+          options.onProposedChange({
+            filePath: oldFilePath,
+            fileName: pathParts[pathParts.length - 1],
+            originalContent: "",
+            newContent: "",
+            kind: "rename",
+            newPath: newFilePath,
+          });
+          const linkNote = await applyRenameLinkRewrites(name, rewrites, options);
+          return toolResult(`Umbenennung von "${args.old_path}" zu "${newRelativePath}" wurde vorgeschlagen.${linkNote} Der Benutzer muss sie bestätigen.`);
         }
         
         await renameFile(oldFilePath, newFilePath);
-        return `Datei wurde erfolgreich von "${args.old_path}" zu "${newRelativePath}" umbenannt.`;
+        options.onFileOperation?.({ tool: name, kind: "rename", path: oldFilePath, newPath: newFilePath });
+        const linkNote = await applyRenameLinkRewrites(name, rewrites, options);
+        return toolResult(`Datei wurde erfolgreich von "${args.old_path}" zu "${newRelativePath}" umbenannt.${linkNote}`);
       } catch (error) {
-        return `Fehler beim Umbenennen der Datei: ${error}`;
+        return toolError(`Fehler beim Umbenennen der Datei: ${error}`);
       }
     }
 
@@ -451,13 +903,25 @@ async function processToolCall(
       try {
         const exists = await fileExists(filePath);
         if (!exists) {
-          return `Fehler: Datei "${args.file_path}" nicht gefunden.`;
+          return toolError(`Fehler: Datei "${args.file_path}" nicht gefunden.`);
+        }
+        
+        if (options.onProposedChange) {
+          options.onProposedChange({
+            filePath,
+            fileName: args.file_path.split("/").pop() || args.file_path,
+            originalContent: "",
+            newContent: "",
+            kind: "delete",
+          });
+          return toolResult(`Löschen von "${args.file_path}" wurde vorgeschlagen. Der Benutzer muss es bestätigen.`);
         }
         
-        await moveToTrash(filePath, projectPath);
-        return `Datei "${args.file_path}" wurde in den Papierkorb verschoben.`;
+        const trashPath = await moveToTrash(filePath, projectPath);
+        options.onFileOperation?.({ tool: name, kind: "delete", path: filePath, trashPath });
+        return toolResult(`Datei "${args.file_path}" wurde in den Papierkorb verschoben.`);
       } catch (error) {
-        return `Fehler beim Löschen der Datei: ${error}`;
+        return toolError(`Fehler beim Löschen der Datei: ${error}`);
       }
     }
 
@@ -466,13 +930,25 @@ async function processToolCall(
       try {
         const exists = await fileExists(folderPath);
         if (exists) {
-          return `Ordner "${args.folder_path}" existiert bereits.`;
+          return toolResult(`Ordner "${args.folder_path}" existiert bereits.`);
+        }
+        
+        if (options.onProposedChange) {
+          options.onProposedChange({
+            filePath: folderPath,
+            fileName: args.folder_path.split("/").pop() || args.folder_path,
+            originalContent: "",
+            newContent: "",
+            kind: "create_folder",
+          });
+          return toolResult(`Neuer Ordner "${args.folder_path}" wurde vorgeschlagen. Der Benutzer muss die Erstellung bestätigen.`);
         }
         
         await createDirectory(folderPath);
-        return `Ordner "${args.folder_path}" wurde erfolgreich erstellt.`;
+        options.onFileOperation?.({ tool: name, kind: "create_folder", path: folderPath });
+        return toolResult(`Ordner "${args.folder_path}" wurde erfolgreich erstellt.`);
       } catch (error) {
-        return `Fehler beim Erstellen des Ordners: ${error}`;
+        return toolError(`Fehler beim Erstellen des Ordners: ${error}`);
       }
     }
 
@@ -481,7 +957,7 @@ async function processToolCall(
       try {
         const exists = await fileExists(sourcePath);
         if (!exists) {
-          return `Fehler: "${args.source_path}" nicht gefunden.`;
+          return toolError(`Fehler: "${args.source_path}" nicht gefunden.`);
         }
         
         // Get filename from source path
@@ -494,25 +970,43 @@ async function processToolCall(
           : `${projectPath}/${fileName}`;
         const destRelative = destFolder ? `${destFolder}/${fileName}` : fileName;
         
+        // Check if target already exists
+        const targetExists = await fileExists(destPath);
+        if (targetExists) {
+          return toolError(`Fehler: "${destRelative}" existiert bereits am Zielort.`);
+        }
+        
+        const rewrites = await planRenameLinkRewrites(projectPath, sourcePath, destPath, options);
+
+        if (options.onProposedChange) {
+          options.onProposedChange({
+            filePath: sourcePath,
+            fileName,
+            originalContent: "",
+            newContent: "",
+            kind: "move",
+            newPath: destPath,
+          });
+          const linkNote = await applyRenameLinkRewrites(name, rewrites, options);
+          return toolResult(`Verschieben von "${args.source_path}" nach "${destRelative}" wurde vorgeschlagen.${linkNote} Der Benutzer muss es bestätigen.`);
+        }
+        
         // Check if destination folder exists, create if not
         if (destFolder) {
           const destFolderPath = `${projectPath}/${destFolder}`;
           const folderExists = await fileExists(destFolderPath);
           if (!folderExists) {
             await createDirectory(destFolderPath);
+            options.onFileOperation?.({ tool: name, kind: "create_folder", path: destFolderPath });
           }
         }
         
-        // Check if target already exists
-        const targetExists = await fileExists(destPath);
-        if (targetExists) {
-          return `Fehler: "${destRelative}" existiert bereits am Zielort.`;
-        }
-        
         await renameFile(sourcePath, destPath);
-        return `"${args.source_path}" wurde erfolgreich nach "${destRelative}" verschoben.`;
+        options.onFileOperation?.({ tool: name, kind: "move", path: sourcePath, newPath: destPath });
+        const linkNote = await applyRenameLinkRewrites(name, rewrites, options);
+        return toolResult(`"${args.source_path}" wurde erfolgreich nach "${destRelative}" verschoben.${linkNote}`);
       } catch (error) {
-        return `Fehler beim Verschieben: ${error}`;
+        return toolError(`Fehler beim Verschieben: ${error}`);
       }
     }
 
@@ -522,11 +1016,11 @@ async function processToolCall(
         const response = await invoke<WebSearchResponse>("web_search", { query: args.query });
         
         if (response.error) {
-          return `Web-Suche Fehler: ${response.error}`;
+          return toolError(`Web-Suche Fehler: ${response.error}`);
         }
         
         if (response.results.length === 0) {
-          return `Keine Suchergebnisse für "${args.query}" gefunden.`;
+          return toolResult(`Keine Suchergebnisse für "${args.query}" gefunden.`);
         }
         
         // Format results nicely
@@ -540,338 +1034,205 @@ async function processToolCall(
           result += `🔗 ${item.url}\n\n`;
         }
         
-        return result;
+        return toolResult(result);
       } catch (error) {
-        return `Fehler bei der Web-Suche: ${error instanceof Error ? error.message : String(error)}`;
+        return toolError(`Fehler bei der Web-Suche: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
 
     default:
-      return `Unbekannte Funktion: ${name}`;
+      return toolError(`Unbekannte Funktion: ${name}`);
   }
 }
 
-export async function sendChatMessage(options: ChatOptions): Promise<string> {
-  const { messages, apiKey, model, projectPath, onFileCreated } = options;
-  const openai = new OpenAI({
-    apiKey,
-    dangerouslyAllowBrowser: true,
-  });
+/**
+ * Definitions of the built-in vault tools (without MCP tools)
+ */
+export function getVaultTools(): LlmToolDefinition[] {
+  return tools;
+}
+
+/**
+ * Run a built-in vault tool outside of a chat, e.g. for external MCP clients
+ */
+export async function executeVaultTool(
+  name: string,
+  args: Record<string, unknown>,
+  projectPath: string,
+  options: ToolCallOptions = {}
+): Promise<ToolResult> {
+  if (!tools.some(tool => tool.name === name)) {
+    throw new Error(`Unbekanntes Tool: ${name}`);
+  }
+
+  return processToolCall(
+    { id: name, name, arguments: JSON.stringify(args) },
+    projectPath,
+    options
+  );
+}
+
+// Built-in tools plus MCP tools, if the model supports tool calling
+function getToolDefinitions(selection: ModelSelection): LlmToolDefinition[] {
+  if (!selection.model.supportsTools) return [];
+  return [...tools, ...mcpToolsToOpenAI(getAllTools()).map(tool => tool.function)];
+}
+
+/**
+ * Assemble the system message: built-in rules, default conventions, then
+ * the global and the project instructions, which take precedence in that
+ * order. Also used for the prompt preview in the settings.
+ */
+export function buildSystemPrompt(
+  selection: ModelSelection | null,
+  projectPath?: string,
+  customPrompt?: string,
+  projectInstructions?: string
+): string {
+  const sections = [SYSTEM_PROMPT, DEFAULT_CONVENTIONS];
+  if (customPrompt?.trim()) {
+    sections.push(`ANWEISUNGEN DES BENUTZERS (haben Vorrang vor den Standard-Konventionen):\n${customPrompt.trim()}`);
+  }
+  if (projectInstructions?.trim()) {
+    sections.push(
+      `PROJEKTANWEISUNGEN aus ${INSTRUCTIONS_FILE} (haben Vorrang vor allen obigen Konventionen):\n${projectInstructions.trim()}`
+    );
+  }
 
   let contextInfo = "";
   if (projectPath) {
     contextInfo = `\n\nAktuelles Projektverzeichnis: ${projectPath}`;
   }
 
-  // Models that don't support function calling / tools
-  const noToolsModels = ["o1", "o1-mini", "o1-preview", "o3", "o3-mini"];
-  const supportsTools = !noToolsModels.some(m => model.startsWith(m));
-
-  // Get MCP tools if any servers are connected
-  const mcpTools = supportsTools ? getAllTools() : [];
-  const mcpToolsForOpenAI = mcpToolsToOpenAI(mcpTools);
-  
-  // Combine built-in tools with MCP tools
-  const allTools: OpenAI.Chat.Completions.ChatCompletionTool[] = supportsTools 
-    ? [...tools, ...mcpToolsForOpenAI as OpenAI.Chat.Completions.ChatCompletionTool[]]
-    : [];
-  
   // Add MCP tools info to system message if available
+  const mcpTools = selection?.model.supportsTools ? getAllTools() : [];
   let mcpInfo = "";
   if (mcpTools.length > 0) {
     const serverNames = [...new Set(mcpTools.map(t => t.serverName))];
     mcpInfo = `\n\nVerfügbare externe Tools (MCP): ${serverNames.join(", ")}`;
   }
 
-  const systemMessage = SYSTEM_PROMPT + contextInfo + mcpInfo;
-
-  // Check if model uses new API (max_completion_tokens instead of max_tokens)
-  const usesNewApi = model.startsWith("gpt-5") || model.startsWith("o1") || model.startsWith("o3");
-
-  // Build request options based on model capabilities
-  const requestOptions: Record<string, unknown> = {
-    model,
-    messages: [
-      { role: "system", content: systemMessage },
-      ...messages,
-    ],
-  };
-
-  // Use correct token parameter based on model
-  if (usesNewApi) {
-    requestOptions.max_completion_tokens = 2000;
-  } else {
-    requestOptions.max_tokens = 2000;
-  }
-
-  // Only add tools and temperature for models that support them
-  if (supportsTools) {
-    requestOptions.tools = allTools.length > 0 ? allTools : undefined;
-    requestOptions.tool_choice = allTools.length > 0 ? "auto" : undefined;
-    requestOptions.temperature = 0.7;
-  }
-
-  // Initial request
-  let response = await openai.chat.completions.create(
-    requestOptions as unknown as OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming
-  );
-
-  let assistantMessage = response.choices[0]?.message;
-  const conversationMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-    { role: "system", content: systemMessage },
-    ...messages,
-  ];
-
-  // Process tool calls in a loop
-  while (assistantMessage?.tool_calls && assistantMessage.tool_calls.length > 0) {
-    console.log("Processing tool calls:", assistantMessage.tool_calls.length);
-    
-    // Add assistant message with tool calls
-    conversationMessages.push(assistantMessage);
-
-    // Process each tool call
-    for (const toolCall of assistantMessage.tool_calls) {
-      const result = await processToolCall(toolCall, projectPath || "", options);
-      
-      // Check if a file was created and notify
-      if (toolCall.function.name === "create_file" && result.includes("erfolgreich erstellt")) {
-        const args = JSON.parse(toolCall.function.arguments);
-        if (onFileCreated) {
-          onFileCreated(`${projectPath}/${args.file_path}`);
-        }
-      }
-
-      // Add tool result
-      conversationMessages.push({
-        role: "tool",
-        tool_call_id: toolCall.id,
-        content: result,
-      });
-    }
-
-    // Get next response - use correct token parameter for model
-    const nextRequestOptions: Record<string, unknown> = {
-      model,
-      messages: conversationMessages,
-      tools,
-      tool_choice: "auto",
-      temperature: 0.7,
-    };
-    
-    if (usesNewApi) {
-      nextRequestOptions.max_completion_tokens = 2000;
-    } else {
-      nextRequestOptions.max_tokens = 2000;
-    }
-    
-    response = await openai.chat.completions.create(
-      nextRequestOptions as unknown as OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming
-    );
+  return sections.join("\n\n") + contextInfo + mcpInfo;
+}
 
-    assistantMessage = response.choices[0]?.message;
-  }
+// Rough token estimate for servers that don't report usage
+function estimateTokens(messages: LlmMessage[], output: string): number {
+  const input = messages.reduce((sum, m) => sum + m.content.length, 0);
+  return Math.ceil((input + output.length) / 4);
+}
 
-  return assistantMessage?.content || "Keine Antwort erhalten.";
+export async function sendChatMessage(options: ChatOptions): Promise<string> {
+  return sendChatMessageStreaming({ ...options, onToken: () => {} });
 }
 
 /**
- * Streaming version of sendChatMessage - tokens are sent progressively
+ * Streaming agent loop - tokens are sent as they arrive. Tool calls are
+ * executed between rounds until the model answers without tools or the
+ * step/token budget is used up, then the model has to give a final answer.
  */
 export async function sendChatMessageStreaming(options: StreamingChatOptions): Promise<string> {
-  const { messages, apiKey, model, projectPath, onFileCreated, onToken, onToolCall } = options;
-  
-  const openai = new OpenAI({
-    apiKey,
-    dangerouslyAllowBrowser: true,
-  });
+  const { messages, selection, projectPath, onToken, onToolStep, abortSignal } = options;
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const tokenBudget = options.tokenBudget ?? DEFAULT_TOKEN_BUDGET;
+  const client = createClient(selection);
+  const allTools = getToolDefinitions(selection);
 
-  let contextInfo = "";
-  if (projectPath) {
-    contextInfo = `\n\nAktuelles Projektverzeichnis: ${projectPath}`;
-  }
+  // Read on every request, so edits to the instructions file apply right away
+  const projectInstructions = projectPath ? await loadProjectInstructions(projectPath) : "";
+  const conversationMessages: LlmMessage[] = [
+    { role: "system", content: buildSystemPrompt(selection, projectPath, options.customPrompt, projectInstructions) },
+    ...messages,
+  ];
 
-  // Models that don't support function calling / tools
-  const noToolsModels = ["o1", "o1-mini", "o1-preview", "o3", "o3-mini"];
-  const supportsTools = !noToolsModels.some(m => model.startsWith(m));
+  const throwIfAborted = () => {
+    if (abortSignal?.aborted) {
+      throw new DOMException("Aborted", "AbortError");
+    }
+  };
 
-  // Get MCP tools if supported
-  const mcpTools = supportsTools ? getAllTools() : [];
-  const mcpToolsForOpenAI = mcpToolsToOpenAI(mcpTools);
+  let fullText = "";
+  let steps = 0;
+  let usedTokens = 0;
   
-  const allTools: OpenAI.Chat.Completions.ChatCompletionTool[] = supportsTools 
-    ? [...tools, ...mcpToolsForOpenAI as OpenAI.Chat.Completions.ChatCompletionTool[]]
-    : [];
+  try {
+    while (true) {
+      throwIfAborted();
 
-  let mcpInfo = "";
-  if (mcpTools.length > 0) {
-    const serverNames = [...new Set(mcpTools.map(t => t.serverName))];
-    mcpInfo = `\n\nVerfügbare externe Tools (MCP): ${serverNames.join(", ")}`;
-  }
+      const budgetExhausted = steps >= maxSteps || usedTokens >= tokenBudget;
+      if (budgetExhausted && steps > 0) {
+        conversationMessages.push({ role: "user", content: BUDGET_NOTE });
+      }
 
-  const systemMessage = SYSTEM_PROMPT + contextInfo + mcpInfo;
-  
-  // Check if model uses new API
-  const usesNewApi = model.startsWith("gpt-5") || model.startsWith("o1") || model.startsWith("o3");
-
-  // Build request options
-  const requestOptions: Record<string, unknown> = {
-    model,
-    messages: [
-      { role: "system", content: systemMessage },
-      ...messages,
-    ],
-    stream: true,
-  };
+      // Separate the text of consecutive rounds
+      const prefix = fullText ? "\n\n" : "";
+      let roundText = "";
+      const response = await client.stream(
+        {
+          messages: conversationMessages,
+          tools: allTools,
+          toolChoice: budgetExhausted ? "none" : "auto",
+          signal: abortSignal,
+        },
+        (token) => {
+          roundText += token;
+          onToken(token, fullText + prefix + roundText);
+        }
+      );
+      if (roundText) {
+        fullText += prefix + roundText;
+      }
 
-  if (usesNewApi) {
-    requestOptions.max_completion_tokens = 2000;
-  } else {
-    requestOptions.max_tokens = 2000;
-  }
+      usedTokens += response.usage
+        ? response.usage.inputTokens + response.usage.outputTokens
+        : estimateTokens(conversationMessages, roundText);
 
-  if (supportsTools && allTools.length > 0) {
-    requestOptions.tools = allTools;
-    requestOptions.tool_choice = "auto";
-    requestOptions.temperature = 0.7;
-  }
+      if (response.toolCalls.length === 0 || budgetExhausted) break;
 
-  let fullText = "";
-  const { abortSignal } = options;
-  
-  try {
-    // First, make a non-streaming request to check for tool calls
-    const initialOptions: Record<string, unknown> = {
-      ...requestOptions,
-      stream: false,
-    };
-    
-    const initialResponse = await openai.chat.completions.create(
-      initialOptions as unknown as OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming,
-      { signal: abortSignal }
-    );
-    
-    const assistantMessage = initialResponse.choices[0]?.message;
-    
-    // If there are tool calls, process them (non-streaming for simplicity)
-    if (assistantMessage?.tool_calls && assistantMessage.tool_calls.length > 0) {
-      const toolResults: Array<{ tool_call_id: string; content: string }> = [];
+      steps++;
+      conversationMessages.push({
+        role: "assistant",
+        content: response.content,
+        toolCalls: response.toolCalls,
+      });
       
-      for (const toolCall of assistantMessage.tool_calls) {
-        if (abortSignal?.aborted) {
-          throw new DOMException("Aborted", "AbortError");
-        }
+      for (const toolCall of response.toolCalls) {
+        throwIfAborted();
         
-        if (onToolCall) {
-          onToolCall(toolCall.function.name);
-        }
+        const step: ToolStep = {
+          id: toolCall.id,
+          name: toolCall.name,
+          arguments: toolCall.arguments,
+          status: "running",
+        };
+        onToolStep?.(step);
         
-        // Show status
-        const statusMsg = `*${toolCall.function.name}...*\n`;
-        onToken(statusMsg, fullText + statusMsg);
-        fullText += statusMsg;
-        
-        // Execute tool
-        const result = await processToolCall(toolCall, projectPath || "", options);
-        toolResults.push({ tool_call_id: toolCall.id, content: result });
-        
-        // Notify file creation
-        if (toolCall.function.name === "create_file" && result.includes("erfolgreich erstellt")) {
-          try {
-            const args = JSON.parse(toolCall.function.arguments);
-            if (onFileCreated) {
-              onFileCreated(`${projectPath}/${args.file_path}`);
-            }
-          } catch { /* ignore */ }
-        }
-      }
-      
-      // Follow-up request WITHOUT tools (prevents loops)
-      fullText = "";
-      onToken("", "");
-      
-      const followUpOptions: Record<string, unknown> = {
-        model,
-        messages: [
-          { role: "system", content: systemMessage },
-          ...messages,
-          {
-            role: "assistant",
-            content: assistantMessage.content || null,
-            tool_calls: assistantMessage.tool_calls,
-          },
-          ...toolResults.map(tr => ({
-            role: "tool",
-            tool_call_id: tr.tool_call_id,
-            content: tr.content,
-          })),
-        ],
-        stream: true,
-        // NO tools here!
-      };
-      
-      if (usesNewApi) {
-        followUpOptions.max_completion_tokens = 2000;
-      } else {
-        followUpOptions.max_tokens = 2000;
-      }
-      
-      const followUpStream = await openai.chat.completions.create(
-        followUpOptions as unknown as OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming,
-        { signal: abortSignal }
-      );
-      
-      for await (const chunk of followUpStream) {
-        if (abortSignal?.aborted) {
-          throw new DOMException("Aborted", "AbortError");
-        }
-        const content = chunk.choices[0]?.delta?.content;
-        if (content) {
-          fullText += content;
-          onToken(content, fullText);
-        }
-      }
-    } else {
-      // No tool calls - just stream the content directly
-      // We already have the response, so display it with simulated streaming
-      const content = assistantMessage?.content || "";
-      const words = content.split(/(\s+)/);
-      
-      for (const word of words) {
-        if (abortSignal?.aborted) {
-          throw new DOMException("Aborted", "AbortError");
-        }
-        fullText += word;
-        onToken(word, fullText);
-        // Small delay for streaming effect
-        await new Promise(resolve => setTimeout(resolve, 10));
+        const { content: result, isError } = await processToolCall(toolCall, projectPath || "", options);
+        onToolStep?.({ ...step, result, status: isError ? "error" : "done" });
+
+        conversationMessages.push({
+          role: "tool",
+          toolCallId: toolCall.id,
+          name: toolCall.name,
+          content: result,
+        });
       }
     }
     
     return fullText || "Keine Antwort erhalten.";
   } catch (error) {
-    if (error instanceof DOMException && error.name === "AbortError") {
-      throw error;
+    // The SDKs use their own error types for cancelled requests
+    if (abortSignal?.aborted) {
+      throw new DOMException("Aborted", "AbortError");
     }
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    throw new Error(errorMsg);
+    throw error;
   }
 }
 
 export async function generateEmbedding(
   text: string,
-  apiKey: string
+  selection: ModelSelection
 ): Promise<number[]> {
-  const openai = new OpenAI({
-    apiKey,
-    dangerouslyAllowBrowser: true,
-  });
-
-  const response = await openai.embeddings.create({
-    model: "text-embedding-3-small",
-    input: text,
-  });
-
-  return response.data[0].embedding;
+  return createClient(selection).embed(text);
 }
 
 // Cosine similarity calculation
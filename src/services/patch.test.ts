@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { applyEdits, applyUnifiedDiff } from "./patch";
+
+describe("applyEdits", () => {
+  it("replaces a line range and keeps the line breaks", () => {
+    expect(applyEdits("a\nb\nc\n", [{ start_line: 2, new_text: "x" }])).toBe("a\nx\nc\n");
+    expect(applyEdits("a\nb\nc\n", [{ start_line: 2, new_text: "x\n" }])).toBe("a\nx\nc\n");
+    expect(applyEdits("a\nb\nc\n", [{ start_line: 2, end_line: 3, new_text: "x\ny\nz" }])).toBe("a\nx\ny\nz\n");
+  });
+
+  it("deletes lines completely for an empty replacement", () => {
+    expect(applyEdits("a\nb\nc\nd\n", [{ start_line: 2, end_line: 3, new_text: "" }])).toBe("a\nd\n");
+    expect(applyEdits("a\nb\nc\n", [{ start_line: 1, new_text: "" }])).toBe("b\nc\n");
+  });
+
+  it("leaves an empty line for a replacement of just a line break", () => {
+    expect(applyEdits("a\nb\nc\n", [{ start_line: 2, new_text: "\n" }])).toBe("a\n\nc\n");
+  });
+
+  it("handles the last line of a file without final newline", () => {
+    expect(applyEdits("a\nb", [{ start_line: 2, new_text: "x" }])).toBe("a\nx");
+    expect(applyEdits("a\nb", [{ start_line: 2, new_text: "" }])).toBe("a");
+    expect(applyEdits("a", [{ start_line: 1, new_text: "" }])).toBe("");
+  });
+
+  it("counts lines without the slot after the final newline", () => {
+    expect(applyEdits("a\nb\n", [{ start_line: 2, new_text: "x" }])).toBe("a\nx\n");
+    expect(applyEdits("a\nb\n", [{ start_line: 2, old_text: "b", new_text: "x" }])).toBe("a\nx\n");
+    expect(() => applyEdits("a\nb\n", [{ start_line: 2, end_line: 3, new_text: "x" }])).toThrow(/hat 2 Zeilen/);
+    expect(() => applyEdits("a\nb\n", [{ start_line: 4, new_text: "x" }])).toThrow(/hat 2 Zeilen/);
+  });
+
+  it("appends for the line after the last one", () => {
+    expect(applyEdits("a\nb\n", [{ start_line: 3, new_text: "x" }])).toBe("a\nb\nx\n");
+    expect(applyEdits("a\nb", [{ start_line: 3, new_text: "x\n" }])).toBe("a\nb\nx");
+  });
+
+  it("applies adjacent line ranges together", () => {
+    const edits = [
+      { start_line: 1, new_text: "" },
+      { start_line: 2, new_text: "B" },
+    ];
+    expect(applyEdits("a\nb\nc\n", edits)).toBe("B\nc\n");
+  });
+
+  it("checks the anchor text of a line range", () => {
+    expect(applyEdits("a\nb\nc\n", [{ start_line: 2, old_text: "b\n", new_text: "x" }])).toBe("a\nx\nc\n");
+    expect(() => applyEdits("a\nb\nc\n", [{ start_line: 2, old_text: "c", new_text: "x" }])).toThrow(/erwarteten Text/);
+  });
+
+  it("keeps Windows line endings", () => {
+    expect(applyEdits("a\r\nb\r\nc\r\n", [{ start_line: 2, new_text: "" }])).toBe("a\r\nc\r\n");
+  });
+
+  it("replaces search text", () => {
+    expect(applyEdits("eins zwei eins", [{ old_text: "zwei", new_text: "drei" }])).toBe("eins drei eins");
+    expect(() => applyEdits("eins zwei eins", [{ old_text: "eins", new_text: "x" }])).toThrow(/2-mal/);
+  });
+});
+
+describe("applyUnifiedDiff", () => {
+  it("removes deleted lines without leaving a blank line", () => {
+    expect(applyUnifiedDiff("a\nb\nc\nd\n", "@@ -2,1 +2,0 @@\n-b\n")).toBe("a\nc\nd\n");
+    expect(applyUnifiedDiff("a\nb\nc\nd\n", "@@ -1,4 +1,2 @@\n a\n-b\n-c\n d\n")).toBe("a\nd\n");
+  });
+
+  it("replaces lines", () => {
+    expect(applyUnifiedDiff("a\nb\nc\n", "@@ -1,3 +1,3 @@\n a\n-b\n+x\n c\n")).toBe("a\nx\nc\n");
+  });
+
+  it("inserts lines between context", () => {
+    expect(applyUnifiedDiff("a\nb\n", "@@ -1,2 +1,3 @@\n a\n+x\n b\n")).toBe("a\nx\nb\n");
+  });
+
+  it("inserts lines without context", () => {
+    expect(applyUnifiedDiff("a\nb\n", "@@ -1,0 +2,1 @@\n+x\n")).toBe("a\nx\nb\n");
+  });
+
+  it("inserts at the top of the file", () => {
+    expect(applyUnifiedDiff("a\nb\n", "@@ -0,0 +1,1 @@\n+x\n")).toBe("x\na\nb\n");
+    expect(applyUnifiedDiff("a\nb\n", "@@ -0,0 +1,3 @@\n+---\n+title: x\n+---\n")).toBe("---\ntitle: x\n---\na\nb\n");
+  });
+
+  it("removes and adds --- lines", () => {
+    expect(applyUnifiedDiff("a\n---\nb\n", "@@ -1,3 +1,2 @@\n a\n----\n b\n")).toBe("a\nb\n");
+    expect(applyUnifiedDiff("a\nb\n", "@@ -1,2 +1,3 @@\n a\n+---\n b\n")).toBe("a\n---\nb\n");
+    expect(applyUnifiedDiff("a\nb\n", "@@ -1,2 +1,3 @@\n a\n+++ note\n b\n")).toBe("a\n++ note\nb\n");
+  });
+
+  it("skips file headers before the first hunk", () => {
+    const diff = "--- a/note.md\n+++ b/note.md\n@@ -1,3 +1,2 @@\n ---\n-title: x\n ---\n";
+    expect(applyUnifiedDiff("---\ntitle: x\n---\n", diff)).toBe("---\n---\n");
+  });
+
+  it("appends at the end of a file", () => {
+    expect(applyUnifiedDiff("a\nb\n", "@@ -2,0 +3,1 @@\n+z\n")).toBe("a\nb\nz\n");
+    expect(applyUnifiedDiff("a\nb", "@@ -2,0 +3,1 @@\n+z\n")).toBe("a\nb\nz\n");
+  });
+
+  it("deletes the last line of a file without final newline", () => {
+    expect(applyUnifiedDiff("a\nb", "@@ -1,2 +1,1 @@\n a\n-b\n")).toBe("a");
+  });
+
+  it("rejects hunks that don't match", () => {
+    expect(() => applyUnifiedDiff("a\nb\n", "@@ -1,1 +1,1 @@\n-x\n+y\n")).toThrow(/passen nicht/);
+  });
+});
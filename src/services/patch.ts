@@ -0,0 +1,292 @@
+/**
+ * Targeted text edits for the AI edit tool.
+ * All edits are validated against the current file content first and
+ * then applied together, so a failing anchor never leaves a half-edited file.
+ */
+
+export interface TextEdit {
+  // Search/replace: old_text must match exactly once (unless replace_all)
+  old_text?: string;
+  new_text: string;
+  replace_all?: boolean;
+  // Line range (1-based, inclusive), refers to the original file.
+  // start_line one past the last line appends to the file.
+  start_line?: number;
+  end_line?: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  text: string;
+  label: string;
+}
+
+// Offsets of the first character of every line
+function getLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") starts.push(i + 1);
+  }
+  return starts;
+}
+
+// The empty slot after a final newline is not a line of its own
+function countLines(content: string, lineStarts: number[]): number {
+  return content.endsWith("\n") ? lineStarts.length - 1 : lineStarts.length;
+}
+
+function countOccurrences(content: string, text: string): number[] {
+  const positions: number[] = [];
+  let index = content.indexOf(text);
+  while (index !== -1) {
+    positions.push(index);
+    index = content.indexOf(text, index + text.length);
+  }
+  return positions;
+}
+
+// Hint for anchors that only differ in whitespace or indentation
+function findNearMatch(content: string, text: string): number | null {
+  const firstLine = text.split("\n").find(line => line.trim())?.trim();
+  if (!firstLine) return null;
+
+  const lines = content.split("\n");
+  const index = lines.findIndex(line => line.trim() === firstLine);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Span replacing whole lines (0-based, end exclusive) including their line
+ * breaks. Empty `lines` removes them completely, the last line of a file
+ * without final newline takes the newline before it along.
+ */
+function lineRangeSpan(content: string, lineStarts: number[], first: number, end: number, lines: string[] | null, label: string): Span {
+  const start = lineStarts[first];
+  if (end < lineStarts.length) {
+    return { start, end: lineStarts[end], text: lines ? lines.join("\n") + "\n" : "", label };
+  }
+  if (lines) return { start, end: content.length, text: lines.join("\n"), label };
+  return { start: first > 0 ? start - 1 : start, end: content.length, text: "", label };
+}
+
+// New lines at the end of a file, keeping whether it ends with a newline
+function appendSpan(content: string, text: string, label: string): Span {
+  const lines = text.replace(/\n$/, "");
+  if (text === "") return { start: content.length, end: content.length, text: "", label };
+  if (content === "" || content.endsWith("\n")) {
+    return { start: content.length, end: content.length, text: lines + "\n", label };
+  }
+  return { start: content.length, end: content.length, text: "\n" + lines, label };
+}
+
+function spanForEdit(content: string, lineStarts: number[], edit: TextEdit, label: string): Span[] {
+  if (edit.start_line !== undefined) {
+    const lineCount = countLines(content, lineStarts);
+    const startLine = edit.start_line;
+    const endLine = edit.end_line ?? edit.start_line;
+
+    if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || startLine < 1 || endLine < startLine) {
+      throw new Error(`${label}: Ungültiger Zeilenbereich ${startLine}-${endLine}.`);
+    }
+
+    // The line after the last one appends, its anchor can only be empty
+    if (startLine === lineCount + 1 && endLine === startLine && !edit.old_text) {
+      return [appendSpan(content, edit.new_text, label)];
+    }
+    if (endLine > lineCount) {
+      throw new Error(`${label}: Zeile ${endLine} existiert nicht, die Datei hat ${lineCount} Zeilen.`);
+    }
+
+    // Optional anchor: the range must still contain the expected text
+    const current = content.slice(lineStarts[startLine - 1], endLine < lineStarts.length ? lineStarts[endLine] - 1 : content.length);
+    if (edit.old_text !== undefined && current !== edit.old_text.replace(/\n$/, "")) {
+      throw new Error(
+        `${label}: Die Zeilen ${startLine}-${endLine} enthalten nicht den erwarteten Text. ` +
+        `Aktueller Inhalt:\n${current}`
+      );
+    }
+
+    // An empty replacement deletes the lines, "\n" leaves one empty line
+    const lines = edit.new_text === "" ? null : edit.new_text.replace(/\n$/, "").split("\n");
+    return [lineRangeSpan(content, lineStarts, startLine - 1, endLine, lines, label)];
+  }
+
+  if (!edit.old_text) {
+    throw new Error(`${label}: Entweder old_text oder start_line angeben.`);
+  }
+
+  const positions = countOccurrences(content, edit.old_text);
+  if (positions.length === 0) {
+    const nearLine = findNearMatch(content, edit.old_text);
+    throw new Error(
+      `${label}: Der Suchtext wurde nicht gefunden.` +
+      (nearLine ? ` Eine ähnliche Stelle gibt es in Zeile ${nearLine} (Leerzeichen/Einrückung prüfen).` : " Lies die Datei erneut mit read_file.")
+    );
+  }
+  if (positions.length > 1 && !edit.replace_all) {
+    throw new Error(
+      `${label}: Der Suchtext kommt ${positions.length}-mal vor. ` +
+      "Erweitere old_text um eindeutigen Kontext oder setze replace_all."
+    );
+  }
+
+  return positions.map(start => ({
+    start,
+    end: start + edit.old_text!.length,
+    text: edit.new_text,
+    label,
+  }));
+}
+
+function applySpans(content: string, spans: Span[]): string {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].start < sorted[i - 1].end) {
+      throw new Error(`${sorted[i - 1].label} und ${sorted[i].label} überschneiden sich.`);
+    }
+  }
+
+  let result = content;
+  for (const span of sorted.reverse()) {
+    result = result.slice(0, span.start) + span.text + result.slice(span.end);
+  }
+  return result;
+}
+
+// Work on \n internally and restore Windows line endings afterwards
+function withLineEndings(content: string, apply: (normalized: string) => string): string {
+  const usesCrlf = content.includes("\r\n");
+  const normalized = usesCrlf ? content.replace(/\r\n/g, "\n") : content;
+  const result = apply(normalized);
+  return usesCrlf ? result.replace(/\n/g, "\r\n") : result;
+}
+
+/**
+ * Apply search/replace and line range edits to a file content
+ */
+export function applyEdits(content: string, edits: TextEdit[]): string {
+  if (edits.length === 0) {
+    throw new Error("Keine Änderungen angegeben.");
+  }
+
+  return withLineEndings(content, (normalized) => {
+    const lineStarts = getLineStarts(normalized);
+    const spans = edits.flatMap((edit, i) => spanForEdit(
+      normalized,
+      lineStarts,
+      {
+        ...edit,
+        old_text: edit.old_text?.replace(/\r\n/g, "\n"),
+        new_text: (edit.new_text ?? "").replace(/\r\n/g, "\n"),
+      },
+      `Änderung ${i + 1}`
+    ));
+    return applySpans(normalized, spans);
+  });
+}
+
+/**
+ * Apply a unified diff. Hunks are located by their context, so slightly
+ * wrong line numbers in the hunk header are tolerated.
+ */
+export function applyUnifiedDiff(content: string, diff: string): string {
+  return withLineEndings(content, (normalized) => {
+    const hunks = parseHunks(diff.replace(/\r\n/g, "\n"));
+    if (hunks.length === 0) {
+      throw new Error("Der Diff enthält keine Hunks (@@ ... @@).");
+    }
+
+    const lines = normalized.split("\n");
+    const lineStarts = getLineStarts(normalized);
+    const spans: Span[] = hunks.map((hunk, i) => {
+      const label = `Hunk ${i + 1}`;
+      const index = locateHunk(lines, hunk.oldLines, hunk.oldStart - 1);
+      if (index === null) {
+        throw new Error(
+          `${label}: Kontext und entfernte Zeilen passen nicht zur aktuellen Datei. Lies die Datei erneut mit read_file.`
+        );
+      }
+
+      if (hunk.oldLines.length > 0) {
+        const lines = hunk.newLines.length > 0 ? hunk.newLines : null;
+        return lineRangeSpan(normalized, lineStarts, index, index + hunk.oldLines.length, lines, label);
+      }
+
+      // Pure insertion; at the end of a file without final newline the
+      // last line has to be terminated first
+      const start = lineStarts[index] ?? normalized.length;
+      const needsBreak = start === normalized.length && normalized !== "" && !normalized.endsWith("\n");
+      return { start, end: start, text: (needsBreak ? "\n" : "") + hunk.newLines.join("\n") + "\n", label };
+    });
+
+    return applySpans(normalized, spans);
+  });
+}
+
+interface Hunk {
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+}
+
+function parseHunks(diff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+
+  for (const line of diff.split("\n")) {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (header) {
+      // oldStart 0 is an insertion before the first line
+      current = { oldStart: parseInt(header[1], 10), oldLines: [], newLines: [] };
+      hunks.push(current);
+      continue;
+    }
+    // File headers (---/+++) only come before the first hunk, inside a
+    // hunk "----" removes a "---" line
+    if (!current || line.startsWith("\\")) continue;
+
+    if (line.startsWith("-")) {
+      current.oldLines.push(line.slice(1));
+    } else if (line.startsWith("+")) {
+      current.newLines.push(line.slice(1));
+    } else {
+      // Context line; an empty line in the diff is an empty context line
+      const text = line.startsWith(" ") ? line.slice(1) : line;
+      current.oldLines.push(text);
+      current.newLines.push(text);
+    }
+  }
+
+  // Trailing empty context produced by the final newline of the diff
+  for (const hunk of hunks) {
+    while (
+      hunk.oldLines.length > 0 && hunk.newLines.length > 0 &&
+      hunk.oldLines[hunk.oldLines.length - 1] === "" && hunk.newLines[hunk.newLines.length - 1] === ""
+    ) {
+      hunk.oldLines.pop();
+      hunk.newLines.pop();
+    }
+  }
+
+  return hunks;
+}
+
+// Prefer the position from the header, otherwise the only other match
+function locateHunk(lines: string[], oldLines: string[], hint: number): number | null {
+  if (oldLines.length === 0) {
+    return Math.min(Math.max(hint + 1, 0), lines.length);
+  }
+
+  const matchesAt = (index: number) =>
+    index >= 0 && index + oldLines.length <= lines.length &&
+    oldLines.every((line, i) => lines[index + i] === line);
+
+  if (matchesAt(hint)) return hint;
+
+  const matches: number[] = [];
+  for (let i = 0; i + oldLines.length <= lines.length; i++) {
+    if (matchesAt(i)) matches.push(i);
+  }
+  return matches.length === 1 ? matches[0] : null;
+}
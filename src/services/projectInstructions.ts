@@ -0,0 +1,26 @@
+/**
+ * Per-project instructions for the assistant, kept in
+ * `.typegodmd/instructions.md` so they travel with the vault.
+ */
+
+import { readTextFile, writeTextFile, fileExists, createDirectory } from "./fileSystem";
+
+const INSTRUCTIONS_FOLDER = ".typegodmd";
+export const INSTRUCTIONS_FILE = `${INSTRUCTIONS_FOLDER}/instructions.md`;
+
+export async function loadProjectInstructions(projectPath: string): Promise<string> {
+  const path = `${projectPath}/${INSTRUCTIONS_FILE}`;
+  if (!(await fileExists(path))) return "";
+
+  try {
+    return await readTextFile(path);
+  } catch (error) {
+    console.error("Failed to load project instructions:", error);
+    return "";
+  }
+}
+
+export async function saveProjectInstructions(projectPath: string, content: string): Promise<void> {
+  await createDirectory(`${projectPath}/${INSTRUCTIONS_FOLDER}`);
+  await writeTextFile(`${projectPath}/${INSTRUCTIONS_FILE}`, content);
+}
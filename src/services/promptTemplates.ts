@@ -0,0 +1,194 @@
+/**
+ * Prompt templates for /-commands in the chat. Templates are Markdown files
+ * in `.typegodmd/prompts/` of the project or in the prompts folder of the
+ * app config; the file name is the command. A project template overrides a
+ * user template of the same name, both override the built-in examples.
+ */
+
+import { readDirectory, readTextFile, createFile, deleteFile, fileExists, createDirectory } from "./fileSystem";
+
+export type PromptTemplateScope = "project" | "user" | "builtin";
+
+export interface PromptTemplate {
+  name: string;
+  description?: string;
+  body: string;
+  scope: PromptTemplateScope;
+  // Missing for built-in templates
+  path?: string;
+}
+
+// Values the placeholders are filled with when a command is sent
+export interface PromptTemplateContext {
+  input: string;
+  activeFile?: { relativePath: string; content: string };
+  selection?: string;
+  mentions: { relativePath: string; content: string }[];
+}
+
+export const PROMPT_PLACEHOLDERS: { name: string; description: string }[] = [
+  { name: "input", description: "Text nach dem Befehl" },
+  { name: "file", description: "Pfad der aktiven Datei" },
+  { name: "file_content", description: "Inhalt der aktiven Datei" },
+  { name: "selection", description: "Markierter Text im Editor" },
+  { name: "date", description: "Heutiges Datum (JJJJ-MM-TT)" },
+  { name: "time", description: "Aktuelle Uhrzeit" },
+  { name: "mentions", description: "Inhalt der mit @ erwähnten Dateien" },
+];
+
+const PROJECT_PROMPTS_FOLDER = ".typegodmd/prompts";
+
+const BUILTIN_TEMPLATES: PromptTemplate[] = [
+  {
+    name: "zusammenfassen",
+    description: "Aktive Datei in Stichpunkten zusammenfassen",
+    body: "Fasse die Notiz {{file}} in wenigen Stichpunkten zusammen.\n\n{{file_content}}\n\n{{input}}",
+    scope: "builtin",
+  },
+  {
+    name: "meeting",
+    description: "Neue Besprechungsnotiz anlegen",
+    body: "Erstelle eine neue Besprechungsnotiz für den {{date}} mit den Abschnitten Teilnehmer, Agenda, Notizen und Aufgaben.\n\nThema: {{input}}",
+    scope: "builtin",
+  },
+  {
+    name: "uebersetzen",
+    description: "Markierten Text übersetzen",
+    body: "Übersetze den folgenden Text. Zielsprache und Hinweise: {{input}}\n\n{{selection}}",
+    scope: "builtin",
+  },
+];
+
+const isTauri = () => {
+  return typeof window !== "undefined" && "__TAURI__" in window;
+};
+
+async function getUserPromptsFolder(): Promise<string | null> {
+  if (!isTauri()) return null;
+  const { appConfigDir } = await import("@tauri-apps/api/path");
+  return `${(await appConfigDir()).replace(/[\\/]$/, "")}/prompts`;
+}
+
+function getFolder(scope: PromptTemplateScope, projectPath?: string): Promise<string | null> {
+  if (scope === "project") {
+    return Promise.resolve(projectPath ? `${projectPath}/${PROJECT_PROMPTS_FOLDER}` : null);
+  }
+  return getUserPromptsFolder();
+}
+
+// Optional frontmatter with a description, the rest is the prompt
+function parseTemplate(content: string): { description?: string; body: string } {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { body: content.trim() };
+
+  const description = match[1].match(/^description:\s*(.+)$/m)?.[1].trim().replace(/^["']|["']$/g, "");
+  return { description, body: content.slice(match[0].length).trim() };
+}
+
+async function loadFolder(folder: string | null, scope: PromptTemplateScope): Promise<PromptTemplate[]> {
+  if (!folder || !(await fileExists(folder))) return [];
+
+  const templates: PromptTemplate[] = [];
+  for (const entry of await readDirectory(folder)) {
+    if (entry.isDirectory || !entry.name.endsWith(".md")) continue;
+    try {
+      const { description, body } = parseTemplate(await readTextFile(entry.path));
+      templates.push({ name: entry.name.slice(0, -3), description, body, scope, path: entry.path });
+    } catch (error) {
+      console.error(`Failed to load prompt template ${entry.path}:`, error);
+    }
+  }
+  return templates;
+}
+
+export async function loadPromptTemplates(projectPath?: string): Promise<PromptTemplate[]> {
+  const [project, user] = await Promise.all([
+    loadFolder(await getFolder("project", projectPath), "project"),
+    loadFolder(await getFolder("user"), "user"),
+  ]);
+
+  const byName = new Map<string, PromptTemplate>();
+  for (const template of [...BUILTIN_TEMPLATES, ...user, ...project]) {
+    byName.set(template.name, template);
+  }
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Create a template file and return its path. A built-in template can be
+ * passed as base to get an editable copy of it.
+ */
+export async function createPromptTemplate(
+  name: string,
+  scope: "project" | "user",
+  projectPath?: string,
+  base?: PromptTemplate
+): Promise<string> {
+  const trimmed = name.trim().replace(/^\//, "");
+  if (!/^[\w-]+$/.test(trimmed)) {
+    throw new Error("Der Name darf nur Buchstaben, Ziffern, - und _ enthalten.");
+  }
+
+  const folder = await getFolder(scope, projectPath);
+  if (!folder) {
+    throw new Error(scope === "project" ? "Kein Projekt geöffnet." : "Benutzervorlagen sind nur in der Desktop-App verfügbar.");
+  }
+
+  const path = `${folder}/${trimmed}.md`;
+  if (await fileExists(path)) {
+    throw new Error(`Die Vorlage "/${trimmed}" existiert bereits.`);
+  }
+
+  const placeholders = PROMPT_PLACEHOLDERS.map(p => `{{${p.name}}}`).join(", ");
+  const content = [
+    "---",
+    `description: ${base?.description || ""}`,
+    "---",
+    "",
+    base?.body || `<!-- Platzhalter: ${placeholders} -->\n\n{{input}}`,
+    "",
+  ].join("\n");
+
+  await createDirectory(folder);
+  await createFile(path, content);
+  return path;
+}
+
+export async function deletePromptTemplate(template: PromptTemplate): Promise<void> {
+  if (!template.path) {
+    throw new Error("Eingebaute Vorlagen können nicht gelöscht werden.");
+  }
+  await deleteFile(template.path);
+}
+
+/**
+ * Fill the placeholders of a template. Text after the command is appended
+ * if the template doesn't use {{input}}.
+ */
+export function expandPromptTemplate(template: PromptTemplate, context: PromptTemplateContext): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const mentions = context.mentions
+    .map(m => `--- ${m.relativePath} ---\n${m.content}`)
+    .join("\n\n");
+
+  const values: Record<string, string> = {
+    input: context.input,
+    file: context.activeFile?.relativePath || "",
+    file_content: context.activeFile?.content || "",
+    selection: context.selection || "",
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+    mentions,
+  };
+
+  // HTML comments are notes for the template author
+  let text = template.body
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+
+  if (context.input && !/\{\{\s*input\s*\}\}/.test(template.body)) {
+    text = `${text}\n\n${context.input}`;
+  }
+  return text.replace(/\n{3,}/g, "\n\n").trim();
+}
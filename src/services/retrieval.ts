@@ -0,0 +1,166 @@
+/**
+ * Retrieval of note excerpts for the "vault knowledge" chat mode. Uses the
+ * embedding index when an embedding provider is configured, otherwise
+ * ranks the heading chunks of all notes by keyword overlap.
+ */
+
+import { readTextFile, readDirectoryRecursive, collectMarkdownFiles } from "./fileSystem";
+import { updateIndex, searchIndex, chunkMarkdown, type IndexProgress } from "./vectorIndex";
+import { isInTrash } from "./trash";
+import type { ModelSelection } from "./llm";
+import type { ChatSource } from "../stores/appStore";
+
+// Excerpts are cut so a few sources don't fill the context window
+const MAX_SOURCE_CHARS = 2000;
+const DEFAULT_LIMIT = 5;
+// The first question may have to embed the whole vault. After this long
+// the keyword ranking answers, the index keeps building in the background.
+const INDEX_WAIT_MS = 15_000;
+
+export interface RetrievalOptions {
+  limit?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: IndexProgress) => void;
+}
+
+interface Candidate {
+  path: string;
+  heading: string;
+  content: string;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) || [];
+}
+
+// 1-based line where the chunk starts in the current file content
+function findChunkLine(fileContent: string, chunk: string): number {
+  const index = fileContent.indexOf(chunk.slice(0, 200));
+  if (index === -1) return 1;
+  return fileContent.slice(0, index).split("\n").length;
+}
+
+async function rankByKeywords(projectPath: string, query: string, limit: number): Promise<Candidate[]> {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  const chunks: (Candidate & { tokens: string[] })[] = [];
+  const files = collectMarkdownFiles(await readDirectoryRecursive(projectPath))
+    .filter(file => !isInTrash(file.path, projectPath));
+  for (const file of files) {
+    try {
+      const content = await readTextFile(file.path);
+      for (const chunk of chunkMarkdown(content)) {
+        chunks.push({ path: file.path, ...chunk, tokens: tokenize(chunk.content) });
+      }
+    } catch (error) {
+      console.error(`Error reading file ${file.path}:`, error);
+    }
+  }
+  if (chunks.length === 0) return [];
+
+  // Rare terms weigh more, repeated terms and long chunks saturate (BM25)
+  const avgLength = chunks.reduce((sum, c) => sum + c.tokens.length, 0) / chunks.length;
+  const idf = new Map(terms.map(term => {
+    const df = chunks.filter(c => c.tokens.includes(term)).length;
+    return [term, Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  return chunks
+    .map(chunk => {
+      let score = 0;
+      for (const term of terms) {
+        const tf = chunk.tokens.filter(t => t === term).length;
+        if (tf === 0) continue;
+        const norm = tf + 1.2 * (0.25 + 0.75 * chunk.tokens.length / (avgLength || 1));
+        score += idf.get(term)! * (tf * 2.2) / norm;
+        if (chunk.heading.toLowerCase().includes(term)) score += idf.get(term)!;
+      }
+      return { chunk, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ chunk }) => ({ path: chunk.path, heading: chunk.heading, content: chunk.content }));
+}
+
+function abortError(): DOMException {
+  return new DOMException("Aborted", "AbortError");
+}
+
+// Wait for the index update; false if it takes longer than INDEX_WAIT_MS
+function waitForIndex(update: Promise<void>, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const finish = (done: () => void) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      done();
+    };
+    const onAbort = () => finish(() => reject(abortError()));
+    const timer = setTimeout(() => finish(() => resolve(false)), INDEX_WAIT_MS);
+    signal?.addEventListener("abort", onAbort);
+    update.then(() => finish(() => resolve(true)), (error) => finish(() => reject(error)));
+  });
+}
+
+/**
+ * Find the note sections most relevant to a question. An embedding error
+ * (e.g. provider offline) or an index that is still being built falls
+ * back to the keyword ranking.
+ */
+export async function retrieveSources(
+  projectPath: string,
+  query: string,
+  embeddingSelection: ModelSelection | null,
+  options: RetrievalOptions = {}
+): Promise<ChatSource[]> {
+  const { limit = DEFAULT_LIMIT, signal, onProgress } = options;
+  if (signal?.aborted) throw abortError();
+  let candidates: Candidate[] | null = null;
+
+  if (embeddingSelection) {
+    // Progress of an update that outlives this call is no longer reported
+    let isWaiting = true;
+    try {
+      const update = updateIndex(projectPath, embeddingSelection, (progress) => {
+        if (isWaiting) onProgress?.(progress);
+      });
+      if (await waitForIndex(update, signal)) {
+        candidates = await searchIndex(projectPath, query, embeddingSelection, limit);
+      } else {
+        console.warn("Index is still being built, using keyword ranking");
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error("Vector retrieval failed, using keyword ranking:", error);
+    } finally {
+      isWaiting = false;
+    }
+  }
+  if (signal?.aborted) throw abortError();
+  if (!candidates) {
+    candidates = await rankByKeywords(projectPath, query, limit);
+  }
+
+  const sources: ChatSource[] = [];
+  for (const candidate of candidates) {
+    let line = 1;
+    try {
+      line = findChunkLine(await readTextFile(candidate.path), candidate.content);
+    } catch {
+      // File vanished since indexing, keep the excerpt anyway
+    }
+    sources.push({
+      path: candidate.path,
+      name: candidate.path.startsWith(`${projectPath}/`)
+        ? candidate.path.slice(projectPath.length + 1)
+        : candidate.path,
+      heading: candidate.heading,
+      line,
+      content: candidate.content.length > MAX_SOURCE_CHARS
+        ? `${candidate.content.slice(0, MAX_SOURCE_CHARS)}…`
+        : candidate.content,
+    });
+  }
+  return sources;
+}
@@ -0,0 +1,62 @@
+/**
+ * Secret storage for API tokens and similar values.
+ * Secrets live in a separate store file in the app data directory
+ * instead of localStorage, so they never end up in exported settings.
+ */
+
+const SECRETS_STORE_FILE = "secrets.json";
+
+// Check if we're running in Tauri
+const isTauri = () => {
+  return typeof window !== "undefined" && "__TAURI__" in window;
+};
+
+// Fallback for development without Tauri (not persisted)
+const memoryStore = new Map<string, string>();
+
+async function getStore() {
+  const { load } = await import("@tauri-apps/plugin-store");
+  return load(SECRETS_STORE_FILE, { defaults: {}, autoSave: true });
+}
+
+// Whether secrets survive a restart; without Tauri they are only in memory
+export function isSecretStorePersistent(): boolean {
+  return isTauri();
+}
+
+export async function getSecret(key: string): Promise<string | undefined> {
+  if (isTauri()) {
+    const store = await getStore();
+    return store.get<string>(key);
+  }
+
+  return memoryStore.get(key);
+}
+
+export async function setSecret(key: string, value: string): Promise<void> {
+  if (isTauri()) {
+    const store = await getStore();
+    await store.set(key, value);
+    await store.save();
+    return;
+  }
+
+  console.warn("Tauri not available, secret is only kept in memory");
+  memoryStore.set(key, value);
+}
+
+export async function deleteSecret(key: string): Promise<void> {
+  if (isTauri()) {
+    const store = await getStore();
+    await store.delete(key);
+    await store.save();
+    return;
+  }
+
+  memoryStore.delete(key);
+}
+
+export async function hasSecret(key: string): Promise<boolean> {
+  const value = await getSecret(key);
+  return value !== undefined && value !== "";
+}
@@ -0,0 +1,33 @@
+/**
+ * Permission policy for AI tool calls. Every tool can be always allowed,
+ * require a confirmation in the app or be denied. MCP tools without an
+ * own entry fall back to the shared MCP entry.
+ */
+
+export type ToolPermission = "allow" | "ask" | "deny";
+
+export type ToolPermissions = Record<string, ToolPermission>;
+
+export const TOOL_PERMISSION_LABELS: Record<ToolPermission, string> = {
+  allow: "Immer erlauben",
+  ask: "Nachfragen",
+  deny: "Verbieten",
+};
+
+// Policy key for all MCP tools
+export const MCP_TOOLS_KEY = "mcp";
+
+// Deleting asks first unless the user changes it
+export const DEFAULT_TOOL_PERMISSIONS: ToolPermissions = {
+  delete_file: "ask",
+};
+
+export function getToolPermission(permissions: ToolPermissions, toolName: string): ToolPermission {
+  const own = permissions[toolName] ?? DEFAULT_TOOL_PERMISSIONS[toolName];
+  if (own) return own;
+
+  if (toolName.startsWith("mcp_")) {
+    return permissions[MCP_TOOLS_KEY] ?? DEFAULT_TOOL_PERMISSIONS[MCP_TOOLS_KEY] ?? "allow";
+  }
+  return "allow";
+}
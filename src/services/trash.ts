@@ -15,10 +15,11 @@ export async function ensureTrashFolder(projectPath: string): Promise<void> {
   }
 }
 
+// Returns the path inside the trash so the move can be undone
 export async function moveToTrash(
   filePath: string,
   projectPath: string
-): Promise<void> {
+): Promise<string> {
   await ensureTrashFolder(projectPath);
   
   const trashPath = getTrashPath(projectPath);
@@ -41,6 +42,7 @@ export async function moveToTrash(
   }
   
   await renameFile(filePath, targetPath);
+  return targetPath;
 }
 
 export async function restoreFromTrash(
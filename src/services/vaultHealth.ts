@@ -0,0 +1,159 @@
+/**
+ * Vault health report: broken links, links to files in the trash, orphan
+ * notes and attachments no note uses. Built from the link index, so links
+ * in code blocks and the frontmatter don't count.
+ */
+
+import {
+  buildLinkIndex,
+  findTrashedTarget,
+  getContext,
+  getIndexedAttachments,
+  getIndexedNotes,
+  getNoteContent,
+  getNoteTitle,
+  getOutgoingLinks,
+  isAttachment,
+  resolveMarkdownLink,
+  type NoteLink,
+} from "./linkIndex";
+import { isInTrash } from "./trash";
+import { normalizeVaultPath } from "./vaultPath";
+import { getNewNotePath } from "./wikilinks";
+
+export interface LinkProblem {
+  sourcePath: string;
+  link: NoteLink;
+  // Link as written and the line it is on
+  text: string;
+  context: string;
+  // Existing file the link most likely meant
+  suggestion: string | null;
+  // Where the link expects the file, null if that is outside the vault
+  expectedPath: string | null;
+  // The deleted file, for links into the trash
+  trashedPath: string | null;
+}
+
+export interface VaultHealthReport {
+  brokenLinks: LinkProblem[];
+  trashLinks: LinkProblem[];
+  // Notes without links to or from other notes
+  orphans: string[];
+  unusedAttachments: string[];
+}
+
+// Names must be at least this similar for a suggestion
+const MIN_SIMILARITY = 0.5;
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Name without folder and extension, the shared extension of two
+// attachments would make any names look alike
+function baseName(path: string): string {
+  const name = getNoteTitle(path);
+  return (isAttachment(name) ? name.replace(/\.[^.]+$/, "") : name).trim().toLowerCase();
+}
+
+function linkName(link: NoteLink): string {
+  let raw = link.raw;
+  try {
+    raw = decodeURIComponent(raw);
+  } catch {
+    // Keep malformed escapes as written
+  }
+  return baseName(raw.replace(/\\/g, "/"));
+}
+
+/**
+ * File whose name is closest to the link target: attachments for links
+ * with a file extension, notes otherwise.
+ */
+function findBestMatch(link: NoteLink, notes: string[], attachments: string[]): string | null {
+  const wanted = linkName(link);
+  if (!wanted) return null;
+
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const path of isAttachment(link.raw) ? attachments : notes) {
+    const name = baseName(path);
+    const score = 1 - levenshtein(wanted, name) / Math.max(wanted.length, name.length);
+    if (score >= MIN_SIMILARITY && score > bestScore) {
+      best = path;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function getExpectedPath(link: NoteLink, sourcePath: string, projectPath: string): string | null {
+  let path: string;
+  if (link.kind === "markdown") {
+    path = resolveMarkdownLink(link.raw, sourcePath, projectPath);
+  } else {
+    try {
+      // Wikilinks without a folder point to the vault root
+      path = isAttachment(link.raw)
+        ? `${projectPath}/${normalizeVaultPath(link.raw)}`
+        : getNewNotePath(projectPath, link.raw);
+    } catch {
+      return null;
+    }
+  }
+  return path.startsWith(`${projectPath}/`) && !isInTrash(path, projectPath) ? path : null;
+}
+
+export async function buildHealthReport(projectPath: string): Promise<VaultHealthReport> {
+  await buildLinkIndex(projectPath);
+  const notes = getIndexedNotes();
+  const attachments = getIndexedAttachments();
+
+  const report: VaultHealthReport = { brokenLinks: [], trashLinks: [], orphans: [], unusedAttachments: [] };
+  const linkedNotes = new Set<string>();
+  const usedFiles = new Set<string>();
+
+  for (const sourcePath of notes) {
+    const content = getNoteContent(sourcePath) ?? "";
+    for (const link of getOutgoingLinks(sourcePath)) {
+      if (link.target) {
+        usedFiles.add(link.target);
+        if (link.target !== sourcePath && !isAttachment(link.target)) {
+          linkedNotes.add(sourcePath);
+          linkedNotes.add(link.target);
+        }
+        continue;
+      }
+
+      const trashedPath = findTrashedTarget(link, sourcePath, projectPath);
+      const problem: LinkProblem = {
+        sourcePath,
+        link,
+        text: content.slice(link.from, link.to),
+        context: getContext(content, link.from, link.to),
+        suggestion: findBestMatch(link, notes, attachments),
+        expectedPath: getExpectedPath(link, sourcePath, projectPath),
+        trashedPath,
+      };
+      (trashedPath ? report.trashLinks : report.brokenLinks).push(problem);
+    }
+  }
+
+  const byTitle = (a: string, b: string) => getNoteTitle(a).localeCompare(getNoteTitle(b), "de");
+  report.orphans = notes.filter(path => !linkedNotes.has(path)).sort(byTitle);
+  report.unusedAttachments = attachments.filter(path => !usedFiles.has(path)).sort(byTitle);
+  return report;
+}
@@ -0,0 +1,58 @@
+/**
+ * Resolution of tool-supplied paths inside the vault. Paths from the model
+ * are untrusted: absolute paths, `..` segments that leave the vault and
+ * symlinks that could point somewhere else are rejected.
+ */
+
+import { isSymlink } from "./fileSystem";
+
+/**
+ * Normalise a vault-relative path, throws if it would leave the vault
+ */
+export function normalizeVaultPath(relativePath: string): string {
+  const path = relativePath.trim().replace(/\\/g, "/");
+  if (path.startsWith("/") || path.startsWith("~") || /^[a-zA-Z]:/.test(path)) {
+    throw new Error(`Absolute Pfade sind nicht erlaubt ("${relativePath}"). Verwende Pfade relativ zum Projekt.`);
+  }
+
+  const segments: string[] = [];
+  for (const segment of path.split("/")) {
+    if (!segment || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) {
+        throw new Error(`Der Pfad "${relativePath}" führt aus dem Projekt heraus.`);
+      }
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join("/");
+}
+
+/**
+ * Normalise a path and make sure no existing part of it is a symlink,
+ * so a linked folder can't lead out of the vault. Every segment is checked
+ * with lstat, a dangling link doesn't "exist" but would still be followed
+ * on write. Returns the relative path.
+ */
+export async function sanitizeVaultPath(projectPath: string, relativePath: string): Promise<string> {
+  const normalized = normalizeVaultPath(relativePath);
+
+  let current = projectPath;
+  for (const segment of normalized.split("/").filter(Boolean)) {
+    current = `${current}/${segment}`;
+    let isLink: boolean;
+    try {
+      isLink = await isSymlink(current);
+    } catch {
+      // lstat fails for missing parts, nothing below them exists either
+      break;
+    }
+    if (isLink) {
+      throw new Error(`Der Pfad "${relativePath}" enthält einen symbolischen Link und ist nicht erlaubt.`);
+    }
+  }
+
+  return normalized;
+}
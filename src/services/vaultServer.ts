@@ -0,0 +1,239 @@
+/**
+ * Exposes the open vault as an MCP server (streamable HTTP on localhost).
+ * The Rust side accepts the HTTP requests and forwards the JSON-RPC body
+ * as an event; the tools run here through the same code path as the chat.
+ */
+
+import { invoke } from "@tauri-apps/api/core";
+import { listen, type UnlistenFn } from "@tauri-apps/api/event";
+import { executeVaultTool, getVaultTools, type FileOperation, type ProposedChange } from "./openai";
+import { MCP_PROTOCOL_VERSION } from "./mcp";
+import { getSecret, setSecret } from "./secrets";
+import type { ToolPermission } from "./toolPermissions";
+
+export const DEFAULT_VAULT_SERVER_PORT = 3333;
+
+const SERVER_INFO = { name: "TypeGodMD Vault", version: "0.1.0" };
+const TOKEN_SECRET_KEY = "vault-server:token";
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-03-26", "2024-11-05"];
+
+export interface VaultServerHandlers {
+  getProjectPath: () => string | null;
+  // Called at request time so the current diff mode setting applies
+  getToolOptions: () => {
+    onFileUpdated?: (path: string, newContent: string) => void;
+    onProposedChange?: (change: ProposedChange) => void;
+    getPendingChange?: (filePath: string) => ProposedChange | undefined;
+    onFileOperation?: (operation: FileOperation) => void;
+    getToolPermission?: (toolName: string) => ToolPermission;
+    confirmToolCall?: (toolName: string, args: Record<string, unknown>) => Promise<boolean>;
+  };
+  onFilesChanged?: () => void;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface VaultRequestEvent {
+  id: number;
+  body: string;
+}
+
+// Tools that modify the vault - the file tree has to be refreshed afterwards
+const WRITE_TOOLS = ["create_file", "edit_file", "update_file", "set_properties", "rename_file", "delete_file", "create_folder", "move_file"];
+
+let unlisten: UnlistenFn | null = null;
+let handlers: VaultServerHandlers | null = null;
+let runningPort: number | null = null;
+
+// Check if we're running in Tauri
+const isTauri = () => {
+  return typeof window !== "undefined" && "__TAURI__" in window;
+};
+
+// Error carrying a JSON-RPC error code
+const rpcError = (code: number, message: string) => Object.assign(new Error(message), { code });
+
+/**
+ * Start the local MCP endpoint, returns the URL clients connect to
+ */
+export async function startVaultServer(port: number, serverHandlers: VaultServerHandlers): Promise<string> {
+  if (!isTauri()) {
+    throw new Error("Der Vault-Server ist nur in der Desktop-App verfügbar");
+  }
+
+  handlers = serverHandlers;
+
+  if (!unlisten) {
+    unlisten = await listen<VaultRequestEvent>("vault-mcp-request", (event) => {
+      handleRequest(event.payload);
+    });
+  }
+
+  const token = await getVaultServerToken();
+  runningPort = await invoke<number>("start_vault_server", { port, token });
+  return getVaultServerUrl(runningPort);
+}
+
+/**
+ * Stop the local MCP endpoint
+ */
+export async function stopVaultServer(): Promise<void> {
+  if (unlisten) {
+    unlisten();
+    unlisten = null;
+  }
+  handlers = null;
+  runningPort = null;
+
+  if (isTauri()) {
+    await invoke("stop_vault_server");
+  }
+}
+
+export function isVaultServerRunning(): boolean {
+  return runningPort !== null;
+}
+
+export function getVaultServerUrl(port: number): string {
+  return `http://127.0.0.1:${port}/mcp`;
+}
+
+/**
+ * Bearer token clients have to send, created on first use
+ */
+export async function getVaultServerToken(): Promise<string> {
+  const existing = await getSecret(TOKEN_SECRET_KEY);
+  if (existing) return existing;
+
+  const token = crypto.randomUUID().replace(/-/g, "");
+  await setSecret(TOKEN_SECRET_KEY, token);
+  return token;
+}
+
+/**
+ * Replace the token, a running server is restarted so the old one stops working
+ */
+export async function regenerateVaultServerToken(): Promise<string> {
+  const token = crypto.randomUUID().replace(/-/g, "");
+  await setSecret(TOKEN_SECRET_KEY, token);
+
+  if (runningPort !== null && handlers) {
+    await startVaultServer(runningPort, handlers);
+  }
+
+  return token;
+}
+
+async function handleRequest(event: VaultRequestEvent) {
+  let response = "";
+
+  try {
+    const message = JSON.parse(event.body);
+
+    if (Array.isArray(message)) {
+      const responses = (await Promise.all(message.map(handleMessage))).filter(Boolean);
+      response = responses.length > 0 ? JSON.stringify(responses) : "";
+    } else {
+      const single = await handleMessage(message);
+      response = single ? JSON.stringify(single) : "";
+    }
+  } catch {
+    response = JSON.stringify({
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: -32700, message: "Parse error" },
+    });
+  }
+
+  try {
+    await invoke("respond_vault_request", { id: event.id, response });
+  } catch (error) {
+    console.error("Failed to answer vault server request:", error);
+  }
+}
+
+async function handleMessage(message: JsonRpcMessage) {
+  // Notifications and responses to our (non-existent) requests need no answer
+  if (!message.method || message.id === undefined || message.id === null) {
+    return null;
+  }
+
+  try {
+    const result = await dispatch(message.method, message.params || {});
+    return { jsonrpc: "2.0", id: message.id, result };
+  } catch (error) {
+    const code = (error as { code?: number }).code ?? -32603;
+    return {
+      jsonrpc: "2.0",
+      id: message.id,
+      error: { code, message: error instanceof Error ? error.message : String(error) },
+    };
+  }
+}
+
+async function dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+  switch (method) {
+    case "initialize": {
+      const requested = params.protocolVersion as string | undefined;
+      return {
+        protocolVersion: requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+          ? requested
+          : MCP_PROTOCOL_VERSION,
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: SERVER_INFO,
+        instructions: "Zugriff auf die Markdown-Notizen des aktuell geöffneten Projekts in TypeGodMD. Pfade sind relativ zum Projektordner.",
+      };
+    }
+
+    case "ping":
+      return {};
+
+    case "tools/list":
+      return {
+        tools: getVaultTools().map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.parameters || { type: "object", properties: {} },
+        })),
+      };
+
+    case "tools/call":
+      return callVaultTool(params);
+
+    default:
+      throw rpcError(-32601, `Method not found: ${method}`);
+  }
+}
+
+async function callVaultTool(params: Record<string, unknown>) {
+  const name = params.name as string;
+  const args = (params.arguments as Record<string, unknown>) || {};
+
+  if (!getVaultTools().some(tool => tool.name === name)) {
+    throw rpcError(-32602, `Unbekanntes Tool: ${name}`);
+  }
+
+  const projectPath = handlers?.getProjectPath();
+  if (!projectPath) {
+    return {
+      content: [{ type: "text", text: "Fehler: In TypeGodMD ist kein Projekt geöffnet." }],
+      isError: true,
+    };
+  }
+
+  const result = await executeVaultTool(name, args, projectPath, handlers?.getToolOptions() || {});
+
+  if (WRITE_TOOLS.includes(name)) {
+    handlers?.onFilesChanged?.();
+  }
+
+  return {
+    content: [{ type: "text", text: result.content }],
+    isError: result.isError,
+  };
+}
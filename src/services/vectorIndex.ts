@@ -0,0 +1,314 @@
+/**
+ * Persistent embedding index for semantic search, stored per project in
+ * `.typegodmd/index.db` via the SQL plugin. Notes are split into chunks at
+ * their headings; a file is only embedded again when its modification
+ * time and content hash changed.
+ */
+
+import Database from "@tauri-apps/plugin-sql";
+import { readTextFile, createDirectory, readDirectoryRecursive, collectMarkdownFiles } from "./fileSystem";
+import { cosineSimilarity, generateEmbedding } from "./openai";
+import { isInTrash } from "./trash";
+import type { ModelSelection } from "./llm";
+
+const INDEX_FOLDER = ".typegodmd";
+const INDEX_FILE = "index.db";
+// Longer sections are split further, embedding models have input limits
+const MAX_CHUNK_CHARS = 4000;
+
+export interface IndexedChunk {
+  path: string;
+  heading: string;
+  content: string;
+  embedding: number[];
+}
+
+export interface IndexHit {
+  path: string;
+  heading: string;
+  content: string;
+  score: number;
+}
+
+export interface IndexProgress {
+  done: number;
+  total: number;
+}
+
+interface FileRow {
+  path: string;
+  mtime: number;
+  hash: string;
+  model: string;
+}
+
+interface ChunkRow {
+  path: string;
+  heading: string;
+  content: string;
+  embedding: string;
+}
+
+const isTauri = () => {
+  return typeof window !== "undefined" && "__TAURI__" in window;
+};
+
+// One connection per project, opened on first use
+const databases = new Map<string, Promise<Database>>();
+// Vectors of the current model kept in memory between searches
+const chunkCache = new Map<string, { model: string; chunks: IndexedChunk[] }>();
+// Running updates, so overlapping searches don't embed the same files
+// twice; later callers get the progress of the running one as well
+const runningUpdates = new Map<string, {
+  update: Promise<void>;
+  listeners: Set<(progress: IndexProgress) => void>;
+}>();
+
+async function openDatabase(projectPath: string): Promise<Database> {
+  if (!isTauri()) {
+    throw new Error("Der Suchindex ist nur in der Desktop-App verfügbar.");
+  }
+
+  let db = databases.get(projectPath);
+  if (!db) {
+    db = (async () => {
+      await createDirectory(`${projectPath}/${INDEX_FOLDER}`);
+      const database = await Database.load(`sqlite:${projectPath}/${INDEX_FOLDER}/${INDEX_FILE}`);
+      await database.execute(
+        "CREATE TABLE IF NOT EXISTS files (path TEXT PRIMARY KEY, mtime INTEGER NOT NULL, hash TEXT NOT NULL, model TEXT NOT NULL)"
+      );
+      await database.execute(
+        "CREATE TABLE IF NOT EXISTS chunks (id INTEGER PRIMARY KEY AUTOINCREMENT, path TEXT NOT NULL, heading TEXT NOT NULL, content TEXT NOT NULL, embedding TEXT NOT NULL)"
+      );
+      await database.execute("CREATE INDEX IF NOT EXISTS chunks_path ON chunks (path)");
+      return database;
+    })();
+    // A failed open is retried on the next call
+    db.catch(() => databases.delete(projectPath));
+    databases.set(projectPath, db);
+  }
+  return db;
+}
+
+// Vectors of different models can't be compared
+function getModelKey(selection: ModelSelection): string {
+  return `${selection.provider.id}:${selection.model.id}`;
+}
+
+async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function splitLongSection(text: string): string[] {
+  if (text.length <= MAX_CHUNK_CHARS) return [text];
+
+  const parts: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+      parts.push(current);
+      current = "";
+    }
+    // A single huge paragraph is cut hard
+    for (let i = 0; i < paragraph.length; i += MAX_CHUNK_CHARS) {
+      const piece = paragraph.slice(i, i + MAX_CHUNK_CHARS);
+      current = current ? `${current}\n\n${piece}` : piece;
+      if (current.length >= MAX_CHUNK_CHARS) {
+        parts.push(current);
+        current = "";
+      }
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+/**
+ * Split a note into one chunk per heading section. Headings inside code
+ * blocks don't start a section; text before the first heading gets an
+ * empty heading.
+ */
+export function chunkMarkdown(content: string): { heading: string; content: string }[] {
+  const sections: { heading: string; lines: string[] }[] = [{ heading: "", lines: [] }];
+  let inCodeBlock = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+    const match = !inCodeBlock && line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      sections.push({ heading: match[1], lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  const chunks: { heading: string; content: string }[] = [];
+  for (const section of sections) {
+    const text = section.lines.join("\n").trim();
+    if (!text) continue;
+    for (const part of splitLongSection(text)) {
+      chunks.push({ heading: section.heading, content: part });
+    }
+  }
+  return chunks;
+}
+
+async function indexFile(
+  db: Database,
+  path: string,
+  mtime: number,
+  known: FileRow | undefined,
+  model: string,
+  selection: ModelSelection
+): Promise<boolean> {
+  const content = await readTextFile(path);
+  const hash = await hashContent(content);
+
+  // Touched but unchanged, e.g. saved without edits
+  if (known && known.hash === hash && known.model === model) {
+    await db.execute("UPDATE files SET mtime = $1 WHERE path = $2", [mtime, path]);
+    return false;
+  }
+
+  // Embed everything first so a failure keeps the old chunks
+  const chunks = chunkMarkdown(content);
+  const embeddings: number[][] = [];
+  for (const chunk of chunks) {
+    embeddings.push(await generateEmbedding(chunk.content, selection));
+  }
+
+  await db.execute("DELETE FROM chunks WHERE path = $1", [path]);
+  for (let i = 0; i < chunks.length; i++) {
+    await db.execute(
+      "INSERT INTO chunks (path, heading, content, embedding) VALUES ($1, $2, $3, $4)",
+      [path, chunks[i].heading, chunks[i].content, JSON.stringify(embeddings[i])]
+    );
+  }
+  await db.execute(
+    "INSERT OR REPLACE INTO files (path, mtime, hash, model) VALUES ($1, $2, $3, $4)",
+    [path, mtime, hash, model]
+  );
+  return true;
+}
+
+async function runUpdate(
+  projectPath: string,
+  selection: ModelSelection,
+  onProgress?: (progress: IndexProgress) => void
+): Promise<void> {
+  const db = await openDatabase(projectPath);
+  const model = getModelKey(selection);
+
+  // Deleted notes are not searched, rows of notes moved to the trash go
+  const files = collectMarkdownFiles(await readDirectoryRecursive(projectPath))
+    .filter(file => !isInTrash(file.path, projectPath));
+  const rows = await db.select<FileRow[]>("SELECT path, mtime, hash, model FROM files");
+  const known = new Map(rows.map(row => [row.path, row]));
+
+  const changed = files.filter(file => {
+    const row = known.get(file.path);
+    return !row || row.model !== model || row.mtime !== (file.metadata?.modified ?? 0);
+  });
+  const existing = new Set(files.map(file => file.path));
+  const removed = rows.filter(row => !existing.has(row.path));
+
+  let modified = false;
+  for (const row of removed) {
+    await db.execute("DELETE FROM chunks WHERE path = $1", [row.path]);
+    await db.execute("DELETE FROM files WHERE path = $1", [row.path]);
+    modified = true;
+  }
+
+  for (let i = 0; i < changed.length; i++) {
+    onProgress?.({ done: i, total: changed.length });
+    const file = changed[i];
+    try {
+      if (await indexFile(db, file.path, file.metadata?.modified ?? 0, known.get(file.path), model, selection)) {
+        modified = true;
+      }
+    } catch (error) {
+      console.error(`Error indexing file ${file.path}:`, error);
+    }
+  }
+  if (changed.length > 0) {
+    onProgress?.({ done: changed.length, total: changed.length });
+  }
+
+  if (modified) {
+    chunkCache.delete(projectPath);
+  }
+}
+
+/**
+ * Bring the index of a project up to date: embed new and changed notes,
+ * drop deleted ones. Only files whose mtime moved are read at all.
+ */
+export async function updateIndex(
+  projectPath: string,
+  selection: ModelSelection,
+  onProgress?: (progress: IndexProgress) => void
+): Promise<void> {
+  const running = runningUpdates.get(projectPath);
+  if (running) {
+    if (onProgress) running.listeners.add(onProgress);
+    return running.update;
+  }
+
+  const listeners = new Set(onProgress ? [onProgress] : []);
+  const update = runUpdate(projectPath, selection, (progress) => {
+    listeners.forEach(listener => listener(progress));
+  }).finally(() => {
+    runningUpdates.delete(projectPath);
+  });
+  runningUpdates.set(projectPath, { update, listeners });
+  return update;
+}
+
+async function loadChunks(projectPath: string, model: string): Promise<IndexedChunk[]> {
+  const cached = chunkCache.get(projectPath);
+  if (cached && cached.model === model) return cached.chunks;
+
+  const db = await openDatabase(projectPath);
+  const rows = await db.select<ChunkRow[]>(
+    "SELECT chunks.path, chunks.heading, chunks.content, chunks.embedding FROM chunks JOIN files ON files.path = chunks.path WHERE files.model = $1",
+    [model]
+  );
+  const chunks = rows.map(row => ({
+    path: row.path,
+    heading: row.heading,
+    content: row.content,
+    embedding: JSON.parse(row.embedding) as number[],
+  }));
+  chunkCache.set(projectPath, { model, chunks });
+  return chunks;
+}
+
+/**
+ * Rank the indexed chunks against a query. Only the query is embedded,
+ * call updateIndex before to pick up changed notes.
+ */
+export async function searchIndex(
+  projectPath: string,
+  query: string,
+  selection: ModelSelection,
+  limit: number = 10,
+  minScore: number = 0.3
+): Promise<IndexHit[]> {
+  const chunks = await loadChunks(projectPath, getModelKey(selection));
+  if (chunks.length === 0) return [];
+
+  const queryEmbedding = await generateEmbedding(query, selection);
+  return chunks
+    .map(chunk => ({
+      path: chunk.path,
+      heading: chunk.heading,
+      content: chunk.content,
+      score: cosineSimilarity(queryEmbedding, chunk.embedding),
+    }))
+    .filter(hit => hit.score > minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
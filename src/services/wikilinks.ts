@@ -0,0 +1,178 @@
+/**
+ * Obsidian-style wikilinks: [[Note]], [[Note|Alias]] and [[Note#Heading]].
+ * A link is resolved by note name anywhere in the vault; a folder in the
+ * target ([[Ordner/Note]]) narrows the match.
+ */
+
+import { readDirectoryRecursive, collectMarkdownFiles } from "./fileSystem";
+import { normalizeVaultPath } from "./vaultPath";
+
+export interface Wikilink {
+  // Note name or path, empty for a link to a heading in the same note
+  target: string;
+  heading?: string;
+  alias?: string;
+}
+
+// [[target#heading|alias]]
+export const WIKILINK_PATTERN = String.raw`\[\[([^\[\]|#\n]*)(?:#([^\[\]|\n]*))?(?:\|([^\[\]\n]*))?\]\]`;
+
+export function createWikilinkRegex(): RegExp {
+  return new RegExp(WIKILINK_PATTERN, "g");
+}
+
+export function parseWikilink(match: RegExpMatchArray): Wikilink | null {
+  const target = match[1].trim();
+  const heading = match[2]?.trim() || undefined;
+  const alias = match[3]?.trim() || undefined;
+  if (!target && !heading) return null;
+  return { target, heading, alias };
+}
+
+export function formatWikilink(link: Wikilink): string {
+  return `[[${link.target}${link.heading ? `#${link.heading}` : ""}${link.alias ? `|${link.alias}` : ""}]]`;
+}
+
+// Text shown for a link in the rendered document
+export function getWikilinkLabel(link: Wikilink): string {
+  if (link.alias) return link.alias;
+  if (!link.heading) return link.target;
+  return link.target ? `${link.target} › ${link.heading}` : link.heading;
+}
+
+/**
+ * All wikilinks of a note. Code blocks and inline code are skipped, links
+ * in examples are not real links.
+ */
+export function extractWikilinks(content: string): Wikilink[] {
+  const text = content
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, "")
+    .replace(/`[^`\n]*`/g, "");
+
+  const links: Wikilink[] = [];
+  const regex = createWikilinkRegex();
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    const link = parseWikilink(match);
+    if (link) links.push(link);
+  }
+  return links;
+}
+
+function sharedSegments(a: string, b: string): number {
+  const left = a.split("/");
+  const right = b.split("/");
+  let count = 0;
+  while (count < left.length && count < right.length && left[count] === right[count]) count++;
+  return count;
+}
+
+/**
+ * Find the note a link target points to among the given Markdown files.
+ * Names are compared case-insensitively like in Obsidian; with several
+ * notes of the same name the one closest to the linking note wins.
+ */
+export function resolveWikilinkTarget(target: string, files: string[], fromPath?: string): string | null {
+  const wanted = target.trim().replace(/\\/g, "/").replace(/^\/+/, "").replace(/\.md$/i, "").toLowerCase();
+  if (!wanted) return fromPath ?? null;
+
+  const matches = files.filter(file => {
+    const key = file.replace(/\.md$/i, "").toLowerCase();
+    return key === wanted || key.endsWith(`/${wanted}`);
+  });
+  if (matches.length <= 1) return matches[0] ?? null;
+
+  const fromDir = fromPath ? fromPath.slice(0, fromPath.lastIndexOf("/")) : "";
+  return [...matches].sort(
+    (a, b) => sharedSegments(b, fromDir) - sharedSegments(a, fromDir) || a.length - b.length
+  )[0];
+}
+
+async function listNotePaths(projectPath: string): Promise<string[]> {
+  return collectMarkdownFiles(await readDirectoryRecursive(projectPath)).map(file => file.path);
+}
+
+export async function resolveWikilink(projectPath: string, target: string, fromPath?: string): Promise<string | null> {
+  return resolveWikilinkTarget(target, await listNotePaths(projectPath), fromPath);
+}
+
+/**
+ * Path of the note created for an unresolved link, relative to the vault
+ * root. Throws if the target would leave the vault.
+ */
+export function getNewNotePath(projectPath: string, target: string): string {
+  const relative = normalizeVaultPath(target.replace(/\.md$/i, ""));
+  if (!relative) {
+    throw new Error("Der Link hat kein Ziel.");
+  }
+  return `${projectPath}/${relative}.md`;
+}
+
+interface MdastNode {
+  type: string;
+  value?: string;
+  children?: MdastNode[];
+  [key: string]: unknown;
+}
+
+function toWikilinkNode(link: Wikilink): MdastNode {
+  return {
+    type: "wikilink",
+    ...link,
+    // Rendered as a link by react-markdown
+    data: {
+      hName: "a",
+      hProperties: {
+        className: ["wikilink"],
+        href: "#",
+        dataWikilink: link.target,
+        dataHeading: link.heading,
+      },
+    },
+    children: [{ type: "text", value: getWikilinkLabel(link) }],
+  };
+}
+
+function splitTextNode(node: MdastNode): MdastNode[] {
+  const value = node.value || "";
+  const nodes: MdastNode[] = [];
+  const regex = createWikilinkRegex();
+  let lastIndex = 0;
+  let match;
+  while ((match = regex.exec(value)) !== null) {
+    const link = parseWikilink(match);
+    if (!link) continue;
+    if (match.index > lastIndex) {
+      nodes.push({ type: "text", value: value.slice(lastIndex, match.index) });
+    }
+    nodes.push(toWikilinkNode(link));
+    lastIndex = match.index + match[0].length;
+  }
+  if (nodes.length === 0) return [node];
+  if (lastIndex < value.length) {
+    nodes.push({ type: "text", value: value.slice(lastIndex) });
+  }
+  return nodes;
+}
+
+function transformWikilinks(node: MdastNode): void {
+  if (!node.children || node.type === "link" || node.type === "wikilink") return;
+  node.children = node.children.flatMap(child => {
+    if (child.type === "text") return splitTextNode(child);
+    transformWikilinks(child);
+    return [child];
+  });
+}
+
+/**
+ * remark plugin that turns wikilinks in text into `wikilink` nodes and
+ * writes them back unchanged, so they survive a round trip through the
+ * WYSIWYG editor without escaped brackets.
+ */
+export function remarkWikilinks(this: { data(): unknown }) {
+  const data = this.data() as { toMarkdownExtensions?: unknown[] };
+  (data.toMarkdownExtensions ||= []).push({
+    handlers: { wikilink: (node: Wikilink) => formatWikilink(node) },
+  });
+  return (tree: MdastNode) => transformWikilinks(tree);
+}
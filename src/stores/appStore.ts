@@ -1,5 +1,20 @@
 import { create } from "zustand";
 import type { McpServerConfig } from "../services/mcp";
+import { DEFAULT_MAX_STEPS, DEFAULT_TOKEN_BUDGET, type FileOperation, type ProposedChangeKind, type ToolStep } from "../services/openai";
+import { createJournalEntry, type JournalEntry } from "../services/aiJournal";
+import { getToolPermission, type ToolPermission, type ToolPermissions } from "../services/toolPermissions";
+import { createThreadTitle, type ChatThread } from "../services/chatHistory";
+import type { Wikilink } from "../services/wikilinks";
+import type { NoteReference } from "../services/linkIndex";
+import type { LinkRewrite } from "../services/linkRewrite";
+import type { LinkProblem } from "../services/vaultHealth";
+import {
+  DEFAULT_PROVIDERS,
+  getProviderSecretKey,
+  resolveModelSelection,
+  type ModelSelection,
+  type ProviderConfig,
+} from "../services/llm";
 
 export interface Project {
   id: string;
@@ -58,11 +73,34 @@ export function getOfficeType(filename: string): "word" | "excel" | "powerpoint"
   return "other";
 }
 
+// MCP resource attached to a chat message
+export interface ChatAttachment {
+  serverId: string;
+  uri: string;
+  name: string;
+  content: string;
+}
+
+// Note excerpt retrieved for a question in the vault knowledge mode
+export interface ChatSource {
+  path: string;
+  // Path relative to the project, shown to the model and in citations
+  name: string;
+  heading: string;
+  line: number;
+  content: string;
+}
+
 export interface ChatMessage {
   id: string;
   role: "user" | "assistant" | "system";
   content: string;
   timestamp: Date;
+  attachments?: ChatAttachment[];
+  sources?: ChatSource[];
+  toolSteps?: ToolStep[];
+  // Id of this reply's change set and of its journaled file operations
+  changeSetId?: string;
 }
 
 export interface PendingChange {
@@ -72,6 +110,55 @@ export interface PendingChange {
   originalContent: string;
   newContent: string;
   timestamp: Date;
+  changeSetId?: string;
+  // Missing means a content update of an existing file
+  kind?: ProposedChangeKind;
+  newPath?: string;
+}
+
+export type ChangeSetFileStatus = "pending" | "accepted" | "rejected";
+
+export interface ChangeSetFile {
+  filePath: string;
+  fileName: string;
+  status: ChangeSetFileStatus;
+  kind?: ProposedChangeKind;
+  newPath?: string;
+}
+
+// All files one assistant reply changed, reviewed as one unit
+export interface ChangeSet {
+  id: string;
+  files: ChangeSetFile[];
+  createdAt: Date;
+}
+
+// Place in a file the editor should scroll to, e.g. a cited section
+export interface EditorLocation {
+  path: string;
+  line: number;
+  heading?: string;
+}
+
+export interface EditorSelection {
+  path: string;
+  text: string;
+}
+
+export interface ToolConfirmationRequest {
+  toolName: string;
+  args: Record<string, unknown>;
+  resolve: (allowed: boolean) => void;
+}
+
+export type LinkRewriteDecision = "update" | "skip" | "cancel";
+
+// Links that a rename would break, shown for confirmation before it happens
+export interface LinkRewriteRequest {
+  oldPath: string;
+  newPath: string;
+  rewrites: LinkRewrite[];
+  resolve: (decision: LinkRewriteDecision) => void;
 }
 
 interface AppState {
@@ -98,24 +185,65 @@ interface AppState {
   openFiles: OpenFile[];
   activeFile: string | null;
   openFile: (path: string) => Promise<void>;
+  openFileAt: (path: string, line: number, heading?: string) => Promise<void>;
+  // Open the note a wikilink points to, offers to create a missing one
+  openWikilink: (link: Wikilink, fromPath?: string) => Promise<void>;
+  // Create a note for a link to a missing note, with its name as heading
+  createLinkedNote: (path: string) => Promise<void>;
+  editorLocation: EditorLocation | null;
+  clearEditorLocation: () => void;
+  // Text selected in the editor, kept when the focus moves to the chat
+  editorSelection: EditorSelection | null;
+  setEditorSelection: (selection: EditorSelection | null) => void;
   closeFile: (path: string) => void;
   setActiveFile: (path: string) => void;
   updateFileContent: (path: string, content: string, markDirty?: boolean) => void;
   saveFile: (path: string) => Promise<void>;
+  // Rename or move a file or folder from the explorer and rewrite the links to it
+  renameWithLinks: (oldPath: string, newPath: string) => Promise<void>;
+  linkRewriteRequest: LinkRewriteRequest | null;
+  resolveLinkRewriteRequest: (decision: LinkRewriteDecision) => void;
+  // Turn an unlinked mention of a note into a wikilink and save the source
+  linkUnlinkedMention: (mention: NoteReference, notePath: string) => Promise<void>;
+  // Point a broken link from the vault health report to an existing file
+  retargetLink: (problem: LinkProblem, targetPath: string) => Promise<void>;
   reloadOpenFiles: () => Promise<void>;
 
   // Chat
   chatMessages: ChatMessage[];
-  addChatMessage: (message: Omit<ChatMessage, "id" | "timestamp">) => void;
-  clearChat: () => void;
+  // Returns the id of the new message
+  addChatMessage: (message: Omit<ChatMessage, "id" | "timestamp">) => string;
+  // E.g. sources that are found after the question is shown
+  updateChatMessage: (id: string, updates: Partial<Omit<ChatMessage, "id">>) => void;
+  chatThreads: ChatThread[];
+  activeThreadId: string | null;
+  loadChatThreads: () => Promise<void>;
+  startNewThread: () => void;
+  openChatThread: (id: string) => void;
+  renameChatThread: (id: string, title: string) => Promise<void>;
+  deleteChatThread: (id: string) => Promise<void>;
+  forkChatThread: (id: string, upToMessageId?: string) => Promise<void>;
 
   // Pending Changes (AI suggestions)
   pendingChanges: PendingChange[];
   addPendingChange: (change: Omit<PendingChange, "id" | "timestamp">) => void;
+  // Throws if the change can't be applied, it then stays pending
   acceptPendingChange: (id: string) => Promise<void>;
   acceptPendingChangeWithContent: (id: string, content: string) => Promise<void>;
   rejectPendingChange: (id: string) => void;
   getPendingChangeForFile: (filePath: string) => PendingChange | undefined;
+  // Let the AI rewrite content[from, to) of an open file (or insert at from)
+  // and stage the result as a pending change
+  proposeInlineEdit: (path: string, from: number, to: number, instruction: string, signal?: AbortSignal) => Promise<void>;
+  changeSets: ChangeSet[];
+  acceptChangeSet: (id: string) => Promise<void>;
+  rejectChangeSet: (id: string) => void;
+
+  // Journal of direct AI file operations
+  aiJournal: JournalEntry[];
+  loadAiJournal: () => Promise<void>;
+  recordFileOperation: (turnId: string, operation: FileOperation) => void;
+  undoAiTurn: (turnId: string) => Promise<void>;
 
   // UI State
   sidebarWidth: number;
@@ -128,12 +256,41 @@ interface AppState {
   setShowSettings: (show: boolean) => void;
 
   // Settings
-  apiKey: string;
-  setApiKey: (key: string) => void;
+  providers: ProviderConfig[];
+  addProvider: (provider: ProviderConfig) => void;
+  updateProvider: (id: string, updates: Partial<ProviderConfig>) => void;
+  removeProvider: (id: string) => void;
+  providerApiKeys: Record<string, string>;
+  setProviderApiKey: (providerId: string, key: string) => Promise<void>;
+  selectedProviderId: string;
   selectedModel: string;
-  setSelectedModel: (model: string) => void;
+  setSelectedModel: (providerId: string, model: string) => void;
+  getModelSelection: () => ModelSelection | null;
   diffModeEnabled: boolean;
   setDiffModeEnabled: (enabled: boolean) => void;
+  // Add relevant note excerpts to every chat question
+  useVaultKnowledge: boolean;
+  setUseVaultKnowledge: (enabled: boolean) => void;
+  // Global instructions added to the system prompt
+  customPrompt: string;
+  setCustomPrompt: (prompt: string) => void;
+  agentMaxSteps: number;
+  setAgentMaxSteps: (steps: number) => void;
+  agentTokenBudget: number;
+  setAgentTokenBudget: (tokens: number) => void;
+  vaultServerEnabled: boolean;
+  setVaultServerEnabled: (enabled: boolean) => void;
+  vaultServerPort: number;
+  setVaultServerPort: (port: number) => void;
+  toolPermissions: ToolPermissions;
+  // null removes the own entry so the default applies again
+  setToolPermission: (toolName: string, permission: ToolPermission | null) => void;
+  getToolPermission: (toolName: string) => ToolPermission;
+
+  // Tool call waiting for the user's confirmation ("ask" policy)
+  toolConfirmation: ToolConfirmationRequest | null;
+  requestToolConfirmation: (toolName: string, args: Record<string, unknown>) => Promise<boolean>;
+  resolveToolConfirmation: (allowed: boolean) => void;
   
   // MCP Settings
   mcpServers: McpServerConfig[];
@@ -143,6 +300,182 @@ interface AppState {
   removeMcpServer: (id: string) => void;
 }
 
+// Thread writes are queued so an older snapshot never overwrites a newer one
+let threadSaveQueue: Promise<void> = Promise.resolve();
+
+function persistThread(project: Project | null, thread: ChatThread) {
+  if (!project) return;
+  
+  threadSaveQueue = threadSaveQueue.then(async () => {
+    try {
+      const { saveThread } = await import("../services/chatHistory");
+      await saveThread(project.path, thread);
+    } catch (error) {
+      console.error("Failed to save chat thread:", error);
+    }
+  });
+}
+
+// Deletes run in the same queue, so a save that is still pending can't
+// write the thread back afterwards
+function removePersistedThread(project: Project | null, id: string): Promise<void> {
+  if (!project) return Promise.resolve();
+
+  threadSaveQueue = threadSaveQueue.then(async () => {
+    try {
+      const { deleteThread } = await import("../services/chatHistory");
+      await deleteThread(project.path, id);
+    } catch (error) {
+      console.error("Failed to delete chat thread:", error);
+    }
+  });
+  return threadSaveQueue;
+}
+
+// Review states of change sets are saved so replies in saved threads
+// still show them after a restart
+let changeSetSaveQueue: Promise<void> = Promise.resolve();
+
+function persistChangeSets(project: Project | null, changeSets: ChangeSet[]) {
+  if (!project) return;
+
+  changeSetSaveQueue = changeSetSaveQueue.then(async () => {
+    try {
+      const { saveChangeSets } = await import("../services/chatHistory");
+      await saveChangeSets(project.path, changeSets);
+    } catch (error) {
+      console.error("Failed to save change sets:", error);
+    }
+  });
+}
+
+// Confirmations are shown one at a time, e.g. for parallel MCP server calls
+let toolConfirmationQueue: Promise<unknown> = Promise.resolve();
+
+// Journal writes are queued like thread writes
+let journalSaveQueue: Promise<void> = Promise.resolve();
+
+function persistJournal(project: Project | null, entries: JournalEntry[]) {
+  if (!project) return;
+
+  journalSaveQueue = journalSaveQueue.then(async () => {
+    try {
+      const { saveJournal } = await import("../services/aiJournal");
+      await saveJournal(project.path, entries);
+    } catch (error) {
+      console.error("Failed to save AI journal:", error);
+    }
+  });
+}
+
+// Content edits (update/create) and structural operations on the same path
+// are separate pending items, e.g. an edit followed by a rename
+export function isContentChange(change: { kind?: ProposedChangeKind }): boolean {
+  return !change.kind || change.kind === "update" || change.kind === "create";
+}
+
+function isSameItem(
+  a: { filePath: string; kind?: ProposedChangeKind },
+  b: { filePath: string; kind?: ProposedChangeKind }
+): boolean {
+  return a.filePath === b.filePath && (isContentChange(a) ? isContentChange(b) : a.kind === b.kind);
+}
+
+// Record the review result of a file in the change set it belongs to
+function setChangeSetFileStatus(
+  changeSets: ChangeSet[],
+  change: PendingChange,
+  status: ChangeSetFileStatus
+): ChangeSet[] {
+  if (!change.changeSetId) return changeSets;
+  return changeSets.map(cs => cs.id === change.changeSetId
+    ? { ...cs, files: cs.files.map(f => isSameItem(f, change) ? { ...f, status } : f) }
+    : cs);
+}
+
+// Path after a rename/move of `from`, also for files inside a moved folder
+function remapPath(path: string, from: string, to: string): string {
+  if (path === from) return to;
+  return path.startsWith(`${from}/`) ? `${to}${path.slice(from.length)}` : path;
+}
+
+type OpenPaths = Pick<AppState, "openFiles" | "activeFile" | "pendingChanges" | "changeSets">;
+
+// Open tabs and pending edits follow a rename or move
+function remapOpenPaths(state: OpenPaths, from: string, to: string): OpenPaths {
+  return {
+    openFiles: state.openFiles.map(f => {
+      const path = remapPath(f.path, from, to);
+      return path === f.path ? f : { ...f, path, name: path.split("/").pop() || path };
+    }),
+    pendingChanges: state.pendingChanges.map(c => ({ ...c, filePath: remapPath(c.filePath, from, to) })),
+    changeSets: state.changeSets.map(cs => ({
+      ...cs,
+      files: cs.files.map(f => f.status === "pending" ? { ...f, filePath: remapPath(f.filePath, from, to) } : f),
+    })),
+    activeFile: state.activeFile ? remapPath(state.activeFile, from, to) : state.activeFile,
+  };
+}
+
+function isWithin(path: string, folder: string): boolean {
+  return path === folder || path.startsWith(`${folder}/`);
+}
+
+// Carry out a staged folder creation, rename, move or delete
+async function applyStructuralChange(change: PendingChange, projectPath: string | undefined) {
+  const { createDirectory, renameFile, fileExists } = await import("../services/fileSystem");
+
+  switch (change.kind) {
+    case "create_folder":
+      await createDirectory(change.filePath);
+      return;
+    case "rename":
+    case "move": {
+      if (!change.newPath) return;
+      if (await fileExists(change.newPath)) {
+        throw new Error(`"${change.newPath}" existiert bereits`);
+      }
+      const parentDir = change.newPath.substring(0, change.newPath.lastIndexOf("/"));
+      if (parentDir) {
+        await createDirectory(parentDir);
+      }
+      await renameFile(change.filePath, change.newPath);
+      return;
+    }
+    case "delete": {
+      if (!projectPath) return;
+      const { moveToTrash } = await import("../services/trash");
+      await moveToTrash(change.filePath, projectPath);
+      return;
+    }
+  }
+}
+
+// Change a note and update the link index. An open note is edited in the
+// editor, so unsaved changes aren't lost
+async function editNote(
+  get: () => AppState,
+  projectPath: string,
+  path: string,
+  edit: (content: string) => string
+) {
+  const openFile = get().openFiles.find(f => f.path === path);
+  if (openFile) {
+    get().updateFileContent(path, edit(openFile.content));
+    await get().saveFile(path);
+    return;
+  }
+
+  const { readTextFile, writeTextFile } = await import("../services/fileSystem");
+  const { updateLinkIndex } = await import("../services/linkIndex");
+  const content = edit(await readTextFile(path));
+  await writeTextFile(path, content);
+  await updateLinkIndex(projectPath, path, content);
+}
+
+// Folders first so files can be created in them, deletes last
+const CHANGE_KIND_ORDER: ProposedChangeKind[] = ["create_folder", "create", "update", "rename", "move", "delete"];
+
 export const useAppStore = create<AppState>((set, get) => ({
   // Initialization
   initialized: false,
@@ -151,10 +484,22 @@ export const useAppStore = create<AppState>((set, get) => ({
     await get().loadRecentProjects();
     
     // Load settings
-    const storedApiKey = localStorage.getItem("openai_api_key") || "";
     const storedModel = localStorage.getItem("selected_model") || "gpt-4o";
+    const storedProviderId = localStorage.getItem("selected_provider") || "openai";
     const storedDiffMode = localStorage.getItem("diff_mode_enabled");
     const diffModeEnabled = storedDiffMode === null ? true : storedDiffMode === "true";
+    const useVaultKnowledge = localStorage.getItem("use_vault_knowledge") === "true";
+    const customPrompt = localStorage.getItem("custom_prompt") || "";
+    const agentMaxSteps = Number(localStorage.getItem("agent_max_steps")) || DEFAULT_MAX_STEPS;
+    const agentTokenBudget = Number(localStorage.getItem("agent_token_budget")) || DEFAULT_TOKEN_BUDGET;
+    const vaultServerEnabled = localStorage.getItem("vault_server_enabled") === "true";
+    const vaultServerPort = Number(localStorage.getItem("vault_server_port")) || 3333;
+    let toolPermissions: ToolPermissions = {};
+    try {
+      toolPermissions = JSON.parse(localStorage.getItem("tool_permissions") || "{}");
+    } catch {
+      toolPermissions = {};
+    }
     
     // Load MCP servers
     let mcpServers: McpServerConfig[] = [];
@@ -167,11 +512,69 @@ export const useAppStore = create<AppState>((set, get) => ({
       mcpServers = [];
     }
     
+    // Load LLM providers, their keys live in the secret store
+    let providers: ProviderConfig[] = DEFAULT_PROVIDERS;
+    try {
+      const storedProviders = localStorage.getItem("llm_providers");
+      if (storedProviders) {
+        providers = JSON.parse(storedProviders);
+      }
+    } catch {
+      providers = DEFAULT_PROVIDERS;
+    }
+
+    const { getSecret, setSecret, isSecretStorePersistent } = await import("../services/secrets");
+
+    // Migrate keys that older versions kept in localStorage
+    let storedKeys: Record<string, string> = {};
+    try {
+      storedKeys = JSON.parse(localStorage.getItem("provider_api_keys") || "{}");
+    } catch {
+      storedKeys = {};
+    }
+    const legacyApiKey = localStorage.getItem("openai_api_key");
+    if (legacyApiKey && !storedKeys.openai) {
+      storedKeys.openai = legacyApiKey;
+    }
+    try {
+      for (const [providerId, key] of Object.entries(storedKeys)) {
+        if (key && !(await getSecret(getProviderSecretKey(providerId)))) {
+          await setSecret(getProviderSecretKey(providerId), key);
+        }
+      }
+      // The browser build only keeps secrets in memory, the old copy stays
+      if (isSecretStorePersistent()) {
+        localStorage.removeItem("provider_api_keys");
+        localStorage.removeItem("openai_api_key");
+      }
+    } catch (error) {
+      console.error("Failed to migrate API keys:", error);
+    }
+
+    const providerApiKeys: Record<string, string> = {};
+    for (const provider of providers) {
+      try {
+        const key = await getSecret(getProviderSecretKey(provider.id));
+        if (key) providerApiKeys[provider.id] = key;
+      } catch (error) {
+        console.error(`Failed to load API key for ${provider.name}:`, error);
+      }
+    }
+    
     set({ 
       initialized: true,
-      apiKey: storedApiKey,
+      providers,
+      providerApiKeys,
+      selectedProviderId: storedProviderId,
       selectedModel: storedModel,
       diffModeEnabled,
+      useVaultKnowledge,
+      customPrompt,
+      agentMaxSteps,
+      agentTokenBudget,
+      vaultServerEnabled,
+      vaultServerPort,
+      toolPermissions,
       mcpServers,
     });
   },
@@ -180,10 +583,12 @@ export const useAppStore = create<AppState>((set, get) => ({
   currentProject: null,
   recentProjects: [],
   setCurrentProject: (project) => {
-    set({ currentProject: project });
+    set({ currentProject: project, chatMessages: [], chatThreads: [], activeThreadId: null, aiJournal: [], changeSets: [] });
     if (project) {
       get().addRecentProject(project);
       get().refreshFileTree();
+      get().loadChatThreads();
+      get().loadAiJournal();
     }
   },
   addRecentProject: (project) => {
@@ -321,9 +726,11 @@ export const useAppStore = create<AppState>((set, get) => ({
         return;
       }
       
-      // For text-based files, read the content
+      // For text-based files, read the content; a staged new file starts empty
+      // and its content is shown as a pending change
       const { readTextFile } = await import("../services/fileSystem");
-      const content = await readTextFile(path);
+      const isStagedFile = get().pendingChanges.some(c => c.filePath === path && c.kind === "create");
+      const content = isStagedFile ? "" : await readTextFile(path);
       
       set({
         openFiles: [...get().openFiles, { path, name, content, isDirty: false, fileType }],
@@ -334,6 +741,45 @@ export const useAppStore = create<AppState>((set, get) => ({
       console.error("Failed to open file:", error);
     }
   },
+  openFileAt: async (path, line, heading) => {
+    await get().openFile(path);
+    if (get().activeFile === path) {
+      set({ editorLocation: { path, line, heading } });
+    }
+  },
+  openWikilink: async (link, fromPath) => {
+    const project = get().currentProject;
+    if (!project) return;
+
+    try {
+      const { resolveWikilink, getNewNotePath } = await import("../services/wikilinks");
+      let path = await resolveWikilink(project.path, link.target, fromPath);
+      if (!path) {
+        if (!confirm(`Die Notiz "${link.target}" existiert noch nicht. Jetzt anlegen?`)) return;
+        path = getNewNotePath(project.path, link.target);
+        await get().createLinkedNote(path);
+      }
+
+      if (link.heading) {
+        await get().openFileAt(path, 1, link.heading);
+      } else {
+        await get().openFile(path);
+      }
+    } catch (error) {
+      console.error("Failed to open wikilink:", error);
+    }
+  },
+  createLinkedNote: async (path) => {
+    const { createFile, createDirectory } = await import("../services/fileSystem");
+    const title = path.split("/").pop()!.replace(/\.md$/, "");
+    await createDirectory(path.substring(0, path.lastIndexOf("/")));
+    await createFile(path, `# ${title}\n\n`);
+    await get().refreshFileTree();
+  },
+  editorLocation: null,
+  clearEditorLocation: () => set({ editorLocation: null }),
+  editorSelection: null,
+  setEditorSelection: (selection) => set({ editorSelection: selection }),
   closeFile: (path) => {
     const files = get().openFiles.filter((f) => f.path !== path);
     let newActive = get().activeFile;
@@ -365,10 +811,92 @@ export const useAppStore = create<AppState>((set, get) => ({
           f.path === path ? { ...f, isDirty: false } : f
         ),
       });
+
+      const project = get().currentProject;
+      if (project) {
+        const { updateLinkIndex } = await import("../services/linkIndex");
+        await updateLinkIndex(project.path, path, file.content);
+      }
     } catch (error) {
       console.error("Failed to save file:", error);
     }
   },
+  renameWithLinks: async (oldPath, newPath) => {
+    const { renameFile, writeTextFile } = await import("../services/fileSystem");
+    const project = get().currentProject;
+    if (!project) {
+      await renameFile(oldPath, newPath);
+      set(remapOpenPaths(get(), oldPath, newPath));
+      return;
+    }
+
+    const { planLinkRewrites } = await import("../services/linkRewrite");
+    let rewrites: LinkRewrite[] = [];
+    try {
+      // Unsaved editor content is rewritten instead of the file on disk
+      rewrites = await planLinkRewrites(project.path, oldPath, newPath, (path) =>
+        get().openFiles.find(f => f.path === path)?.content
+      );
+    } catch (error) {
+      console.error("Failed to plan link rewrites:", error);
+    }
+
+    let decision: LinkRewriteDecision = "skip";
+    if (rewrites.length > 0) {
+      decision = await new Promise<LinkRewriteDecision>((resolve) => {
+        set({ linkRewriteRequest: { oldPath, newPath, rewrites, resolve } });
+      });
+      if (decision === "cancel") return;
+    }
+
+    await renameFile(oldPath, newPath);
+    // Tabs follow first, so rewrites of open notes are found under the new path
+    set(remapOpenPaths(get(), oldPath, newPath));
+    if (decision !== "update") return;
+
+    const { updateLinkIndex } = await import("../services/linkIndex");
+    for (const rewrite of rewrites) {
+      if (get().diffModeEnabled) {
+        get().addPendingChange({
+          filePath: rewrite.newFilePath,
+          fileName: rewrite.fileName,
+          originalContent: rewrite.originalContent,
+          newContent: rewrite.newContent,
+        });
+      } else if (get().openFiles.some(f => f.path === rewrite.newFilePath)) {
+        get().updateFileContent(rewrite.newFilePath, rewrite.newContent);
+        await get().saveFile(rewrite.newFilePath);
+      } else {
+        await writeTextFile(rewrite.newFilePath, rewrite.newContent);
+        await updateLinkIndex(project.path, rewrite.newFilePath, rewrite.newContent);
+      }
+    }
+  },
+  linkRewriteRequest: null,
+  resolveLinkRewriteRequest: (decision) => {
+    const request = get().linkRewriteRequest;
+    if (!request) return;
+    set({ linkRewriteRequest: null });
+    request.resolve(decision);
+  },
+  linkUnlinkedMention: async (mention, notePath) => {
+    const project = get().currentProject;
+    if (!project) return;
+
+    const { linkMention } = await import("../services/linkIndex");
+    await editNote(get, project.path, mention.sourcePath, (content) =>
+      linkMention(content, mention, notePath, project.path)
+    );
+  },
+  retargetLink: async (problem, targetPath) => {
+    const project = get().currentProject;
+    if (!project) return;
+
+    const { retargetLink } = await import("../services/linkRewrite");
+    await editNote(get, project.path, problem.sourcePath, (content) =>
+      retargetLink(content, problem.link, problem.text, problem.sourcePath, targetPath, project.path)
+    );
+  },
   reloadOpenFiles: async () => {
     const { readTextFile, fileExists } = await import("../services/fileSystem");
     const openFiles = get().openFiles;
@@ -384,8 +912,10 @@ export const useAppStore = create<AppState>((set, get) => ({
           // Check if file still exists
           const exists = await fileExists(file.path);
           if (!exists) {
+            // Staged new files only exist as a pending change
+            const isStagedFile = get().pendingChanges.some(c => c.filePath === file.path && c.kind === "create");
             // File was deleted, mark for removal
-            return null;
+            return isStagedFile ? file : null;
           }
           
           const content = await readTextFile(file.path);
@@ -411,29 +941,214 @@ export const useAppStore = create<AppState>((set, get) => ({
       id: crypto.randomUUID(),
       timestamp: new Date(),
     };
-    set({ chatMessages: [...get().chatMessages, newMessage] });
+    const chatMessages = [...get().chatMessages, newMessage];
+    const { chatThreads, activeThreadId } = get();
+    const now = new Date().toISOString();
+    
+    // The first message creates the thread
+    const existing = chatThreads.find(t => t.id === activeThreadId);
+    const thread: ChatThread = existing
+      ? { ...existing, messages: chatMessages, updatedAt: now }
+      : {
+          id: crypto.randomUUID(),
+          title: createThreadTitle(chatMessages),
+          createdAt: now,
+          updatedAt: now,
+          messages: chatMessages,
+        };
+    
+    set({
+      chatMessages,
+      activeThreadId: thread.id,
+      chatThreads: [thread, ...chatThreads.filter(t => t.id !== thread.id)],
+    });
+    persistThread(get().currentProject, thread);
+    return newMessage.id;
+  },
+  updateChatMessage: (id, updates) => {
+    const { chatMessages, chatThreads, activeThreadId } = get();
+    if (!chatMessages.some(m => m.id === id)) return;
+
+    const messages = chatMessages.map(m => m.id === id ? { ...m, ...updates } : m);
+    const existing = chatThreads.find(t => t.id === activeThreadId);
+    const thread = existing ? { ...existing, messages, updatedAt: new Date().toISOString() } : null;
+    set({
+      chatMessages: messages,
+      chatThreads: thread ? chatThreads.map(t => t.id === thread.id ? thread : t) : chatThreads,
+    });
+    if (thread) persistThread(get().currentProject, thread);
+  },
+  chatThreads: [],
+  activeThreadId: null,
+  loadChatThreads: async () => {
+    const project = get().currentProject;
+    if (!project) return;
+    
+    try {
+      const { loadThreads, loadChangeSets } = await import("../services/chatHistory");
+      const chatThreads = await loadThreads(project.path);
+      const saved = await loadChangeSets(project.path).catch((error) => {
+        console.error("Failed to load change sets:", error);
+        return [];
+      });
+      // Ignore results for a project that was closed in the meantime
+      if (get().currentProject?.path !== project.path) return;
+
+      // Proposed edits don't survive a restart, files still open count as rejected
+      const { changeSets, pendingChanges } = get();
+      const restored = saved
+        .filter(cs => !changeSets.some(c => c.id === cs.id))
+        .map(cs => ({
+          ...cs,
+          files: cs.files.map(f =>
+            f.status === "pending" && !pendingChanges.some(c => c.changeSetId === cs.id && isSameItem(c, f))
+              ? { ...f, status: "rejected" as const }
+              : f
+          ),
+        }));
+      set({ chatThreads, changeSets: [...restored, ...changeSets] });
+    } catch (error) {
+      console.error("Failed to load chat threads:", error);
+    }
+  },
+  startNewThread: () => set({ chatMessages: [], activeThreadId: null }),
+  openChatThread: (id) => {
+    const thread = get().chatThreads.find(t => t.id === id);
+    if (thread) {
+      set({ chatMessages: thread.messages, activeThreadId: thread.id });
+    }
+  },
+  renameChatThread: async (id, title) => {
+    const thread = get().chatThreads.find(t => t.id === id);
+    if (!thread || !title.trim()) return;
+    
+    const renamed = { ...thread, title: title.trim() };
+    set({ chatThreads: get().chatThreads.map(t => t.id === id ? renamed : t) });
+    persistThread(get().currentProject, renamed);
+  },
+  deleteChatThread: async (id) => {
+    const project = get().currentProject;
+    set({ chatThreads: get().chatThreads.filter(t => t.id !== id) });
+    if (get().activeThreadId === id) {
+      set({ chatMessages: [], activeThreadId: null });
+    }
+    await removePersistedThread(project, id);
+  },
+  forkChatThread: async (id, upToMessageId) => {
+    const source = get().chatThreads.find(t => t.id === id);
+    if (!source) return;
+    
+    const endIndex = upToMessageId
+      ? source.messages.findIndex(m => m.id === upToMessageId)
+      : source.messages.length - 1;
+    // The message may be gone, e.g. after the thread was edited
+    if (endIndex === -1) return;
+    const messages = source.messages.slice(0, endIndex + 1);
+    const now = new Date().toISOString();
+    const fork: ChatThread = {
+      id: crypto.randomUUID(),
+      title: `${source.title} (Abzweigung)`,
+      createdAt: now,
+      updatedAt: now,
+      messages,
+      forkedFrom: source.id,
+    };
+    
+    set({
+      chatThreads: [fork, ...get().chatThreads],
+      chatMessages: messages,
+      activeThreadId: fork.id,
+    });
+    persistThread(get().currentProject, fork);
   },
-  clearChat: () => set({ chatMessages: [] }),
 
   // Pending Changes
   pendingChanges: [],
   addPendingChange: (change) => {
     // Remove any existing pending change for the same file
-    const filtered = get().pendingChanges.filter(c => c.filePath !== change.filePath);
+    const filtered = get().pendingChanges.filter(c => !isSameItem(c, change));
     const newChange: PendingChange = {
       ...change,
       id: crypto.randomUUID(),
       timestamp: new Date(),
     };
-    set({ pendingChanges: [...filtered, newChange] });
+
+    // The file moves to the newest change set, the new change builds on the old one
+    let changeSets = get().changeSets
+      .map(cs => ({
+        ...cs,
+        files: cs.files.filter(f => !isSameItem(f, change) || f.status !== "pending"),
+      }))
+      .filter(cs => cs.files.length > 0 || cs.id === change.changeSetId);
+
+    if (change.changeSetId) {
+      const file: ChangeSetFile = {
+        filePath: change.filePath,
+        fileName: change.fileName,
+        status: "pending",
+        kind: change.kind,
+        newPath: change.newPath,
+      };
+      const existing = changeSets.find(cs => cs.id === change.changeSetId);
+      changeSets = existing
+        ? changeSets.map(cs => cs.id === change.changeSetId
+          ? { ...cs, files: [...cs.files.filter(f => !isSameItem(f, change)), file] }
+          : cs)
+        : [...changeSets, { id: change.changeSetId, files: [file], createdAt: new Date() }];
+    }
+
+    set({ pendingChanges: [...filtered, newChange], changeSets });
+    persistChangeSets(get().currentProject, changeSets);
   },
   acceptPendingChange: async (id) => {
     const change = get().pendingChanges.find(c => c.id === id);
     if (!change) return;
+
+    if (!isContentChange(change)) {
+      try {
+        await applyStructuralChange(change, get().currentProject?.path);
+        const from = change.filePath;
+        const to = change.newPath;
+
+        // Open tabs and other pending edits follow a rename/move, a delete closes them
+        let openFiles = get().openFiles;
+        let pendingChanges = get().pendingChanges.filter(c => c.id !== id);
+        let activeFile = get().activeFile;
+        let changeSets = setChangeSetFileStatus(get().changeSets, change, "accepted");
+        if (change.kind === "delete") {
+          openFiles = openFiles.filter(f => !isWithin(f.path, from));
+          for (const dropped of pendingChanges.filter(c => isWithin(c.filePath, from))) {
+            changeSets = setChangeSetFileStatus(changeSets, dropped, "rejected");
+          }
+          pendingChanges = pendingChanges.filter(c => !isWithin(c.filePath, from));
+          if (activeFile && isWithin(activeFile, from)) {
+            activeFile = openFiles.length > 0 ? openFiles[openFiles.length - 1].path : null;
+          }
+        } else if (to) {
+          ({ openFiles, activeFile, pendingChanges, changeSets } = remapOpenPaths(
+            { openFiles, activeFile, pendingChanges, changeSets },
+            from,
+            to
+          ));
+        }
+
+        set({ openFiles, activeFile, pendingChanges, changeSets });
+        persistChangeSets(get().currentProject, changeSets);
+      } catch (error) {
+        console.error("Failed to apply change:", error);
+        throw new Error(`"${change.fileName}" konnte nicht übernommen werden: ${error instanceof Error ? error.message : error}`);
+      }
+      await get().refreshFileTree();
+      return;
+    }
     
     try {
-      const { writeTextFile } = await import("../services/fileSystem");
-      await writeTextFile(change.filePath, change.newContent);
+      const { writeTextFile, createFile } = await import("../services/fileSystem");
+      if (change.kind === "create") {
+        await createFile(change.filePath, change.newContent);
+      } else {
+        await writeTextFile(change.filePath, change.newContent);
+      }
       
       // Update open file if it exists
       const openFiles = get().openFiles.map(f => 
@@ -444,10 +1159,16 @@ export const useAppStore = create<AppState>((set, get) => ({
       
       // Remove the pending change
       const pendingChanges = get().pendingChanges.filter(c => c.id !== id);
+      const changeSets = setChangeSetFileStatus(get().changeSets, change, "accepted");
       
-      set({ openFiles, pendingChanges });
+      set({ openFiles, pendingChanges, changeSets });
+      persistChangeSets(get().currentProject, changeSets);
     } catch (error) {
       console.error("Failed to accept change:", error);
+      throw new Error(`"${change.fileName}" konnte nicht gespeichert werden: ${error instanceof Error ? error.message : error}`);
+    }
+    if (change.kind === "create") {
+      await get().refreshFileTree();
     }
   },
   acceptPendingChangeWithContent: async (id, content) => {
@@ -455,8 +1176,12 @@ export const useAppStore = create<AppState>((set, get) => ({
     if (!change) return;
     
     try {
-      const { writeTextFile } = await import("../services/fileSystem");
-      await writeTextFile(change.filePath, content);
+      const { writeTextFile, createFile } = await import("../services/fileSystem");
+      if (change.kind === "create") {
+        await createFile(change.filePath, content);
+      } else {
+        await writeTextFile(change.filePath, content);
+      }
       
       // Update open file if it exists
       const openFiles = get().openFiles.map(f => 
@@ -467,17 +1192,141 @@ export const useAppStore = create<AppState>((set, get) => ({
       
       // Remove the pending change
       const pendingChanges = get().pendingChanges.filter(c => c.id !== id);
+      const changeSets = setChangeSetFileStatus(get().changeSets, change, "accepted");
       
-      set({ openFiles, pendingChanges });
+      set({ openFiles, pendingChanges, changeSets });
+      persistChangeSets(get().currentProject, changeSets);
+      if (change.kind === "create") {
+        await get().refreshFileTree();
+      }
     } catch (error) {
       console.error("Failed to accept change with content:", error);
     }
   },
   rejectPendingChange: (id) => {
-    set({ pendingChanges: get().pendingChanges.filter(c => c.id !== id) });
+    const change = get().pendingChanges.find(c => c.id === id);
+    if (!change) return;
+
+    set({
+      pendingChanges: get().pendingChanges.filter(c => c.id !== id),
+      changeSets: setChangeSetFileStatus(get().changeSets, change, "rejected"),
+    });
+    persistChangeSets(get().currentProject, get().changeSets);
+
+    // The preview tab of a rejected new file has nothing left to show
+    if (change.kind === "create") {
+      get().closeFile(change.filePath);
+    }
   },
   getPendingChangeForFile: (filePath) => {
-    return get().pendingChanges.find(c => c.filePath === filePath);
+    return get().pendingChanges.find(c => c.filePath === filePath && isContentChange(c));
+  },
+  proposeInlineEdit: async (path, from, to, instruction, signal) => {
+    const file = get().openFiles.find(f => f.path === path);
+    if (!file) return;
+    if (get().getPendingChangeForFile(path)) {
+      throw new Error("Für diese Datei gibt es bereits eine offene Änderung.");
+    }
+
+    const selection = get().getModelSelection();
+    if (!selection) {
+      throw new Error("Bitte füge den API-Key für den gewählten Anbieter in den Einstellungen hinzu.");
+    }
+
+    const { generateInlineEdit, replaceRange } = await import("../services/inlineEdit");
+    const { loadProjectInstructions } = await import("../services/projectInstructions");
+    const project = get().currentProject;
+    const text = await generateInlineEdit({
+      content: file.content,
+      from,
+      to,
+      instruction,
+      selection,
+      customPrompt: get().customPrompt,
+      projectInstructions: project ? await loadProjectInstructions(project.path) : "",
+      signal,
+    });
+
+    // Typing during the request moves the region, find it again
+    const content = get().openFiles.find(f => f.path === path)?.content ?? file.content;
+    let start = from;
+    if (content !== file.content) {
+      const region = file.content.slice(from, to);
+      start = from === to ? -1 : content.indexOf(region);
+      if (start === -1) {
+        throw new Error("Die Datei wurde währenddessen geändert. Bitte erneut versuchen.");
+      }
+    }
+
+    get().addPendingChange({
+      filePath: path,
+      fileName: file.name,
+      originalContent: content,
+      newContent: replaceRange(content, start, start + (to - from), text),
+    });
+  },
+  changeSets: [],
+  acceptChangeSet: async (id) => {
+    const changes = get().pendingChanges
+      .filter(c => c.changeSetId === id)
+      .sort((a, b) => CHANGE_KIND_ORDER.indexOf(a.kind ?? "update") - CHANGE_KIND_ORDER.indexOf(b.kind ?? "update"));
+    // Later changes may build on earlier ones, so the first failure stops the set
+    for (const change of changes) {
+      await get().acceptPendingChange(change.id);
+    }
+  },
+  rejectChangeSet: (id) => {
+    const changes = get().pendingChanges.filter(c => c.changeSetId === id);
+    for (const change of changes) {
+      get().rejectPendingChange(change.id);
+    }
+  },
+
+  // AI Journal
+  aiJournal: [],
+  loadAiJournal: async () => {
+    const project = get().currentProject;
+    if (!project) return;
+
+    const { loadJournal } = await import("../services/aiJournal");
+    const loaded = await loadJournal(project.path);
+    if (get().currentProject?.path !== project.path) return;
+
+    // Operations recorded while loading are kept
+    const recorded = get().aiJournal.filter(e => !loaded.some(l => l.id === e.id));
+    const aiJournal = [...loaded, ...recorded];
+    set({ aiJournal });
+    if (recorded.length > 0) {
+      persistJournal(project, aiJournal);
+    }
+  },
+  recordFileOperation: (turnId, operation) => {
+    const aiJournal = [...get().aiJournal, createJournalEntry(turnId, operation)];
+    set({ aiJournal });
+    persistJournal(get().currentProject, aiJournal);
+  },
+  undoAiTurn: async (turnId) => {
+    const project = get().currentProject;
+    if (!project) return;
+
+    const entries = get().aiJournal.filter(e => e.turnId === turnId && !e.undone);
+    if (entries.length === 0) return;
+
+    // Throws with the conflicting files, nothing is changed in that case.
+    // If a write fails midway, the entries reverted so far are still marked.
+    const { undoEntries } = await import("../services/aiJournal");
+    const reverted = new Set<string>();
+    try {
+      await undoEntries(entries, project.path, (entry) => reverted.add(entry.id));
+    } finally {
+      if (reverted.size > 0) {
+        const aiJournal = get().aiJournal.map(e => reverted.has(e.id) ? { ...e, undone: true } : e);
+        set({ aiJournal });
+        persistJournal(project, aiJournal);
+        await get().refreshFileTree();
+        await get().reloadOpenFiles();
+      }
+    }
   },
 
   // UI State
@@ -491,21 +1340,106 @@ export const useAppStore = create<AppState>((set, get) => ({
   setShowSettings: (show) => set({ showSettings: show }),
 
   // Settings
-  apiKey: "",
-  setApiKey: (key) => {
-    localStorage.setItem("openai_api_key", key);
-    set({ apiKey: key });
+  providers: DEFAULT_PROVIDERS,
+  addProvider: (provider) => {
+    const providers = [...get().providers, provider];
+    localStorage.setItem("llm_providers", JSON.stringify(providers));
+    set({ providers });
+  },
+  updateProvider: (id, updates) => {
+    const providers = get().providers.map(p =>
+      p.id === id ? { ...p, ...updates } : p
+    );
+    localStorage.setItem("llm_providers", JSON.stringify(providers));
+    set({ providers });
+  },
+  removeProvider: (id) => {
+    const providers = get().providers.filter(p => p.id !== id);
+    const { [id]: _removed, ...providerApiKeys } = get().providerApiKeys;
+    localStorage.setItem("llm_providers", JSON.stringify(providers));
+    set({ providers, providerApiKeys });
+    import("../services/secrets")
+      .then(({ deleteSecret }) => deleteSecret(getProviderSecretKey(id)))
+      .catch(error => console.error("Failed to delete API key:", error));
+  },
+  providerApiKeys: {},
+  setProviderApiKey: async (providerId, key) => {
+    set({ providerApiKeys: { ...get().providerApiKeys, [providerId]: key } });
+    const { setSecret, deleteSecret } = await import("../services/secrets");
+    if (key) {
+      await setSecret(getProviderSecretKey(providerId), key);
+    } else {
+      await deleteSecret(getProviderSecretKey(providerId));
+    }
   },
+  selectedProviderId: "openai",
   selectedModel: "gpt-4o",
-  setSelectedModel: (model) => {
+  setSelectedModel: (providerId, model) => {
+    localStorage.setItem("selected_provider", providerId);
     localStorage.setItem("selected_model", model);
-    set({ selectedModel: model });
+    set({ selectedProviderId: providerId, selectedModel: model });
+  },
+  getModelSelection: () => {
+    const { providers, providerApiKeys, selectedProviderId, selectedModel } = get();
+    return resolveModelSelection(providers, providerApiKeys, selectedProviderId, selectedModel);
   },
   diffModeEnabled: true,
   setDiffModeEnabled: (enabled) => {
     localStorage.setItem("diff_mode_enabled", String(enabled));
     set({ diffModeEnabled: enabled });
   },
+  useVaultKnowledge: false,
+  setUseVaultKnowledge: (enabled) => {
+    localStorage.setItem("use_vault_knowledge", String(enabled));
+    set({ useVaultKnowledge: enabled });
+  },
+  customPrompt: "",
+  setCustomPrompt: (prompt) => {
+    localStorage.setItem("custom_prompt", prompt);
+    set({ customPrompt: prompt });
+  },
+  agentMaxSteps: DEFAULT_MAX_STEPS,
+  setAgentMaxSteps: (steps) => {
+    localStorage.setItem("agent_max_steps", String(steps));
+    set({ agentMaxSteps: steps });
+  },
+  agentTokenBudget: DEFAULT_TOKEN_BUDGET,
+  setAgentTokenBudget: (tokens) => {
+    localStorage.setItem("agent_token_budget", String(tokens));
+    set({ agentTokenBudget: tokens });
+  },
+  toolPermissions: {},
+  setToolPermission: (toolName, permission) => {
+    const { [toolName]: _removed, ...rest } = get().toolPermissions;
+    const toolPermissions = permission ? { ...rest, [toolName]: permission } : rest;
+    localStorage.setItem("tool_permissions", JSON.stringify(toolPermissions));
+    set({ toolPermissions });
+  },
+  getToolPermission: (toolName) => getToolPermission(get().toolPermissions, toolName),
+  toolConfirmation: null,
+  requestToolConfirmation: (toolName, args) => {
+    const request = toolConfirmationQueue.then(() => new Promise<boolean>((resolve) => {
+      set({ toolConfirmation: { toolName, args, resolve } });
+    }));
+    toolConfirmationQueue = request;
+    return request;
+  },
+  resolveToolConfirmation: (allowed) => {
+    const confirmation = get().toolConfirmation;
+    if (!confirmation) return;
+    set({ toolConfirmation: null });
+    confirmation.resolve(allowed);
+  },
+  vaultServerEnabled: false,
+  setVaultServerEnabled: (enabled) => {
+    localStorage.setItem("vault_server_enabled", String(enabled));
+    set({ vaultServerEnabled: enabled });
+  },
+  vaultServerPort: 3333,
+  setVaultServerPort: (port) => {
+    localStorage.setItem("vault_server_port", String(port));
+    set({ vaultServerPort: port });
+  },
   
   // MCP Settings
   mcpServers: [],
@@ -526,8 +1460,14 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ mcpServers: servers });
   },
   removeMcpServer: (id) => {
+    const server = get().mcpServers.find(s => s.id === id);
     const servers = get().mcpServers.filter(s => s.id !== id);
     localStorage.setItem("mcp_servers", JSON.stringify(servers));
     set({ mcpServers: servers });
+    
+    // Secrets are stored separately and have to be removed on their own
+    if (server) {
+      import("../services/mcp").then(({ deleteServerSecrets }) => deleteServerSecrets(server));
+    }
   },
 }));